@@ -1,21 +1,48 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { PubMedArticle, AppMode, ChatMessage } from './types';
-import { searchPubMedIds, fetchArticleDetails } from './services/pubmedService';
-import { generateRAGResponse } from './services/ragService';
+import { PubMedArticle, AppMode, ChatMessage, AnswerMode, SearchTierOutcome, SearchFilters, LiteratureSourceId, CombinedSearchResult, ArticleUsage, QueryIntent, AnswerContext, PharmacopoeiaPage } from './types';
+import { SEARCH_TIER_LABELS } from './services/pubmedService';
+import { searchLiterature, LITERATURE_SOURCES, LITERATURE_SOURCE_LABELS, citationKeyFor } from './services/literatureSources';
+import { streamRAGResponse, generateStructuredRAGResponse } from './services/ragService';
+import { isTopicShift } from './services/conversation';
+import { understandQuery, describeQueryRewrite } from './services/queryUnderstanding';
+import { classifyIntent, searchesLiterature, INTENT_ROUTES } from './services/intentClassifier';
+import { compareByEvidence } from './services/evidenceGrading';
+import { attachFullText } from './services/fullTextService';
+import { structuredAnswerToMarkdown } from './services/structuredAnswer';
+import { verifyAnswerCitations, verifyStructuredCitations, flagFabricatedCitations } from './services/citationVerifier';
 import ArticleCard from './components/ArticleCard';
 import LoadingState from './components/LoadingState';
 import RichTextRenderer from './components/RichTextRenderer';
+import StructuredAnswerView from './components/StructuredAnswerView';
+import CitationIntegrityReport from './components/CitationIntegrityReport';
+import SearchFiltersPanel from './components/SearchFiltersPanel';
+import CitationExportMenu from './components/CitationExportMenu';
+import { citedReferences } from './services/citationExport';
 
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.LANDING);
   const [query, setQuery] = useState('');
+  const [followUpQuery, setFollowUpQuery] = useState('');
   const [articles, setArticles] = useState<PubMedArticle[]>([]);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>('');
   const [isSidebarExpanded, setIsSidebarExpanded] = useState(true); // State for sidebar visibility
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('markdown');
+  const [mergeTiers, setMergeTiers] = useState(false); // Union all search tiers instead of stopping at the first hit
+  const [searchTiers, setSearchTiers] = useState<SearchTierOutcome[]>([]);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [literatureSources, setLiteratureSources] = useState<LiteratureSourceId[]>(['pubmed', 'europepmc', 'ajol']);
+  const [includeRetracted, setIncludeRetracted] = useState(false); // Researcher override: let retracted papers reach the model
+  const [selectedPmids, setSelectedPmids] = useState<string[]>([]); // Sidebar articles chosen for citation export
+  const [sourceCounts, setSourceCounts] = useState<CombinedSearchResult['sourceCounts']>({});
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const searchIdRef = useRef(0); // Lets a superseded search leave the newer one's state alone
+
+  const isStreaming = chatHistory.some(msg => msg.isStreaming);
+  const isAwaitingFirstToken = chatHistory.some(msg => msg.isStreaming && msg.text.length === 0);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -25,70 +52,170 @@ function App() {
     scrollToBottom();
   }, [chatHistory]);
 
+  const updateMessage = (id: string, changes: Partial<ChatMessage>) => {
+    setChatHistory(prev => prev.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+  };
+
+  // The articles the server fitted into the answer's context, in its rank order
+  const articlesInContext = (articles: PubMedArticle[], context: AnswerContext | null): PubMedArticle[] =>
+    context ? context.contextPmids.flatMap(pmid => articles.filter(article => article.pmid === pmid)) : articles;
+
+  // The pharmacopoeia pages the server retrieved for the answer
+  const herbalPagesInContext = (context: AnswerContext | null): PharmacopoeiaPage[] => context?.herbalPages ?? [];
+
+  /**
+   * Streams the answer into a new model message, token by token.
+   * The message is dropped if nothing arrived and the stream failed.
+   * Once complete, its citations are checked against the context it was given.
+   */
+  const streamAnswer = async (
+    question: string,
+    retrievedArticles: PubMedArticle[],
+    history: ChatMessage[],
+    intent: QueryIntent
+  ) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    const messageId = `m-${Date.now()}`;
+    setChatHistory(prev => [...prev, { id: messageId, role: 'model', text: '', timestamp: Date.now(), isStreaming: true }]);
+
+    let text = '';
+    let context: AnswerContext | null = null;
+    const onContext = (answerContext: AnswerContext) => {
+      context = answerContext;
+      updateMessage(messageId, { contextPmids: answerContext.contextPmids });
+    };
+
+    try {
+      for await (const chunk of streamRAGResponse(question, retrievedArticles, history, { signal: controller.signal, intent, includeRetracted, onContext })) {
+        text += chunk;
+        updateMessage(messageId, { text });
+      }
+
+      if (controller.signal.aborted) {
+        text = text ? `${text}\n\n*Generation stopped.*` : '*Generation stopped before any text was produced.*';
+      } else if (!text) {
+        text = "I could not generate a response from the available data.";
+      }
+      const citationReport = verifyAnswerCitations(text, articlesInContext(retrievedArticles, context), herbalPagesInContext(context));
+      updateMessage(messageId, { text: flagFabricatedCitations(text, citationReport), isStreaming: false, citationReport });
+    } catch (error) {
+      if (text) {
+        updateMessage(messageId, { text, isStreaming: false });
+      } else {
+        setChatHistory(prev => prev.filter(msg => msg.id !== messageId));
+      }
+      throw error;
+    } finally {
+      if (streamAbortRef.current === controller) streamAbortRef.current = null;
+    }
+  };
+
+  const stopStreaming = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  /**
+   * Produces the model's answer in the selected mode: streamed markdown,
+   * or a validated structured object rendered by dedicated components.
+   * The intent picks the prompt template and weights the article ranking.
+   */
+  const answerQuestion = async (question: string, retrievedArticles: PubMedArticle[], history: ChatMessage[], intent: QueryIntent) => {
+    // The server reranks the articles, keeps only those that fit its providers' token budget and adds the pharmacopoeia passages
+    if (answerMode === 'markdown') {
+      await streamAnswer(question, retrievedArticles, history, intent);
+      return;
+    }
+
+    let context: AnswerContext | null = null;
+    const structured = await generateStructuredRAGResponse(question, retrievedArticles, history, {
+      intent, includeRetracted, onContext: answerContext => { context = answerContext; }
+    });
+    const contextArticles = articlesInContext(retrievedArticles, context);
+    const citationReport = verifyStructuredCitations(structured, contextArticles, herbalPagesInContext(context));
+    setChatHistory(prev => [...prev, {
+      id: `m-${Date.now()}`,
+      role: 'model',
+      text: flagFabricatedCitations(structuredAnswerToMarkdown(structured), citationReport),
+      timestamp: Date.now(),
+      structured,
+      citationReport,
+      contextPmids: contextArticles.map(article => article.pmid)
+    }]);
+  };
+
   const handleSearch = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     if (!query.trim()) return;
 
+    stopStreaming();
+    const searchId = ++searchIdRef.current;
     setMode(AppMode.SEARCHING);
     setIsLoading(true);
     setLoadingStep('Accessing PubMed Database...');
     setArticles([]);
+    setSearchTiers([]);
+    setSourceCounts({});
+    setSelectedPmids([]);
     setChatHistory([]);
+    setFollowUpQuery('');
 
-    try {
-      // 1. Fetch IDs with Progress Callback
-      const ids = await searchPubMedIds(query, (msg) => setLoadingStep(msg));
+    const { intent } = classifyIntent(query);
 
-      if (ids.length === 0) {
-        setLoadingStep('No relevant papers found in initial search.');
-        setChatHistory([{
-          id: 'error-no-ids',
-          role: 'model',
-          text: `I couldn't find specific research papers matching "${query}" even after checking National and Regional West African databases. \n\nTry using the scientific name if known, or broader terms like "Medicinal Plants Nigeria".`,
-          timestamp: Date.now(),
-          isError: true
-        }]);
+    try {
+      // Name lookups for plants the lexicon knows are answered from stored names and pharmacopoeia data, without PubMed
+      if (!searchesLiterature(query, intent)) {
+        setLoadingStep('Looking up plant names...');
+        setChatHistory([{ id: 'u-1', role: 'user', text: query, timestamp: Date.now(), intent }]);
         setMode(AppMode.RESULTS);
-        setIsLoading(false);
+        await answerQuestion(query, [], [], intent);
         return;
       }
 
-      setLoadingStep(`Found ${ids.length} relevant papers. Retrieving abstracts...`);
+      // 1. Search and fetch articles with Progress Callback
+      const { articles: fetchedArticles, tiers, sourceCounts: counts } = await searchLiterature(query, (msg) => setLoadingStep(msg), { mergeTiers, filters: searchFilters, sources: literatureSources });
+      setSearchTiers(tiers);
+      setSourceCounts(counts);
 
-      // 2. Fetch Details
-      const fetchedArticles = await fetchArticleDetails(ids);
-
-      // Check if articles were successfully retrieved
       if (fetchedArticles.length === 0) {
+        setLoadingStep('No relevant papers found in initial search.');
         setChatHistory([{
-          id: 'error-no-articles',
+          id: 'error-no-ids',
           role: 'model',
-          text: `Found ${ids.length} paper IDs but couldn't retrieve article details. This may be due to network restrictions or API limits.`,
+          text: `I couldn't find specific research papers matching "${query}" even after checking National and Regional West African searches. \n\nTry using the scientific name if known, or broader terms like "Medicinal Plants Nigeria".`,
           timestamp: Date.now(),
           isError: true
         }]);
         setMode(AppMode.RESULTS);
-        setIsLoading(false);
         return;
       }
 
-      setArticles(fetchedArticles);
+      // 2. Pull open-access full text (methods, results, discussion) where PMC has it
+      setLoadingStep('Reading open-access full texts...');
+      const contextArticles = await attachFullText(query, fetchedArticles);
+      setArticles(contextArticles);
 
       setLoadingStep('Synthesizing research...');
 
-      // 3. RAG Generation
-      const ragResponse = await generateRAGResponse(query, fetchedArticles);
-
-      setChatHistory([
-        { id: 'u-1', role: 'user', text: query, timestamp: Date.now() },
-        { id: 'm-1', role: 'model', text: ragResponse, timestamp: Date.now() }
-      ]);
-
+      // 3. RAG Generation, streamed into the results view as it arrives
+      setChatHistory([{
+        id: 'u-1',
+        role: 'user',
+        text: query,
+        timestamp: Date.now(),
+        searchedFor: describeQueryRewrite(understandQuery(query)) ?? undefined,
+        intent
+      }]);
       setMode(AppMode.RESULTS);
 
+      await answerQuestion(query, contextArticles, [], intent);
+
     } catch (error) {
       console.error("Error during search process:", error);
-      setChatHistory([{
+      if (searchIdRef.current !== searchId) return;
+      // Any partial answer stays, with the notice after it
+      setChatHistory(prev => [...prev, {
         id: 'error-gen',
         role: 'model',
         text: "An error occurred while processing your request. Please try again later.",
@@ -96,18 +223,92 @@ function App() {
         isError: true
       }]);
       setMode(AppMode.RESULTS);
+    } finally {
+      if (searchIdRef.current === searchId) setIsLoading(false);
+    }
+  };
+
+  const handleFollowUp = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    const followUp = followUpQuery.trim();
+    if (!followUp || isLoading) return;
+
+    const history = chatHistory;
+    const userMessageId = `u-${Date.now()}`;
+    const { intent } = classifyIntent(followUp);
+    setChatHistory(prev => [...prev, { id: userMessageId, role: 'user', text: followUp, timestamp: Date.now(), intent }]);
+    setFollowUpQuery('');
+    setIsLoading(true);
+    setLoadingStep('Analyzing research papers...');
+
+    try {
+      // 1. Reuse the fetched articles unless the follow-up moves to a new subject
+      // (name lookups for plants the lexicon knows need no articles at all)
+      const needsLiterature = searchesLiterature(followUp, intent);
+      let contextArticles = needsLiterature ? articles : [];
+
+      if (needsLiterature && (articles.length === 0 || isTopicShift(followUp, history))) {
+        const searchedFor = describeQueryRewrite(understandQuery(followUp));
+        if (searchedFor) updateMessage(userMessageId, { searchedFor });
+
+        const { articles: foundArticles } = await searchLiterature(followUp, (msg) => setLoadingStep(msg), { mergeTiers, filters: searchFilters, sources: literatureSources });
+
+        if (foundArticles.length > 0) {
+          setLoadingStep('Reading open-access full texts...');
+          const enrichedArticles = await attachFullText(followUp, foundArticles);
+          const knownIds = new Set(articles.map(article => article.pmid));
+          const newArticles = enrichedArticles.filter(article => !knownIds.has(article.pmid));
+
+          contextArticles = enrichedArticles;
+          setArticles(prev => [...newArticles, ...prev]);
+        }
+      }
+
+      setLoadingStep('Synthesizing research...');
+
+      // 2. RAG Generation with the earlier turns as conversation history
+      await answerQuestion(followUp, contextArticles, history, intent);
+    } catch (error) {
+      console.error("Error answering follow-up question:", error);
+      setChatHistory(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        role: 'model',
+        text: "An error occurred while answering your follow-up question. Please try again.",
+        timestamp: Date.now(),
+        isError: true
+      }]);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Sidebar status of each article for the latest answer
+  const latestAnswer = [...chatHistory].reverse().find(msg => msg.role === 'model' && msg.contextPmids);
+  const citedKeys = new Set((latestAnswer?.citationReport?.checks || [])
+    .filter(check => check.status === 'verified')
+    .map(check => check.citation.split(' §')[0]));
+  const articleUsage = (article: PubMedArticle): ArticleUsage | undefined => {
+    if (!latestAnswer || latestAnswer.isStreaming) return undefined;
+    if (citedKeys.has(citationKeyFor(article))) return 'cited';
+    return latestAnswer.contextPmids!.includes(article.pmid) ? 'in-context' : 'unused';
+  };
+
   const resetApp = () => {
+    stopStreaming();
     setMode(AppMode.LANDING);
     setQuery('');
+    setFollowUpQuery('');
     setArticles([]);
+    setSearchTiers([]);
+    setSourceCounts({});
+    setSelectedPmids([]);
     setChatHistory([]);
   };
 
+  const toggleSelected = (pmid: string) => {
+    setSelectedPmids(current => current.includes(pmid) ? current.filter(id => id !== pmid) : [...current, pmid]);
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900">
       {/* Header */}
@@ -237,6 +438,26 @@ function App() {
                   </span>
                 </div>
 
+                {/* Which search tiers ran and what each found */}
+                {searchTiers.length > 0 && (
+                  <p className="text-xs text-emerald-700 mb-3">
+                    Searched: {searchTiers.map(({ tier, count }) => `${SEARCH_TIER_LABELS[tier]} (${count})`).join(' → ')}
+                    {Object.keys(sourceCounts).length > 1 && (
+                      <span className="block mt-1">
+                        Databases: {Object.entries(sourceCounts).map(([source, count]) => `${LITERATURE_SOURCE_LABELS[source as LiteratureSourceId]} (${count})`).join(' · ')}
+                      </span>
+                    )}
+                    {!includeRetracted && articles.some(article => article.isRetracted) && (
+                      <span className="block text-red-700 mt-1">
+                        {articles.filter(article => article.isRetracted).length} retracted paper(s) excluded from answers.
+                      </span>
+                    )}
+                    {articles.some(article => article.searchTier === 'regional') && (
+                      <span className="block text-amber-700 mt-1">Includes regional West African studies, not only Nigerian ones.</span>
+                    )}
+                  </p>
+                )}
+
                 {/* Search and Filter Controls */}
                 <div className="space-y-3">
                   {/* Source Search */}
@@ -251,14 +472,47 @@ function App() {
 
                   {/* Filters */}
                   <div className="flex flex-wrap gap-2">
-                    <select className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700">
-                      <option>All Types</option>
-                      <option>Clinical Trial</option>
-                      <option>Meta-analysis</option>
-                      <option>Systematic Review</option>
-                      <option>Observational</option>
-                      <option>Case Study</option>
-                    </select>
+                    <label
+                      className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 text-emerald-700 flex items-center gap-1 cursor-pointer"
+                      title="Search Nigerian and West African tiers together instead of stopping at the first tier with results (applies to the next search)"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={mergeTiers}
+                        onChange={(e) => setMergeTiers(e.target.checked)}
+                        className="rounded border-emerald-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      Merge search tiers
+                    </label>
+                    <label
+                      className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 text-emerald-700 flex items-center gap-1 cursor-pointer"
+                      title="Let retracted papers into the model's context, e.g. to study retracted work (applies to the next answer)"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={includeRetracted}
+                        onChange={(e) => setIncludeRetracted(e.target.checked)}
+                        className="rounded border-emerald-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      Include retracted
+                    </label>
+                    {LITERATURE_SOURCES.filter(source => source.id !== 'pubmed').map(source => (
+                      <label
+                        key={source.id}
+                        className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 text-emerald-700 flex items-center gap-1 cursor-pointer"
+                        title={`Also search ${source.label} (applies to the next search)`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={literatureSources.includes(source.id)}
+                          onChange={(e) => setLiteratureSources(current =>
+                            e.target.checked ? [...current, source.id] : current.filter(id => id !== source.id)
+                          )}
+                          className="rounded border-emerald-300 text-emerald-600 focus:ring-emerald-500"
+                        />
+                        {LITERATURE_SOURCE_LABELS[source.id]}
+                      </label>
+                    ))}
                     <select className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700">
                       <option>All Regions</option>
                       <option>West Africa</option>
@@ -266,13 +520,22 @@ function App() {
                       <option>Ghana</option>
                       <option>Cameroon</option>
                     </select>
-                    <select className="text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700">
-                      <option>All Dates</option>
-                      <option>Last 6 months</option>
-                      <option>Last year</option>
-                      <option>Last 2 years</option>
-                    </select>
                   </div>
+
+                  <SearchFiltersPanel
+                    filters={searchFilters}
+                    onChange={setSearchFilters}
+                    onApply={() => handleSearch()}
+                    disabled={isLoading || !query.trim()}
+                  />
+
+                  {/* Citation export: the selected articles, or all of them when none are selected */}
+                  {articles.length > 0 && (
+                    <CitationExportMenu
+                      articles={selectedPmids.length > 0 ? articles.filter(article => selectedPmids.includes(article.pmid)) : articles}
+                      label={selectedPmids.length > 0 ? `Export ${selectedPmids.length} selected` : `Export all ${articles.length}`}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -284,7 +547,7 @@ function App() {
                     <p className="text-sm mt-1">The AI response was synthesized from research data</p>
                   </div>
                 ) : (
-                  articles.map((article, idx) => (
+                  [...articles].sort(compareByEvidence).map((article, idx) => (
                     <div
                       key={article.pmid}
                       className="transform transition-transform hover:scale-[1.01] duration-200"
@@ -293,6 +556,9 @@ function App() {
                         article={article}
                         index={idx}
                         showCompact={true}
+                        usage={articleUsage(article)}
+                        selected={selectedPmids.includes(article.pmid)}
+                        onToggleSelect={() => toggleSelected(article.pmid)}
                         onCardClick={() => {
                           // Highlight referenced sections in synthesis
                         }}
@@ -311,6 +577,17 @@ function App() {
                   Medical Synthesis
                 </h3>
 
+                {/* Answer format: streamed markdown or typed structured sections */}
+                <select
+                  value={answerMode}
+                  onChange={(e) => setAnswerMode(e.target.value as AnswerMode)}
+                  className="ml-auto mr-2 text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700"
+                  aria-label="Answer format"
+                >
+                  <option value="markdown">Narrative answer</option>
+                  <option value="structured">Structured answer</option>
+                </select>
+
                 {/* Toggle button for sidebar */}
                 <button
                   onClick={() => setIsSidebarExpanded(!isSidebarExpanded)}
@@ -334,7 +611,7 @@ function App() {
                 <div className="max-w-3xl mx-auto">
                   {chatHistory.map((msg) => (
                     <div key={msg.id} className="mb-6">
-                      {msg.role === 'model' && (
+                      {msg.role === 'model' && !msg.isError && msg.text && (
                         <div className="mb-4">
                           <div className="flex items-center gap-2 mb-4">
                             <div className="w-2 h-2 bg-emerald-600 rounded-full"></div>
@@ -342,35 +619,81 @@ function App() {
                             <span className="text-xs text-emerald-500">Grounded in {articles.length} Studies</span>
                           </div>
 
-                          {/* Collapsible sections */}
-                          <div className="bg-white rounded-xl shadow-sm border border-emerald-100 overflow-hidden mb-4">
-                            <div className="p-4 border-b border-emerald-100 bg-gradient-to-r from-emerald-50 to-white">
-                              <div className="flex justify-between items-center">
-                                <h4 className="font-semibold text-emerald-800">Key Findings</h4>
-                                <button className="text-emerald-600 hover:text-emerald-700 text-sm font-medium">Expand</button>
+                          {msg.structured ? (
+                            <div className="mb-4">
+                              <StructuredAnswerView
+                                answer={msg.structured}
+                                unverifiedCitations={msg.citationReport?.checks
+                                  .filter(check => check.status === 'fabricated')
+                                  .map(check => check.citation)}
+                              />
+                            </div>
+                          ) : (
+                            /* Collapsible sections */
+                            <div className="bg-white rounded-xl shadow-sm border border-emerald-100 overflow-hidden mb-4">
+                              <div className="p-4 border-b border-emerald-100 bg-gradient-to-r from-emerald-50 to-white">
+                                <div className="flex justify-between items-center">
+                                  <h4 className="font-semibold text-emerald-800">Key Findings</h4>
+                                  <button className="text-emerald-600 hover:text-emerald-700 text-sm font-medium">Expand</button>
+                                </div>
+                              </div>
+                              <div className="p-4">
+                                <RichTextRenderer text={msg.text} className="text-emerald-700 leading-relaxed" />
+                                {msg.isStreaming && (
+                                  <span className="inline-block w-2 h-4 bg-emerald-500 animate-pulse align-middle" aria-label="Generating"></span>
+                                )}
                               </div>
                             </div>
-                            <div className="p-4">
-                              <RichTextRenderer text={msg.text} className="text-emerald-700 leading-relaxed" />
+                          )}
+
+                          {msg.citationReport && (
+                            <div className="mb-4">
+                              <CitationIntegrityReport report={msg.citationReport} />
                             </div>
-                          </div>
+                          )}
+
+                          {msg.citationReport && !msg.isStreaming && (() => {
+                            const cited = citedReferences(msg.citationReport, articles);
+                            return cited.articles.length + cited.pharmacopoeia.length > 0 && (
+                              <div className="mb-4">
+                                <CitationExportMenu
+                                  articles={cited.articles}
+                                  pharmacopoeiaReferences={cited.pharmacopoeia}
+                                  label={`Export ${cited.articles.length + cited.pharmacopoeia.length} cited references`}
+                                  filename="naijamed-answer-citations"
+                                />
+                              </div>
+                            );
+                          })()}
 
                           {/* Risks and Interactions Callout */}
-                          <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 mb-4">
-                            <div className="flex items-start">
-                              <svg className="w-5 h-5 text-amber-500 mt-0.5 mr-2 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.34 16.5c-.77.833.192 2.5 1.732 2.5z"></path></svg>
-                              <div>
-                                <h5 className="font-semibold text-amber-800 mb-1">Safety Considerations</h5>
-                                <p className="text-amber-700 text-sm">Always consult with a healthcare professional before using herbal remedies, especially if taking other medications.</p>
+                          {!msg.isStreaming && (
+                            <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 mb-4">
+                              <div className="flex items-start">
+                                <svg className="w-5 h-5 text-amber-500 mt-0.5 mr-2 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.34 16.5c-.77.833.192 2.5 1.732 2.5z"></path></svg>
+                                <div>
+                                  <h5 className="font-semibold text-amber-800 mb-1">Safety Considerations</h5>
+                                  <p className="text-amber-700 text-sm">Always consult with a healthcare professional before using herbal remedies, especially if taking other medications.</p>
+                                </div>
                               </div>
                             </div>
-                          </div>
+                          )}
                         </div>
                       )}
                       {msg.role === 'user' && (
                         <div className="bg-emerald-800 text-white rounded-2xl p-4 shadow-sm max-w-[85%] ml-auto">
                           <div className="text-emerald-200 text-sm mb-1">Your Question</div>
                           <div>{msg.text}</div>
+                          {msg.intent && (
+                            <span className="inline-block mt-2 mr-2 px-2 py-0.5 rounded-full bg-emerald-700 text-emerald-100 text-xs">
+                              {INTENT_ROUTES[msg.intent].label}
+                            </span>
+                          )}
+                          {msg.searchedFor && (
+                            <div className="text-emerald-200 text-xs mt-2">
+                              Searching for <span className="italic">{msg.searchedFor}</span>
+                            </div>
+                          )}
                         </div>
                       )}
                       {msg.isError && (
@@ -385,12 +708,12 @@ function App() {
                     </div>
                   ))}
 
-                  {isLoading && (
+                  {isLoading && (!isStreaming || isAwaitingFirstToken) && (
                     <div className="bg-emerald-50 rounded-2xl p-4 border border-emerald-200 flex items-center gap-2 max-w-[85%]">
                       <div className="w-2 h-2 bg-emerald-600 rounded-full animate-bounce"></div>
                       <div className="w-2 h-2 bg-emerald-600 rounded-full animate-bounce delay-75"></div>
                       <div className="w-2 h-2 bg-emerald-600 rounded-full animate-bounce delay-150"></div>
-                      <span className="text-sm text-emerald-600 ml-2">Analyzing research papers...</span>
+                      <span className="text-sm text-emerald-600 ml-2">{loadingStep || 'Analyzing research papers...'}</span>
                     </div>
                   )}
                   <div ref={messagesEndRef} />
@@ -399,21 +722,32 @@ function App() {
 
               {/* Chat Input Area */}
               <div className="p-4 bg-white border-t border-emerald-100">
-                <form onSubmit={handleSearch} className="relative">
+                <form onSubmit={handleFollowUp} className="relative">
                   <input
                     type="text"
-                    value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    value={followUpQuery}
+                    onChange={(e) => setFollowUpQuery(e.target.value)}
                     placeholder="Ask a follow-up question..."
                     className="w-full pl-4 pr-12 py-3 bg-emerald-50 border border-emerald-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:bg-white transition-all shadow-sm"
                   />
-                  <button
-                    type="submit"
-                    disabled={isLoading}
-                    className="absolute right-2 top-2 p-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
-                  >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path></svg>
-                  </button>
+                  {isStreaming ? (
+                    <button
+                      type="button"
+                      onClick={stopStreaming}
+                      className="absolute right-2 top-2 p-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                      aria-label="Stop generating"
+                    >
+                      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2"></rect></svg>
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={isLoading}
+                      className="absolute right-2 top-2 p-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path></svg>
+                    </button>
+                  )}
                 </form>
               </div>
             </div>
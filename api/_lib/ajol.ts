@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { PubMedArticle, SearchFilters } from '../../types';
+import { createResponseCache, combineCacheStatus, cacheSettingsFromEnv, CacheStatus } from './cache';
+import { CachedResponse } from './pubmed';
+import { cleanMarkup } from './pubmedXml';
+
+// African Journals Online runs Open Journal Systems; it has no search API, so we
+// read the site-wide search page and then each article's citation meta tags
+const AJOL_SEARCH_URL = 'https://www.ajol.info/index.php/index/search/search';
+const ARTICLE_LINK_PATTERN = /href="(https?:\/\/www\.ajol\.info\/index\.php\/[^/"]+\/article\/view\/(\d+))"/gi;
+
+const DEFAULT_ARTICLE_LIMIT = 10;
+const MAX_ARTICLE_LIMIT = 20;
+const PAGE_DELAY_MS = 300; // Be polite: AJOL is a small non-profit host
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface AjolSearchHit {
+  url: string;
+  id: string;
+}
+
+const { maxEntries, ...cacheOptions } = cacheSettingsFromEnv();
+const searchCache = createResponseCache<AjolSearchHit[]>({ namespace: 'ajol-search', maxEntries, ...cacheOptions });
+const articleCache = createResponseCache<PubMedArticle>({ namespace: 'ajol-article', maxEntries: maxEntries * 10, ...cacheOptions });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Article URLs in a search results page, in result order and without duplicates
+ */
+export const parseAjolSearchResults = (html: string): AjolSearchHit[] => {
+  const seen = new Set<string>();
+  const results: AjolSearchHit[] = [];
+  for (const [, url, id] of html.matchAll(ARTICLE_LINK_PATTERN)) {
+    if (seen.has(id)) continue;
+    seen.add(id);
+    results.push({ url, id });
+  }
+  return results;
+};
+
+// <meta name="..." content="..."> pairs; OJS writes one tag per author/keyword
+const parseMetaTags = (html: string): Map<string, string[]> => {
+  const tags = new Map<string, string[]>();
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const name = tag.match(/\bname="([^"]+)"/i)?.[1];
+    const content = tag.match(/\bcontent="([^"]*)"/i)?.[1];
+    if (!name || content === undefined) continue;
+    const values = tags.get(name.toLowerCase()) || [];
+    // Attribute values hold escaped markup ("&lt;em&gt;"): decode, then strip the tags
+    values.push(cleanMarkup(cleanMarkup(content)));
+    tags.set(name.toLowerCase(), values);
+  }
+  return tags;
+};
+
+/**
+ * Reads an article page's Highwire/Dublin Core meta tags, which OJS emits for
+ * Google Scholar. Returns null when the page has no citation title.
+ */
+export const parseAjolArticle = (html: string, url: string): PubMedArticle | null => {
+  const tags = parseMetaTags(html);
+  const first = (name: string) => tags.get(name)?.[0] || '';
+
+  const title = first('citation_title') || first('dc.title');
+  if (!title) return null;
+
+  const id = url.match(/article\/view\/(\d+)/)?.[1] || url;
+  const authors = tags.get('citation_author') || tags.get('dc.creator.personalname') || [];
+  // citation_date is "YYYY/MM/DD" (sometimes just the year)
+  const [year, month] = (first('citation_date') || first('citation_publication_date') || first('dc.date.issued'))
+    .split(/[\/-]/);
+
+  return {
+    pmid: `AJOL:${id}`,
+    source: 'ajol',
+    url,
+    title,
+    abstract: first('dc.description') || first('description') || 'No abstract available.',
+    authors,
+    authorDetails: authors.map(name => ({ foreName: name, affiliations: [] })),
+    journal: first('citation_journal_title') || first('dc.source') || 'African Journals Online',
+    journalAbbreviation: first('citation_journal_abbrev') || undefined,
+    volume: first('citation_volume') || first('dc.source.volume') || undefined,
+    issue: first('citation_issue') || first('dc.source.issue') || undefined,
+    pages: [first('citation_firstpage'), first('citation_lastpage')].filter(Boolean).join('-') || undefined,
+    pubDate: `${MONTHS[parseInt(month, 10) - 1] || ''} ${year || ''}`.trim(),
+    doi: first('citation_doi') || first('dc.identifier.doi') || undefined,
+    keywords: (tags.get('citation_keywords') || []).flatMap(value => value.split(';')).map(k => k.trim()).filter(Boolean),
+    language: first('citation_language') || first('dc.language') || undefined,
+  };
+};
+
+const fetchPage = async (url: string, params?: Record<string, string | number>): Promise<string> => {
+  console.log('Making request to AJOL:', url, params ? JSON.stringify(params) : '');
+  const response = await axios.get<string>(url, { params, responseType: 'text' });
+  return response.data;
+};
+
+const fetchAjolArticle = async (url: string, id: string): Promise<{ article: PubMedArticle | null; cache: CacheStatus }> => {
+  const cached = await articleCache.get(id);
+  if (cached) return { article: cached, cache: 'HIT' };
+
+  const html = await fetchPage(url);
+  const article = parseAjolArticle(html, url);
+  if (article) await articleCache.set(id, article);
+  return { article, cache: 'MISS' };
+};
+
+/**
+ * Searches African Journals Online and returns the top results as articles.
+ * `filters.retmax` caps how many article pages are read (at most 20).
+ */
+export const searchAjol = async (term: string, filters: SearchFilters = {}): Promise<CachedResponse<PubMedArticle[]>> => {
+  const limit = Math.min(filters.retmax || DEFAULT_ARTICLE_LIMIT, MAX_ARTICLE_LIMIT);
+  const params: Record<string, string | number> = { query: term };
+  if (filters.yearFrom) params.dateFromYear = filters.yearFrom;
+  if (filters.yearTo) params.dateToYear = filters.yearTo;
+
+  const cacheKey = JSON.stringify(params);
+  let results = await searchCache.get(cacheKey);
+  const searchStatus: CacheStatus = results ? 'HIT' : 'MISS';
+
+  if (!results) {
+    const html = await fetchPage(AJOL_SEARCH_URL, params);
+    results = parseAjolSearchResults(html);
+    await searchCache.set(cacheKey, results);
+  }
+
+  const articles: PubMedArticle[] = [];
+  const statuses: CacheStatus[] = [searchStatus];
+  for (const { url, id } of results.slice(0, limit)) {
+    try {
+      const { article, cache } = await fetchAjolArticle(url, id);
+      statuses.push(cache);
+      if (cache === 'MISS') await sleep(PAGE_DELAY_MS);
+      if (!article) continue;
+
+      // The search page cannot filter by language, so apply it here
+      if (filters.language && article.language && !filters.language.startsWith(article.language.slice(0, 2))) continue;
+      articles.push(article);
+    } catch (error: any) {
+      console.warn(`Skipping AJOL article ${id}:`, error.message);
+    }
+  }
+
+  console.log(`AJOL returned ${articles.length} articles for: ${term}`);
+  return { data: articles, cache: combineCacheStatus(statuses) };
+};
@@ -0,0 +1,207 @@
+import { AnswerContext, AnswerRequest, LLMProvider, PlantLexiconEntry, StructuredAnswer } from '../../types';
+import { buildRAGMessages, fetchNigerianNames } from '../../services/ragPrompt';
+import { generateStructuredWithRetry } from '../../services/structuredAnswer';
+import { resolvePlantNames, lookupPlantNames, entryFromLLMResponse } from '../../services/plantLexicon';
+import { LLMProviderError } from '../../services/llm/provider';
+import { createProviderChain } from '../../services/llm/registry';
+import { INTENT_ROUTES, QUERY_INTENTS } from '../../services/intentClassifier';
+import { selectContextArticles } from '../../services/contextSelection';
+import { buildRetrievalQuery, getConversationHistory } from '../../services/conversation';
+import { retrieveHerbalChunks, HerbalChunkWithMetadata } from '../../src/pharmacopoeia/localRetriever';
+import { createRateLimiter, rateLimitFromEnv } from './rateLimit';
+
+// Request size limits for /api/answer and /api/plant-names
+export const MAX_ANSWER_BODY_BYTES = 1_000_000;
+export const MAX_PLANT_NAMES_BODY_BYTES = 10_000;
+const MAX_QUERY_LENGTH = 1000;
+const MAX_ARTICLES = 50;
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_PLANT_NAMES = 10;
+const MAX_PLANT_NAME_LENGTH = 100;
+
+// Per-IP limits (requests per minute); every answer costs at least one LLM call
+export const answerRateLimiter = createRateLimiter(rateLimitFromEnv('ANSWER_RATE_LIMIT', 10));
+export const plantNamesRateLimiter = createRateLimiter(rateLimitFromEnv('PLANT_NAMES_RATE_LIMIT', 30));
+
+let providerChain: LLMProvider | null = null;
+
+/**
+ * The failover chain built from LLM_PROVIDERS and the provider keys in the
+ * server environment, created on first use
+ */
+const getProvider = (): LLMProvider => {
+  if (!providerChain) providerChain = createProviderChain(name => process.env[name]);
+  return providerChain;
+};
+
+// Replaces the provider chain, e.g. with a mock chain in tests; null rebuilds it from the environment on next use
+export const setAnswerProvider = (provider: LLMProvider | null): void => {
+  providerChain = provider;
+};
+
+const isArrayOf = (value: unknown, max: number): value is any[] => Array.isArray(value) && value.length <= max;
+
+const isArticle = (article: any) =>
+  typeof article?.pmid === 'string' && typeof article.title === 'string' && typeof article.abstract === 'string';
+
+const isHistoryMessage = (message: any) =>
+  (message?.role === 'user' || message?.role === 'model') && typeof message.text === 'string';
+
+const isNameEntry = (entry: any) =>
+  typeof entry?.scientificName === 'string' && typeof entry.names === 'object' && entry.names !== null && !Array.isArray(entry.names);
+
+// Index of the first item failing `isValid`, or -1
+const invalidItem = (items: any[], isValid: (item: any) => boolean): number => items.findIndex(item => !isValid(item));
+
+/**
+ * Client-sent names are only hints: a plant in the server's curated lexicon
+ * gets the curated entry, anything else is treated as unverified.
+ */
+const serverNameEntry = (entry: any): PlantLexiconEntry => {
+  const curated = lookupPlantNames(entry.scientificName);
+  if (curated?.source === 'curated') return curated;
+  return entryFromLLMResponse(entry.scientificName, {
+    ...entry.names, commonName: entry.commonName, isNative: entry.isNative, notes: entry.notes,
+  });
+};
+
+/**
+ * Validates a POST /api/answer body, returning an error message for anything
+ * malformed or over the size limits
+ */
+export const parseAnswerRequest = (body: any): { request?: AnswerRequest; error?: string } => {
+  if (typeof body?.query !== 'string' || !body.query.trim()) return { error: 'query is required' };
+  if (body.query.length > MAX_QUERY_LENGTH) return { error: `query must be at most ${MAX_QUERY_LENGTH} characters` };
+  if (!isArrayOf(body.articles, MAX_ARTICLES)) return { error: `articles must be an array of at most ${MAX_ARTICLES}` };
+  if (!isArrayOf(body.history ?? [], MAX_HISTORY_MESSAGES)) return { error: `history must be an array of at most ${MAX_HISTORY_MESSAGES}` };
+  if (body.nigerianNames !== undefined && !isArrayOf(body.nigerianNames, MAX_ARTICLES)) return { error: 'nigerianNames must be an array' };
+
+  const badArticle = invalidItem(body.articles, isArticle);
+  if (badArticle !== -1) return { error: `articles[${badArticle}] must have string pmid, title and abstract` };
+  const badMessage = invalidItem(body.history ?? [], isHistoryMessage);
+  if (badMessage !== -1) return { error: `history[${badMessage}] must have role "user" or "model" and string text` };
+  const badName = invalidItem(body.nigerianNames ?? [], isNameEntry);
+  if (badName !== -1) return { error: `nigerianNames[${badName}] must have a string scientificName and a names object` };
+
+  if (body.format !== undefined && body.format !== 'markdown' && body.format !== 'json') return { error: 'format must be "markdown" or "json"' };
+  if (body.intent !== undefined && !QUERY_INTENTS.includes(body.intent)) return { error: `intent must be one of ${QUERY_INTENTS.join(', ')}` };
+  if (body.includeRetracted !== undefined && typeof body.includeRetracted !== 'boolean') return { error: 'includeRetracted must be a boolean' };
+
+  return {
+    request: {
+      query: body.query,
+      articles: body.articles,
+      history: body.history ?? [],
+      nigerianNames: body.nigerianNames?.map(serverNameEntry),
+      format: body.format ?? 'markdown',
+      intent: body.intent,
+      includeRetracted: body.includeRetracted,
+    }
+  };
+};
+
+/**
+ * Validates a POST /api/plant-names body: `{ scientificNames: string[] }`
+ */
+export const parsePlantNamesRequest = (body: any): { scientificNames?: string[]; error?: string } => {
+  const names = body?.scientificNames;
+  if (!isArrayOf(names, MAX_PLANT_NAMES) || names.length === 0) {
+    return { error: `scientificNames must be an array of 1 to ${MAX_PLANT_NAMES} names` };
+  }
+  if (!names.every(name => typeof name === 'string' && name.trim() && name.length <= MAX_PLANT_NAME_LENGTH)) {
+    return { error: `Each scientific name must be a non-empty string of at most ${MAX_PLANT_NAME_LENGTH} characters` };
+  }
+  return { scientificNames: names.map((name: string) => name.trim()) };
+};
+
+// Response header reporting which articles and pharmacopoeia pages reached the model
+export const ANSWER_CONTEXT_HEADER = 'X-Answer-Context';
+
+export const answerContextHeader = (context: AnswerContext): string => encodeURIComponent(JSON.stringify(context));
+
+// A request with its context chosen: articles fitted to the budget and the pharmacopoeia passages
+export interface PreparedAnswer extends AnswerRequest {
+  herbalChunks: HerbalChunkWithMetadata[];
+}
+
+/**
+ * Reranks the request's articles and keeps those that fit the context budget
+ * of the configured providers (the smallest in the failover chain), so the
+ * server decides how much reaches the model whatever the client sent.
+ * Retracted articles are held back unless the request includes them.
+ * Pharmacopoeia passages are retrieved here, where the embedding model runs.
+ */
+export const prepareAnswer = async (request: AnswerRequest): Promise<{ request: PreparedAnswer; context: AnswerContext }> => {
+  const { articles, ...selection } = await selectContextArticles(request.query, request.articles, getProvider(), {
+    includeRetracted: request.includeRetracted,
+    focusTerms: request.intent ? INTENT_ROUTES[request.intent].focusTerms : [],
+  });
+  const herbalChunks = await retrieveHerbalChunks(buildRetrievalQuery(request.query, getConversationHistory(request.history)));
+  const herbalPages = herbalChunks.map(({ id, source, page }) => ({ id, source, page }));
+  return { request: { ...request, articles, herbalChunks }, context: { ...selection, herbalPages } };
+};
+
+const buildMessages = (provider: LLMProvider, request: PreparedAnswer) =>
+  buildRAGMessages(provider, request.query, request.articles, request.history, {
+    herbalChunks: request.herbalChunks,
+    nigerianNames: request.nigerianNames,
+    intent: request.intent,
+  }, request.format);
+
+/**
+ * Streams the markdown answer. Errors before the first chunk reach the caller
+ * so it can still respond with an error status.
+ */
+export async function* streamAnswer(request: PreparedAnswer, signal?: AbortSignal): AsyncGenerator<string> {
+  const provider = getProvider();
+  const messages = await buildMessages(provider, request);
+  yield* provider.stream(messages, { temperature: 0.4, maxTokens: 2500, signal });
+}
+
+/**
+ * Structured answer mode: JSON output, retried until it validates
+ */
+export const generateStructuredAnswer = async (request: PreparedAnswer, signal?: AbortSignal): Promise<StructuredAnswer> => {
+  const provider = getProvider();
+  const messages = await buildMessages(provider, request);
+
+  return generateStructuredWithRetry(async (repairInstructions) => provider.complete(
+    repairInstructions ? [...messages, { role: 'user', content: repairInstructions }] : messages,
+    { temperature: 0.2, maxTokens: 2500, json: true, signal } // Lower temperature keeps the JSON well-formed
+  ));
+};
+
+/**
+ * Nigerian names for plants missing from the browser's lexicon and cache.
+ * Plants the model could not name are left out.
+ */
+export const lookupNigerianNames = async (scientificNames: string[]): Promise<PlantLexiconEntry[]> => {
+  const provider = getProvider();
+  const nameMap = await resolvePlantNames(scientificNames, name => fetchNigerianNames(provider, name));
+  return Array.from(nameMap.values());
+};
+
+/**
+ * What a 502 may tell the client about its cause: provider failures only.
+ * Anything else is internal and stays in the server log.
+ */
+export const upstreamErrorDetails = (error: unknown): string | undefined =>
+  error instanceof LLMProviderError ? error.message : undefined;
+
+/**
+ * Reads a Web API request body as JSON, refusing bodies over `maxBytes`
+ */
+export const readJsonBody = async (request: Request, maxBytes: number): Promise<{ body?: any; status?: number; error?: string }> => {
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return { status: 413, error: `Request body must be at most ${maxBytes} bytes` };
+  }
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > maxBytes) {
+    return { status: 413, error: `Request body must be at most ${maxBytes} bytes` };
+  }
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { status: 400, error: 'Request body must be JSON' };
+  }
+};
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'PARTIAL';
+
+export interface ResponseCacheOptions {
+  namespace: string;     // Separates search, fetch and article entries on disk
+  maxEntries: number;    // In-memory LRU capacity
+  ttlMs: number;
+  diskDir?: string;      // When set, entries are also persisted as JSON files
+}
+
+export interface ResponseCache<T> {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Two-level cache: an in-memory LRU in front of an optional on-disk store.
+ * Disk errors are logged and treated as misses so a bad cache dir never breaks a search.
+ */
+export const createResponseCache = <T>({ namespace, maxEntries, ttlMs, diskDir }: ResponseCacheOptions): ResponseCache<T> => {
+  // Map keeps insertion order, so the first key is always the least recently used
+  const memory = new Map<string, CacheEntry<T>>();
+  const directory = diskDir ? path.join(diskDir, namespace) : null;
+
+  const remember = (entry: CacheEntry<T>) => {
+    memory.delete(entry.key);
+    memory.set(entry.key, entry);
+    if (memory.size > maxEntries) {
+      memory.delete(memory.keys().next().value as string);
+    }
+  };
+
+  const fileFor = (key: string) =>
+    path.join(directory!, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  const get = async (key: string): Promise<T | undefined> => {
+    const cached = memory.get(key);
+    if (cached) {
+      if (cached.expiresAt > Date.now()) {
+        remember(cached);
+        return cached.value;
+      }
+      memory.delete(key);
+    }
+
+    if (!directory) return undefined;
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      if (entry.key !== key || entry.expiresAt <= Date.now()) return undefined;
+      remember(entry);
+      return entry.value;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.warn(`Cache read failed (${namespace}):`, error.message);
+      return undefined;
+    }
+  };
+
+  const set = async (key: string, value: T): Promise<void> => {
+    const entry = { key, value, expiresAt: Date.now() + ttlMs };
+    remember(entry);
+
+    if (!directory) return;
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    } catch (error: any) {
+      console.warn(`Cache write failed (${namespace}):`, error.message);
+    }
+  };
+
+  return { get, set };
+};
+
+/**
+ * Rolls several lookups up into one header value: all hits, no hits, or a mix
+ */
+export const combineCacheStatus = (statuses: CacheStatus[]): CacheStatus => {
+  if (statuses.length > 0 && statuses.every(status => status === 'HIT')) return 'HIT';
+  if (statuses.every(status => status === 'MISS')) return 'MISS';
+  return 'PARTIAL';
+};
+
+/**
+ * Shared cache settings. PUBMED_CACHE_DIR enables the on-disk store (e.g. /tmp/pubmed-cache on Vercel).
+ */
+export const cacheSettingsFromEnv = () => ({
+  ttlMs: Number(process.env.PUBMED_CACHE_TTL_SECONDS || 24 * 60 * 60) * 1000,
+  diskDir: process.env.PUBMED_CACHE_DIR || undefined,
+  maxEntries: Number(process.env.PUBMED_CACHE_MAX_ENTRIES || 500),
+});
+
+export const cacheHeaders = (status: CacheStatus): Record<string, string> => ({ 'X-Cache': status });
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { PubMedArticle, SearchFilters, PublicationTypeFilter, MeshHeading, ArticleCorrection, CorrectionKind } from '../../types';
+import { createResponseCache, cacheSettingsFromEnv } from './cache';
+import { CachedResponse, DEFAULT_RETMAX } from './pubmed';
+import { cleanMarkup, RETRACTED_PUBLICATION_TYPE } from './pubmedXml';
+
+// https://europepmc.org/RestfulWebService
+const EUROPE_PMC_SEARCH_URL = 'https://www.ebi.ac.uk/europepmc/webservices/rest/search';
+const MAX_PAGE_SIZE = 100;
+
+const PUBLICATION_TYPE_QUERIES: Record<PublicationTypeFilter, string> = {
+  'review': 'PUB_TYPE:"review"',
+  'systematic-review': 'PUB_TYPE:"systematic review"',
+  'meta-analysis': 'PUB_TYPE:"meta-analysis"',
+  'clinical-trial': 'PUB_TYPE:"clinical trial"',
+  'randomized-trial': 'PUB_TYPE:"randomized controlled trial"',
+  'observational': 'PUB_TYPE:"observational study"',
+};
+
+// Europe PMC uses ISO 639-2 codes where PubMed uses language names
+const LANGUAGE_CODES: Record<string, string> = { english: 'eng', french: 'fre', portuguese: 'por', arabic: 'ara' };
+
+// commentCorrection types naming a notice about this article
+const CORRECTION_TYPES: Record<string, CorrectionKind> = {
+  'retraction in': 'retraction',
+  'erratum in': 'erratum',
+  'expression of concern in': 'expression-of-concern',
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const { maxEntries, ...cacheOptions } = cacheSettingsFromEnv();
+const searchCache = createResponseCache<PubMedArticle[]>({ namespace: 'europepmc', maxEntries, ...cacheOptions });
+
+/**
+ * Translates the shared search filters into Europe PMC query syntax.
+ * Species filters have no reliable Europe PMC equivalent and are ignored.
+ */
+export const buildEuropePmcQuery = (term: string, filters: SearchFilters = {}): string => {
+  const clauses = [`(${term})`];
+  if (filters.yearFrom || filters.yearTo) {
+    clauses.push(`PUB_YEAR:[${filters.yearFrom || 1800} TO ${filters.yearTo || 2100}]`);
+  }
+  if (filters.publicationTypes?.length) {
+    clauses.push(`(${filters.publicationTypes.map(type => PUBLICATION_TYPE_QUERIES[type]).join(' OR ')})`);
+  }
+  if (filters.freeFullTextOnly) clauses.push('OPEN_ACCESS:y');
+  if (filters.language) clauses.push(`LANG:"${LANGUAGE_CODES[filters.language] || filters.language}"`);
+  return clauses.join(' AND ');
+};
+
+const list = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Converts one result (resultType=core) into the app's article shape.
+ * Records without a PMID get an "EPMC:<source>-<id>" identifier.
+ */
+export const normalizeEuropePmcResult = (result: any): PubMedArticle => {
+  const authorDetails = list(result.authorList?.author).map((author: any) => ({
+    lastName: author.lastName,
+    foreName: author.firstName,
+    initials: author.initials,
+    collectiveName: author.collectiveName,
+    affiliations: list(author.authorAffiliationDetailsList?.authorAffiliation)
+      .map((affiliation: any) => affiliation.affiliation)
+      .filter(Boolean),
+  }));
+
+  const meshHeadings: MeshHeading[] = list(result.meshHeadingList?.meshHeading).map((heading: any) => ({
+    descriptor: heading.descriptorName,
+    isMajorTopic: heading.majorTopic_YN === 'Y',
+    qualifiers: list(heading.meshQualifierList?.meshQualifier).map((qualifier: any) => ({
+      name: qualifier.qualifierName,
+      isMajorTopic: qualifier.majorTopic_YN === 'Y',
+    })),
+  }));
+
+  const corrections: ArticleCorrection[] = list(result.commentCorrectionList?.commentCorrection)
+    .filter((entry: any) => CORRECTION_TYPES[String(entry.type).toLowerCase()])
+    .map((entry: any) => ({
+      kind: CORRECTION_TYPES[String(entry.type).toLowerCase()],
+      source: entry.reference || entry.note || '',
+      noticePmid: entry.source === 'MED' ? entry.id : undefined,
+    }));
+  const publicationTypes: string[] = list(result.pubTypeList?.pubType);
+
+  const month = MONTHS[parseInt(result.journalInfo?.monthOfPublication, 10) - 1];
+  const year = result.journalInfo?.yearOfPublication || result.pubYear || '';
+
+  return {
+    pmid: result.pmid || `EPMC:${result.source}-${result.id}`,
+    source: 'europepmc',
+    url: `https://europepmc.org/article/${result.source}/${result.id}`,
+    title: cleanMarkup(result.title || '') || 'No Title Available',
+    // Structured abstracts use <h4> headings; label them like PubMed abstract sections
+    abstract: cleanMarkup((result.abstractText || '').replace(/<h4>(.*?)<\/h4>/gi, ' **$1**: ')) || 'No abstract available.',
+    authors: authorDetails
+      .map(author => author.lastName ? `${author.lastName} ${author.initials || ''}`.trim() : author.collectiveName)
+      .filter((name): name is string => !!name),
+    journal: result.journalInfo?.journal?.title || result.bookOrReportDetails?.publisher || 'Unknown Journal',
+    journalAbbreviation: result.journalInfo?.journal?.isoabbreviation || undefined,
+    volume: result.journalInfo?.volume || undefined,
+    issue: result.journalInfo?.issue || undefined,
+    pages: result.pageInfo || undefined,
+    pubDate: `${month || ''} ${year}`.trim(),
+    doi: result.doi,
+    pmcid: result.pmcid,
+    publicationTypes,
+    meshHeadings,
+    keywords: list(result.keywordList?.keyword),
+    authorDetails,
+    language: result.language,
+    corrections: corrections.length > 0 ? corrections : undefined,
+    isRetracted: corrections.some(correction => correction.kind === 'retraction')
+      || publicationTypes.some(type => type.toLowerCase() === RETRACTED_PUBLICATION_TYPE.toLowerCase()),
+  };
+};
+
+/**
+ * Searches Europe PMC, which also indexes Agricola, preprints and theses that
+ * PubMed misses
+ */
+export const searchEuropePmc = async (
+  term: string,
+  filters: SearchFilters = {}
+): Promise<CachedResponse<PubMedArticle[]>> => {
+  const query = buildEuropePmcQuery(term, filters);
+  const pageSize = Math.min(filters.retmax || DEFAULT_RETMAX, MAX_PAGE_SIZE);
+  const sort = filters.sort === 'date' ? 'P_PDATE_D desc' : undefined;
+
+  const cacheKey = `${query}|${pageSize}|${sort || 'relevance'}`;
+  const cached = await searchCache.get(cacheKey);
+  if (cached) {
+    console.log('Europe PMC cache hit:', query);
+    return { data: cached, cache: 'HIT' };
+  }
+
+  console.log('Making request to Europe PMC:', query);
+  const { data } = await axios.get(EUROPE_PMC_SEARCH_URL, {
+    params: { query, format: 'json', resultType: 'core', pageSize, ...(sort ? { sort } : {}) },
+  });
+
+  const articles = list(data?.resultList?.result).map(normalizeEuropePmcResult);
+  console.log(`Europe PMC returned ${articles.length} of ${data?.hitCount ?? 0} hits`);
+  await searchCache.set(cacheKey, articles);
+  return { data: articles, cache: 'MISS' };
+};
@@ -0,0 +1,85 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export const EUTILS_BASE_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+// NCBI allows 3 requests/second per IP, or 10 with an API key
+// https://www.ncbi.nlm.nih.gov/books/NBK25497/#chapter2.Usage_Guidelines_and_Requiremen
+const REQUESTS_PER_SECOND_WITHOUT_KEY = 3;
+const REQUESTS_PER_SECOND_WITH_KEY = 10;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const DEFAULT_TOOL = 'naijamed-atlas';
+
+const env = (name: string): string | undefined => process.env[name]?.trim() || undefined;
+
+/**
+ * Identification parameters NCBI asks every E-utilities client to send.
+ * Read on each call so the server picks up env changes without a restart.
+ */
+const identityParams = (): Record<string, string> => {
+  const params: Record<string, string> = { tool: env('NCBI_TOOL') || DEFAULT_TOOL };
+  const email = env('NCBI_EMAIL');
+  const apiKey = env('NCBI_API_KEY');
+  if (email) params.email = email;
+  if (apiKey) params.api_key = apiKey;
+  return params;
+};
+
+const minIntervalMs = () =>
+  1000 / (env('NCBI_API_KEY') ? REQUESTS_PER_SECOND_WITH_KEY : REQUESTS_PER_SECOND_WITHOUT_KEY);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Start time reserved by the most recently queued request
+let nextSlot = 0;
+let queued = 0;
+
+/**
+ * FIFO throttle: each request reserves the next free slot, so bursts (three
+ * search tiers plus an efetch) are spread out instead of tripping NCBI's limit
+ */
+const waitForSlot = async () => {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot);
+  nextSlot = slot + minIntervalMs();
+
+  if (slot > now) {
+    queued++;
+    console.log(`NCBI throttle: waiting ${slot - now}ms (${queued} queued)`);
+    await sleep(slot - now);
+    queued--;
+  }
+};
+
+const isRetryable = (error: any) => {
+  const status = error.response?.status;
+  return status === 429 || (status >= 500 && status < 600);
+};
+
+/**
+ * GET an E-utilities endpoint through the throttle, adding tool/email/api_key
+ * and retrying 429 and 5xx responses with exponential backoff
+ */
+export const ncbiGet = async <T = any>(
+  url: string,
+  params: Record<string, string | number>,
+  config: AxiosRequestConfig = {}
+): Promise<AxiosResponse<T>> => {
+  const allParams = { ...params, ...identityParams() };
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForSlot();
+    try {
+      // Log without the API key
+      console.log('Making request to PubMed API:', url, JSON.stringify({ ...allParams, api_key: undefined }));
+      return await axios.get<T>(url, { ...config, params: allParams });
+    } catch (error: any) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) throw error;
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(`NCBI returned ${error.response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,40 @@
+import { PmcFullText } from '../../types';
+import { ncbiGet, EUTILS_BASE_URL } from './ncbi';
+import { createResponseCache, cacheSettingsFromEnv } from './cache';
+import { CachedResponse } from './pubmed';
+import { parsePmcSections } from './pmcXml';
+
+export const PMCID_PATTERN = /^PMC\d+$/i;
+
+// `fullText` is null for articles outside the open-access subset; caching that
+// answer too stops us asking NCBI again for every search that returns them
+const fullTextCache = createResponseCache<{ fullText: PmcFullText | null }>({
+  namespace: 'pmc',
+  ...cacheSettingsFromEnv(),
+});
+
+/**
+ * Fetches the JATS XML for a PMC article and keeps its methods, results and
+ * discussion sections. Resolves to null when no open-access full text exists.
+ */
+export const fetchPmcFullText = async (pmcid: string): Promise<CachedResponse<PmcFullText | null>> => {
+  const normalizedId = pmcid.toUpperCase();
+  const cached = await fullTextCache.get(normalizedId);
+  if (cached) {
+    console.log('PMC full text cache hit:', normalizedId);
+    return { data: cached.fullText, cache: 'HIT' };
+  }
+
+  const response = await ncbiGet<string>(
+    `${EUTILS_BASE_URL}/efetch.fcgi`,
+    { db: 'pmc', id: normalizedId.replace(/^PMC/, ''), retmode: 'xml' },
+    { headers: { 'Accept': 'text/xml' }, responseType: 'text' }
+  );
+
+  const sections = parsePmcSections(response.data);
+  console.log(`PMC ${normalizedId}: ${sections.length} usable section(s)`);
+
+  const fullText = sections.length > 0 ? { pmcid: normalizedId, sections } : null;
+  await fullTextCache.set(normalizedId, { fullText });
+  return { data: fullText, cache: 'MISS' };
+};
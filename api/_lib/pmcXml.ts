@@ -0,0 +1,76 @@
+import { XMLParser } from 'fast-xml-parser';
+import { FullTextSection, FullTextSectionKind } from '../../types';
+import { textOf, attr, asArray } from './pubmedXml';
+
+const ARRAY_ELEMENTS = new Set(['article', 'sec', 'p', 'table-wrap', 'tbody', 'thead', 'tr', 'td', 'th']);
+
+// Inline markup (<italic>, <xref>, <sup>, ...) is flattened to text
+const MIXED_CONTENT_ELEMENTS = ['p', 'title', 'td', 'th', 'caption', 'label'];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  stopNodes: MIXED_CONTENT_ELEMENTS.map(name => `*.${name}`),
+  isArray: name => ARRAY_ELEMENTS.has(name),
+});
+
+// Matched against sec-type first, then the section title
+const SECTION_RULES: [RegExp, FullTextSectionKind][] = [
+  [/method|material|experimental|procedure/i, 'methods'],
+  [/result|finding/i, 'results'],
+  [/discussion|conclusion/i, 'discussion'],
+];
+
+const classifySection = (sec: any): FullTextSectionKind | null => {
+  for (const candidate of [attr(sec, 'sec-type'), textOf(sec.title)]) {
+    if (!candidate) continue;
+    const rule = SECTION_RULES.find(([pattern]) => pattern.test(candidate));
+    if (rule) return rule[1];
+  }
+  return null;
+};
+
+/**
+ * Flattens a <table-wrap> into one line per row so dose and toxicity tables
+ * survive as text, e.g. "Table 2: Acute toxicity. Dose (mg/kg) | Mortality; 2000 | 0/5"
+ */
+const flattenTable = (wrap: any): string => {
+  const heading = [textOf(asArray(wrap.label)[0]), textOf(asArray(wrap.caption)[0])].filter(Boolean).join(': ');
+  const rows = asArray(wrap.table)
+    .flatMap((table: any) => [...asArray(table.thead), ...asArray(table.tbody)])
+    .flatMap((group: any) => asArray(group.tr))
+    .map((row: any) => [...asArray(row.th), ...asArray(row.td)].map(textOf).join(' | '))
+    .filter(row => row.replace(/[|\s]/g, ''));
+  return [heading, rows.join('; ')].filter(Boolean).join('. ');
+};
+
+// Paragraphs and tables of a section, then those of its subsections
+const collectParagraphs = (sec: any): string[] => [
+  ...asArray(sec.p).map(textOf),
+  ...asArray(sec['table-wrap']).map(flattenTable),
+  ...asArray(sec.sec).flatMap(collectParagraphs),
+].filter(Boolean);
+
+/**
+ * Extracts the methods, results and discussion sections from a PMC efetch
+ * (JATS XML) response. Returns an empty list when the body is missing, which
+ * is how PMC answers for articles outside the open-access subset.
+ */
+export const parsePmcSections = (xml: string): FullTextSection[] => {
+  const document = parser.parse(xml);
+  // efetch wraps the article in <pmc-articleset>; saved JATS files start at <article>
+  const article: any = asArray(document?.['pmc-articleset']?.article ?? document?.article)[0];
+  const body = article?.body;
+  if (!body) return [];
+
+  return asArray(body.sec)
+    .map((sec: any) => ({ sec, kind: classifySection(sec) }))
+    .filter((entry): entry is { sec: any; kind: FullTextSectionKind } => entry.kind !== null)
+    .map(({ sec, kind }) => ({
+      kind,
+      title: textOf(sec.title) || kind,
+      paragraphs: collectParagraphs(sec),
+    }))
+    .filter(section => section.paragraphs.length > 0);
+};
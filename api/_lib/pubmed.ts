@@ -0,0 +1,132 @@
+import { PubMedArticle, SearchFilters } from '../../types';
+import { parsePubMedXml } from './pubmedXml';
+import { ncbiGet, EUTILS_BASE_URL } from './ncbi';
+import { createResponseCache, combineCacheStatus, cacheSettingsFromEnv, CacheStatus } from './cache';
+import { applySearchFilters } from './searchFilters';
+
+// Shared by the Vercel API routes and the Express server (server/server.js)
+
+export const DEFAULT_RETMAX = 30;
+
+export interface CachedResponse<T> {
+  data: T;
+  cache: CacheStatus;
+}
+
+const { maxEntries, ...cacheOptions } = cacheSettingsFromEnv();
+
+const searchCache = createResponseCache<any>({ namespace: 'esearch', maxEntries, ...cacheOptions });
+const xmlCache = createResponseCache<string>({ namespace: 'efetch', maxEntries, ...cacheOptions });
+// Articles are cached one PMID at a time so overlapping searches share entries
+const articleCache = createResponseCache<PubMedArticle>({ namespace: 'article', maxEntries: maxEntries * 10, ...cacheOptions });
+
+/**
+ * Runs an esearch query, with optional filters, and returns NCBI's JSON response unchanged
+ */
+export const searchPubMed = async (term: string, filters: SearchFilters = {}): Promise<CachedResponse<any>> => {
+  const filteredTerm = applySearchFilters(term, filters);
+  const retmax = filters.retmax || DEFAULT_RETMAX;
+  const sort = filters.sort === 'date' ? 'pub_date' : 'relevance';
+
+  const cacheKey = `${filteredTerm}|${retmax}|${sort}`;
+  const cached = await searchCache.get(cacheKey);
+  if (cached) {
+    console.log('PubMed search cache hit:', filteredTerm);
+    return { data: cached, cache: 'HIT' };
+  }
+
+  const response = await ncbiGet(`${EUTILS_BASE_URL}/esearch.fcgi`, {
+    db: 'pubmed',
+    term: filteredTerm,
+    retmode: 'json',
+    retmax,
+    sort,
+  });
+
+  console.log('PubMed search response status:', response.status);
+  if (response.data.esearchresult) {
+    console.log('Found IDs count:', response.data.esearchresult.idlist?.length || 0);
+    // Only cache real results, not NCBI error payloads
+    await searchCache.set(cacheKey, response.data);
+  }
+  return { data: response.data, cache: 'MISS' };
+};
+
+const efetchXml = async (ids: string[]): Promise<string> => {
+  const response = await ncbiGet<string>(
+    `${EUTILS_BASE_URL}/efetch.fcgi`,
+    { db: 'pubmed', id: ids.join(','), retmode: 'xml' },
+    {
+      headers: {
+        'Accept': 'text/xml',
+      },
+      responseType: 'text' // Get response as text to handle XML
+    }
+  );
+
+  console.log('Received response from PubMed API, length:', response.data.length);
+  return response.data;
+};
+
+/**
+ * Fetches the raw efetch XML for a list of PMIDs
+ */
+export const fetchPubMedXml = async (ids: string[]): Promise<CachedResponse<string>> => {
+  const cacheKey = ids.join(',');
+  const cached = await xmlCache.get(cacheKey);
+  if (cached) {
+    console.log('PubMed fetch cache hit:', ids.length, 'IDs');
+    return { data: cached, cache: 'HIT' };
+  }
+
+  const xml = await efetchXml(ids);
+  await xmlCache.set(cacheKey, xml);
+  return { data: xml, cache: 'MISS' };
+};
+
+/**
+ * Fetches and parses articles for a list of PMIDs, only asking NCBI for the
+ * ones not already cached. Articles come back in the order of `ids`.
+ */
+export const fetchPubMedArticles = async (ids: string[]): Promise<CachedResponse<PubMedArticle[]>> => {
+  if (ids.length === 0) return { data: [], cache: 'MISS' };
+
+  const found = new Map<string, PubMedArticle>();
+  for (const id of ids) {
+    const article = await articleCache.get(id);
+    if (article) found.set(id, article);
+  }
+
+  const missing = ids.filter(id => !found.has(id));
+  console.log(`PubMed article cache: ${found.size} hit(s), ${missing.length} to fetch`);
+
+  if (missing.length > 0) {
+    for (const article of parsePubMedXml(await efetchXml(missing))) {
+      found.set(article.pmid, article);
+      await articleCache.set(article.pmid, article);
+    }
+  }
+
+  const statuses = ids.map((id): CacheStatus => (missing.includes(id) ? 'MISS' : 'HIT'));
+  return {
+    data: ids.map(id => found.get(id)).filter((article): article is PubMedArticle => !!article),
+    cache: combineCacheStatus(statuses),
+  };
+};
+
+/**
+ * Search and fetch in one call: the IDs matching `term` and their parsed articles
+ */
+export const searchPubMedArticles = async (
+  term: string,
+  filters: SearchFilters = {}
+): Promise<CachedResponse<{ ids: string[]; articles: PubMedArticle[] }>> => {
+  const search = await searchPubMed(term, filters);
+  const ids: string[] = search.data.esearchresult?.idlist || [];
+  const articles = await fetchPubMedArticles(ids);
+
+  return {
+    data: { ids, articles: articles.data },
+    cache: ids.length > 0 ? combineCacheStatus([search.cache, articles.cache]) : search.cache,
+  };
+};
@@ -0,0 +1,161 @@
+import { XMLParser } from 'fast-xml-parser';
+import { PubMedArticle, MeshHeading, ArticleAuthor, AbstractSection, ArticleCorrection, CorrectionKind } from '../../types';
+
+// Elements that can repeat, so they are always parsed as arrays
+const ARRAY_ELEMENTS = new Set([
+  'PubmedArticle', 'Author', 'AffiliationInfo', 'AbstractText', 'ArticleId', 'ELocationID',
+  'PublicationType', 'MeshHeading', 'QualifierName', 'KeywordList', 'Keyword', 'Language', 'CommentsCorrections'
+]);
+
+// CommentsCorrections RefTypes that point at a notice about this article.
+// The "...Of"/"...For" types mark the notice itself and are not corrections of it.
+const CORRECTION_REF_TYPES: Record<string, CorrectionKind> = {
+  RetractionIn: 'retraction',
+  ErratumIn: 'erratum',
+  ExpressionOfConcernIn: 'expression-of-concern',
+};
+
+export const RETRACTED_PUBLICATION_TYPE = 'Retracted Publication';
+
+// Elements with inline markup (<i>, <sup>, ...) are kept raw and flattened to text later
+const MIXED_CONTENT_ELEMENTS = ['ArticleTitle', 'AbstractText', 'Keyword', 'Affiliation'];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false, // Keep PMIDs, years and IDs as strings
+  stopNodes: MIXED_CONTENT_ELEMENTS.map(name => `*.${name}`),
+  isArray: name => ARRAY_ELEMENTS.has(name),
+});
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Strips inline tags and decodes entities from a raw XML fragment
+ */
+export const cleanMarkup = (raw: string): string =>
+  raw
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Parsed nodes are either plain strings or objects with "#text" and "@_" attributes
+export const textOf = (node: any): string => {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string' || typeof node === 'number') return cleanMarkup(String(node));
+  return cleanMarkup(String(node['#text'] ?? ''));
+};
+
+export const attr = (node: any, name: string): string | undefined =>
+  node && typeof node === 'object' ? node[`@_${name}`] : undefined;
+
+export const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Converts one <PubmedArticle> into a PubMedArticle, keeping the metadata
+ * needed for evidence grading, filtering and citation export
+ */
+const toArticle = (node: any): PubMedArticle => {
+  const citation = node.MedlineCitation || {};
+  const article = citation.Article || {};
+  const pubmedData = node.PubmedData || {};
+
+  const pmid = textOf(citation.PMID);
+  const title = textOf(article.ArticleTitle) || 'No Title Available';
+
+  const abstractSections: AbstractSection[] = asArray(article.Abstract?.AbstractText)
+    .map((section: any) => ({
+      label: attr(section, 'Label'),
+      nlmCategory: attr(section, 'NlmCategory'),
+      text: textOf(section),
+    }))
+    .filter(section => section.text);
+  const abstract = abstractSections
+    .map(section => (section.label ? `**${section.label}**: ` : '') + section.text)
+    .join(' ') || 'No abstract available.';
+
+  const authorDetails: ArticleAuthor[] = asArray(article.AuthorList?.Author).map((author: any) => ({
+    lastName: textOf(author.LastName) || undefined,
+    foreName: textOf(author.ForeName) || undefined,
+    initials: textOf(author.Initials) || undefined,
+    collectiveName: textOf(author.CollectiveName) || undefined,
+    affiliations: asArray(author.AffiliationInfo).map((info: any) => textOf(info.Affiliation)).filter(Boolean),
+  }));
+  const authors = authorDetails
+    .map(author => author.lastName ? `${author.lastName} ${author.initials || ''}`.trim() : author.collectiveName)
+    .filter((name): name is string => !!name);
+
+  const meshHeadings: MeshHeading[] = asArray(citation.MeshHeadingList?.MeshHeading)
+    .map((heading: any) => ({
+      descriptor: textOf(heading.DescriptorName),
+      isMajorTopic: attr(heading.DescriptorName, 'MajorTopicYN') === 'Y',
+      qualifiers: asArray(heading.QualifierName).map((qualifier: any) => ({
+        name: textOf(qualifier),
+        isMajorTopic: attr(qualifier, 'MajorTopicYN') === 'Y',
+      })),
+    }))
+    .filter(heading => heading.descriptor);
+
+  // The article's own IDs live in PubmedData; ELocationID is the publisher's DOI fallback
+  const articleIds = asArray(pubmedData.ArticleIdList?.ArticleId);
+  const articleId = (idType: string) =>
+    textOf(articleIds.find((id: any) => attr(id, 'IdType') === idType));
+  const doi = articleId('doi')
+    || textOf(asArray(article.ELocationID).find((id: any) => attr(id, 'EIdType') === 'doi'));
+  const pmcid = articleId('pmc');
+
+  const corrections: ArticleCorrection[] = asArray(citation.CommentsCorrectionsList?.CommentsCorrections)
+    .filter((entry: any) => CORRECTION_REF_TYPES[attr(entry, 'RefType') || ''])
+    .map((entry: any) => ({
+      kind: CORRECTION_REF_TYPES[attr(entry, 'RefType')!],
+      source: textOf(entry.RefSource),
+      noticePmid: textOf(entry.PMID) || undefined,
+    }));
+  const publicationTypes = asArray(article.PublicationTypeList?.PublicationType).map(textOf).filter(Boolean);
+
+  const pubDate = article.Journal?.JournalIssue?.PubDate || {};
+  const year = textOf(pubDate.Year);
+  const month = textOf(pubDate.Month);
+
+  return {
+    pmid,
+    title,
+    abstract,
+    authors,
+    journal: textOf(article.Journal?.Title) || 'Unknown Journal',
+    journalAbbreviation: textOf(article.Journal?.ISOAbbreviation) || undefined,
+    volume: textOf(article.Journal?.JournalIssue?.Volume) || undefined,
+    issue: textOf(article.Journal?.JournalIssue?.Issue) || undefined,
+    pages: textOf(article.Pagination?.MedlinePgn) || undefined,
+    pubDate: `${month} ${year}`.trim() || textOf(pubDate.MedlineDate),
+    doi: doi || undefined,
+    pmcid: pmcid || undefined,
+    publicationTypes,
+    meshHeadings,
+    keywords: asArray(citation.KeywordList)
+      .flatMap((list: any) => asArray(list.Keyword))
+      .map(textOf)
+      .filter(Boolean),
+    authorDetails,
+    language: textOf(asArray(article.Language)[0]) || undefined,
+    abstractSections,
+    corrections: corrections.length > 0 ? corrections : undefined,
+    isRetracted: corrections.some(correction => correction.kind === 'retraction')
+      || publicationTypes.includes(RETRACTED_PUBLICATION_TYPE),
+  };
+};
+
+/**
+ * Parses an efetch (db=pubmed, retmode=xml) response into articles.
+ * Runs anywhere Node runs: API routes, the Express server, CLI scripts.
+ */
+export const parsePubMedXml = (xml: string): PubMedArticle[] => {
+  const document = parser.parse(xml);
+  return asArray(document?.PubmedArticleSet?.PubmedArticle).map(toArticle);
+};
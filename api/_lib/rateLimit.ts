@@ -0,0 +1,59 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;  // 0 when allowed
+}
+
+export interface RateLimiterOptions {
+  limit: number;     // Requests allowed per window
+  windowMs: number;
+}
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Fixed-window request counter per client key (usually the IP). Counts live in
+ * memory, so on Vercel each function instance enforces its own limit.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (key: string): RateLimitResult => {
+    const now = Date.now();
+
+    // Drop expired windows before the map grows without bound
+    if (windows.size >= MAX_TRACKED_CLIENTS) {
+      windows.forEach((window, client) => {
+        if (now - window.start >= windowMs) windows.delete(client);
+      });
+    }
+
+    const window = windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
+
+/**
+ * Requests per minute from an environment variable, falling back to `fallback`
+ */
+export const rateLimitFromEnv = (name: string, fallback: number): RateLimiterOptions => ({
+  limit: Number(process.env[name]) || fallback,
+  windowMs: 60 * 1000,
+});
+
+/**
+ * The client address behind Vercel's proxy: the first X-Forwarded-For entry
+ */
+export const clientIpFromHeaders = (forwardedFor: string | null | undefined): string =>
+  forwardedFor?.split(',')[0].trim() || 'unknown';
+
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> =>
+  result.allowed ? {} : { 'Retry-After': String(result.retryAfterSeconds) };
@@ -0,0 +1,82 @@
+import { SearchFilters, PublicationTypeFilter, SpeciesFilter } from '../../types';
+
+// Query parameters read by the search routes:
+// minYear, maxYear, pubTypes (comma-separated), species, freeFullText, language, retmax, sort
+
+const PUBLICATION_TYPE_TERMS: Record<PublicationTypeFilter, string> = {
+  'review': 'review[pt]',
+  'systematic-review': 'systematic review[pt]',
+  'meta-analysis': 'meta-analysis[pt]',
+  'clinical-trial': 'clinical trial[pt]',
+  'randomized-trial': 'randomized controlled trial[pt]',
+  'observational': 'observational study[pt]',
+};
+
+const SPECIES_TERMS: Record<SpeciesFilter, string> = {
+  'humans': 'humans[mh]',
+  'animals': '(animals[mh] NOT humans[mh])',
+};
+
+const MIN_YEAR = 1800;
+const MAX_YEAR = 2100;
+export const MAX_RETMAX = 100;
+
+const parseYear = (value: unknown): number | undefined => {
+  const year = parseInt(String(value ?? ''), 10);
+  return year >= MIN_YEAR && year <= MAX_YEAR ? year : undefined;
+};
+
+/**
+ * Reads filters from request query parameters, dropping anything invalid
+ * rather than passing it through to NCBI
+ * @param get Returns a parameter value, e.g. `name => searchParams.get(name)` or `name => req.query[name]`
+ */
+export const parseSearchFilters = (get: (name: string) => unknown): SearchFilters => {
+  const filters: SearchFilters = {};
+
+  const yearFrom = parseYear(get('minYear'));
+  const yearTo = parseYear(get('maxYear'));
+  if (yearFrom) filters.yearFrom = yearFrom;
+  if (yearTo) filters.yearTo = yearTo;
+
+  const publicationTypes = String(get('pubTypes') ?? '')
+    .split(',')
+    .filter((type): type is PublicationTypeFilter => Object.hasOwn(PUBLICATION_TYPE_TERMS, type));
+  if (publicationTypes.length > 0) filters.publicationTypes = publicationTypes;
+
+  const species = String(get('species') ?? '');
+  if (Object.hasOwn(SPECIES_TERMS, species)) filters.species = species as SpeciesFilter;
+
+  if (['1', 'true'].includes(String(get('freeFullText') ?? ''))) filters.freeFullTextOnly = true;
+
+  const language = String(get('language') ?? '').trim().toLowerCase();
+  if (/^[a-z]+$/.test(language)) filters.language = language;
+
+  const retmax = parseInt(String(get('retmax') ?? ''), 10);
+  if (retmax > 0) filters.retmax = Math.min(retmax, MAX_RETMAX);
+
+  const sort = get('sort');
+  if (sort === 'date' || sort === 'relevance') filters.sort = sort;
+
+  return filters;
+};
+
+/**
+ * ANDs the filters onto a PubMed term using field tags, e.g.
+ * `(term) AND 2015:2100[dp] AND humans[mh]`
+ */
+export const applySearchFilters = (term: string, filters: SearchFilters): string => {
+  const clauses: string[] = [];
+
+  if (filters.yearFrom || filters.yearTo) {
+    clauses.push(`${filters.yearFrom || MIN_YEAR}:${filters.yearTo || MAX_YEAR}[dp]`);
+  }
+  if (filters.publicationTypes?.length) {
+    clauses.push(`(${filters.publicationTypes.map(type => PUBLICATION_TYPE_TERMS[type]).join(' OR ')})`);
+  }
+  if (filters.species) clauses.push(SPECIES_TERMS[filters.species]);
+  if (filters.freeFullTextOnly) clauses.push('free full text[sb]');
+  if (filters.language) clauses.push(`${filters.language}[lang]`);
+
+  return clauses.length > 0 ? `(${term}) AND ${clauses.join(' AND ')}` : term;
+};
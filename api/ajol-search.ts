@@ -0,0 +1,28 @@
+import { searchAjol } from './_lib/ajol';
+import { cacheHeaders } from './_lib/cache';
+import { parseSearchFilters } from './_lib/searchFilters';
+
+// AJOL results normalized to PubMedArticle objects
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const term = searchParams.get('term');
+
+  if (!term) {
+    return Response.json({ error: 'Term parameter is required' }, { status: 400 });
+  }
+
+  try {
+    console.log('Received AJOL search term:', term);
+    const { data, cache } = await searchAjol(term, parseSearchFilters(name => searchParams.get(name)));
+    return Response.json(data, { headers: cacheHeaders(cache) });
+  } catch (error: any) {
+    console.error('AJOL search error:', error.message);
+    console.error('Error details:', error.response?.status);
+    return Response.json(
+      { error: 'Failed to search AJOL', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
@@ -0,0 +1,53 @@
+import {
+  parseAnswerRequest, prepareAnswer, readJsonBody, streamAnswer, generateStructuredAnswer,
+  answerRateLimiter, answerContextHeader, upstreamErrorDetails, ANSWER_CONTEXT_HEADER, MAX_ANSWER_BODY_BYTES
+} from './_lib/answer';
+import { clientIpFromHeaders, rateLimitHeaders } from './_lib/rateLimit';
+
+// Runs the RAG synthesis server-side: streams markdown as text/plain, or returns a StructuredAnswer when format is "json"
+export async function POST(request: Request) {
+  const rateLimit = answerRateLimiter(clientIpFromHeaders(request.headers.get('x-forwarded-for')));
+  if (!rateLimit.allowed) {
+    return Response.json(
+      { error: `Too many requests, try again in ${rateLimit.retryAfterSeconds} seconds` },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { body, status, error } = await readJsonBody(request, MAX_ANSWER_BODY_BYTES);
+  if (error) return Response.json({ error }, { status });
+
+  const { request: parsedRequest, error: validationError } = parseAnswerRequest(body);
+  if (!parsedRequest) return Response.json({ error: validationError }, { status: 400 });
+
+  try {
+    // Only the articles that fit the providers' context budget reach the model
+    const { request: answerRequest, context } = await prepareAnswer(parsedRequest);
+    const contextHeaders = { [ANSWER_CONTEXT_HEADER]: answerContextHeader(context) };
+
+    if (answerRequest.format === 'json') {
+      return Response.json(await generateStructuredAnswer(answerRequest, request.signal), { headers: contextHeaders });
+    }
+
+    // Wait for the first chunk so a failing provider chain still gets an error status
+    const chunks = streamAnswer(answerRequest, request.signal);
+    const first = await chunks.next();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          if (!first.done) controller.enqueue(encoder.encode(first.value));
+          for await (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+          controller.close();
+        } catch (streamError: any) {
+          console.error('Answer stream error:', streamError.message);
+          controller.error(streamError);
+        }
+      },
+    });
+    return new Response(stream, { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store', ...contextHeaders } });
+  } catch (error: any) {
+    console.error('Answer error:', error.message);
+    return Response.json({ error: 'Failed to generate an answer', details: upstreamErrorDetails(error) }, { status: 502 });
+  }
+}
@@ -0,0 +1,26 @@
+import { parsePlantNamesRequest, readJsonBody, lookupNigerianNames, plantNamesRateLimiter, upstreamErrorDetails, MAX_PLANT_NAMES_BODY_BYTES } from './_lib/answer';
+import { clientIpFromHeaders, rateLimitHeaders } from './_lib/rateLimit';
+
+// Nigerian names suggested by the LLM for plants missing from the lexicon: returns PlantLexiconEntry[]
+export async function POST(request: Request) {
+  const rateLimit = plantNamesRateLimiter(clientIpFromHeaders(request.headers.get('x-forwarded-for')));
+  if (!rateLimit.allowed) {
+    return Response.json(
+      { error: `Too many requests, try again in ${rateLimit.retryAfterSeconds} seconds` },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { body, status, error } = await readJsonBody(request, MAX_PLANT_NAMES_BODY_BYTES);
+  if (error) return Response.json({ error }, { status });
+
+  const { scientificNames, error: validationError } = parsePlantNamesRequest(body);
+  if (!scientificNames) return Response.json({ error: validationError }, { status: 400 });
+
+  try {
+    return Response.json(await lookupNigerianNames(scientificNames));
+  } catch (error: any) {
+    console.error('Plant name lookup error:', error.message);
+    return Response.json({ error: 'Failed to look up plant names', details: upstreamErrorDetails(error) }, { status: 502 });
+  }
+}
@@ -0,0 +1,29 @@
+import { fetchPmcFullText, PMCID_PATTERN } from './_lib/pmc';
+import { cacheHeaders } from './_lib/cache';
+
+// Methods, results and discussion of a PMC open-access article: returns PmcFullText, or 404 when not open access
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const pmcid = searchParams.get('pmcid');
+
+  if (!pmcid || !PMCID_PATTERN.test(pmcid)) {
+    return Response.json({ error: 'A PMCID such as PMC1234567 is required' }, { status: 400 });
+  }
+
+  try {
+    const { data, cache } = await fetchPmcFullText(pmcid);
+    if (!data) {
+      return Response.json({ error: 'No open-access full text available' }, { status: 404, headers: cacheHeaders(cache) });
+    }
+    return Response.json(data, { headers: cacheHeaders(cache) });
+  } catch (error: any) {
+    console.error('PMC full text error:', error.message);
+    console.error('Error details:', error.response?.status, error.response?.data);
+    return Response.json(
+      { error: 'Failed to fetch PMC full text', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
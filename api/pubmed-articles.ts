@@ -0,0 +1,28 @@
+import { searchPubMedArticles } from './_lib/pubmed';
+import { cacheHeaders } from './_lib/cache';
+import { parseSearchFilters } from './_lib/searchFilters';
+
+// Search + fetch in one round trip: returns { ids, articles } for a PubMed term
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const term = searchParams.get('term');
+
+  if (!term) {
+    return Response.json({ error: 'Term parameter is required' }, { status: 400 });
+  }
+
+  try {
+    console.log('Received article search term:', term);
+    const { data, cache } = await searchPubMedArticles(term, parseSearchFilters(name => searchParams.get(name)));
+    return Response.json(data, { headers: cacheHeaders(cache) });
+  } catch (error: any) {
+    console.error('PubMed article search error:', error.message);
+    console.error('Error details:', error.response?.status, error.response?.data);
+    return Response.json(
+      { error: 'Failed to search PubMed articles', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
@@ -1,8 +1,11 @@
-import axios from 'axios';
+import { fetchPubMedXml, fetchPubMedArticles } from './_lib/pubmed';
+import { cacheHeaders } from './_lib/cache';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const idsParam = searchParams.get('ids');
+  // format=json returns parsed PubMedArticle objects; the default is NCBI's raw XML
+  const format = searchParams.get('format') || 'xml';
 
   if (!idsParam) {
     return Response.json({ error: 'IDs parameter is required' }, { status: 400 });
@@ -10,23 +13,18 @@ export async function GET(request: Request) {
 
   try {
     const ids = idsParam.split(','); // Handle multiple IDs
-    const idsStr = ids.join(',');
-    const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=pubmed&id=${idsStr}&retmode=xml`;
 
-    console.log('Making request to PubMed API:', url);
-
-    const response = await axios.get(url, {
-      headers: {
-        'Accept': 'text/xml',
-      },
-    });
-
-    console.log('Received response from PubMed API, length:', response.data.length);
+    if (format === 'json') {
+      const { data, cache } = await fetchPubMedArticles(ids);
+      return Response.json(data, { headers: cacheHeaders(cache) });
+    }
 
     // Return the XML data
-    return new Response(response.data, {
+    const { data: xml, cache } = await fetchPubMedXml(ids);
+    return new Response(xml, {
       headers: {
         'Content-Type': 'text/xml',
+        ...cacheHeaders(cache),
       },
     });
   } catch (error: any) {
@@ -39,4 +37,4 @@ export async function GET(request: Request) {
   }
 }
 
-export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
\ No newline at end of file
+export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
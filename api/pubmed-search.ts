@@ -1,4 +1,6 @@
-import axios from 'axios';
+import { searchPubMed } from './_lib/pubmed';
+import { cacheHeaders } from './_lib/cache';
+import { parseSearchFilters } from './_lib/searchFilters';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -10,21 +12,8 @@ export async function GET(request: Request) {
 
   try {
     console.log('Received search term:', term);
-
-    const encodedTerm = encodeURIComponent(term);
-    const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=pubmed&term=${encodedTerm}&retmode=json&retmax=30&sort=relevance`;
-
-    console.log('Making request to PubMed API:', url);
-
-    const response = await axios.get(url);
-
-    console.log('PubMed search response status:', response.status);
-    console.log('PubMed search response data keys:', Object.keys(response.data));
-    if (response.data.esearchresult) {
-      console.log('Found IDs count:', response.data.esearchresult.idlist?.length || 0);
-    }
-
-    return Response.json(response.data);
+    const { data, cache } = await searchPubMed(term, parseSearchFilters(name => searchParams.get(name)));
+    return Response.json(data, { headers: cacheHeaders(cache) });
   } catch (error: any) {
     console.error('PubMed search error:', error.message);
     console.error('Error details:', error.response?.status, error.response?.data);
@@ -35,4 +24,4 @@ export async function GET(request: Request) {
   }
 }
 
-export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
\ No newline at end of file
+export { GET as POST, GET as PUT, GET as DELETE }; // Allow multiple methods for flexibility
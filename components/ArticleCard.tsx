@@ -1,5 +1,10 @@
 import React, { useState } from 'react';
-import { PubMedArticle } from '../types';
+import { PubMedArticle, EvidenceLevel, SearchTierId, ArticleUsage, CorrectionKind } from '../types';
+import { gradeArticle, EVIDENCE_LEVEL_LABELS } from '../services/evidenceGrading';
+import { SEARCH_TIER_LABELS } from '../services/pubmedService';
+import { FULL_TEXT_SECTION_LABELS } from '../services/fullTextService';
+import { LITERATURE_SOURCE_LABELS, citationKeyFor, articleUrl } from '../services/literatureSources';
+import { CORRECTION_LABELS } from '../services/retractions';
 import RichTextRenderer from './RichTextRenderer';
 import ImageViewer from './ImageViewer';
 
@@ -8,44 +13,122 @@ interface ArticleCardProps {
   index: number;
   showCompact?: boolean;
   onCardClick?: () => void;
+  usage?: ArticleUsage; // How the latest answer used this article, once it is complete
+  selected?: boolean; // Selected for citation export; shows a checkbox when onToggleSelect is set
+  onToggleSelect?: () => void;
 }
 
+const LEVEL_STYLES: Record<EvidenceLevel, { bgColor: string; textColor: string }> = {
+  'high': { bgColor: 'bg-emerald-100', textColor: 'text-emerald-800' },
+  'moderate': { bgColor: 'bg-teal-100', textColor: 'text-teal-800' },
+  'low': { bgColor: 'bg-blue-100', textColor: 'text-blue-800' },
+  'very-low': { bgColor: 'bg-yellow-100', textColor: 'text-yellow-800' },
+};
+
+// Regional results are amber so they are not mistaken for Nigerian studies
+const TIER_STYLES: Record<SearchTierId, string> = {
+  'strict': 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  'national': 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  'regional': 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+const TierBadge: React.FC<{ tier: SearchTierId }> = ({ tier }) => (
+  <span
+    className={`text-xs px-2 py-0.5 rounded-full border font-medium ${TIER_STYLES[tier]}`}
+    title={tier === 'regional' ? 'Found by the regional West African search, not a Nigerian study' : 'Found by the Nigerian search'}
+  >
+    {SEARCH_TIER_LABELS[tier]}
+  </span>
+);
+
+const FullTextBadge: React.FC<{ sections: string[] }> = ({ sections }) => (
+  <span
+    className="text-xs px-2 py-0.5 rounded-full border font-medium bg-sky-50 text-sky-700 border-sky-200"
+    title={`PMC full text used in the answer: ${sections.join(', ')}`}
+  >
+    Full text
+  </span>
+);
+
+// Retractions are red and lead the badge row; errata and concerns are amber
+const CorrectionBadge: React.FC<{ article: PubMedArticle }> = ({ article }) => {
+  if (article.isRetracted) {
+    return (
+      <span
+        className="text-xs px-2 py-0.5 rounded-full border font-bold bg-red-600 text-white border-red-700"
+        title="This article has been retracted and is excluded from answers unless retracted papers are included"
+      >
+        ⚠️ Retracted
+      </span>
+    );
+  }
+  const kinds = Array.from(new Set<CorrectionKind>((article.corrections || []).map(correction => correction.kind)));
+  if (kinds.length === 0) return null;
+  return (
+    <span
+      className="text-xs px-2 py-0.5 rounded-full border font-medium bg-amber-50 text-amber-800 border-amber-300"
+      title={(article.corrections || []).map(correction => `${CORRECTION_LABELS[correction.kind]}: ${correction.source}`).join('\n')}
+    >
+      ⚠️ {kinds.map(kind => CORRECTION_LABELS[kind]).join(', ')}
+    </span>
+  );
+};
+
+const USAGE_BADGES: Record<ArticleUsage, { label: string; title: string; className: string }> = {
+  'cited': {
+    label: 'Cited',
+    title: 'Cited in the latest answer',
+    className: 'bg-emerald-600 text-white border-emerald-600',
+  },
+  'in-context': {
+    label: 'Not cited',
+    title: 'Given to the model for the latest answer but not cited',
+    className: 'bg-white text-emerald-700 border-emerald-300',
+  },
+  'unused': {
+    label: 'Unused',
+    title: 'Retrieved but ranked below the context budget for the latest answer',
+    className: 'bg-slate-100 text-slate-500 border-slate-200',
+  },
+};
+
+const UsageBadge: React.FC<{ usage: ArticleUsage }> = ({ usage }) => (
+  <span
+    className={`text-xs px-2 py-0.5 rounded-full border font-medium ${USAGE_BADGES[usage].className}`}
+    title={USAGE_BADGES[usage].title}
+  >
+    {USAGE_BADGES[usage].label}
+  </span>
+);
+
+// PubMed is the default source, so only other databases get a badge
+const SourceBadge: React.FC<{ article: PubMedArticle }> = ({ article }) =>
+  article.source && article.source !== 'pubmed' ? (
+    <span
+      className="text-xs px-2 py-0.5 rounded-full border font-medium bg-violet-50 text-violet-700 border-violet-200"
+      title={`Found in ${LITERATURE_SOURCE_LABELS[article.source]}`}
+    >
+      {LITERATURE_SOURCE_LABELS[article.source]}
+    </span>
+  ) : null;
+
 const ArticleCard: React.FC<ArticleCardProps> = ({
   article,
   index,
   showCompact = false,
-  onCardClick
+  onCardClick,
+  usage,
+  selected = false,
+  onToggleSelect
 }) => {
   const [expanded, setExpanded] = useState(false);
 
-  // Function to determine evidence strength based on study type
-  const getEvidenceStrength = () => {
-    if (article.title.toLowerCase().includes('meta-analysis') || article.title.toLowerCase().includes('systematic review')) {
-      return { label: 'Strong', color: 'bg-emerald-500', bgColor: 'bg-emerald-100', textColor: 'text-emerald-800' };
-    } else if (article.title.toLowerCase().includes('randomized') || article.title.toLowerCase().includes('clinical trial')) {
-      return { label: 'High', color: 'bg-teal-500', bgColor: 'bg-teal-100', textColor: 'text-teal-800' };
-    } else if (article.title.toLowerCase().includes('observational') || article.title.toLowerCase().includes('cohort')) {
-      return { label: 'Moderate', color: 'bg-blue-500', bgColor: 'bg-blue-100', textColor: 'text-blue-800' };
-    } else {
-      return { label: 'Preliminary', color: 'bg-yellow-500', bgColor: 'bg-yellow-100', textColor: 'text-yellow-800' };
-    }
-  };
-
-  // Function to determine study type
-  const getStudyType = () => {
-    if (article.title.toLowerCase().includes('meta-analysis')) return 'Meta-analysis';
-    if (article.title.toLowerCase().includes('systematic review')) return 'Systematic Review';
-    if (article.title.toLowerCase().includes('randomized')) return 'Randomized Trial';
-    if (article.title.toLowerCase().includes('clinical trial')) return 'Clinical Trial';
-    if (article.title.toLowerCase().includes('observational')) return 'Observational';
-    if (article.title.toLowerCase().includes('case')) return 'Case Study';
-    if (article.title.toLowerCase().includes('cohort')) return 'Cohort Study';
-    if (article.title.toLowerCase().includes('pilot')) return 'Pilot Study';
-    return 'Other';
-  };
-
-  const evidenceStrength = getEvidenceStrength();
-  const studyType = getStudyType();
+  const grade = gradeArticle(article);
+  const evidenceStrength = { label: EVIDENCE_LEVEL_LABELS[grade.level], ...LEVEL_STYLES[grade.level] };
+  const studyType = grade.designLabel;
+  const fullTextSections = Array.from(new Set(
+    (article.fullTextPassages || []).map(passage => FULL_TEXT_SECTION_LABELS[passage.section])
+  ));
 
   // Extract key finding (first sentence of abstract)
   const getKeyFinding = () => {
@@ -61,29 +144,44 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
   if (showCompact) {
     return (
       <div
-        className="bg-gradient-to-r from-white to-emerald-50 border border-emerald-200 rounded-lg p-3 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer hover:border-emerald-400 hover:from-emerald-50 hover:to-emerald-100"
+        className={`bg-gradient-to-r from-white to-emerald-50 border border-emerald-200 rounded-lg p-3 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer hover:border-emerald-400 hover:from-emerald-50 hover:to-emerald-100${usage === 'unused' ? ' opacity-60' : ''}`}
         onClick={onCardClick}
       >
         <div className="flex justify-between items-start mb-2">
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {onToggleSelect && (
+              <input
+                type="checkbox"
+                checked={selected}
+                onChange={onToggleSelect}
+                onClick={(e) => e.stopPropagation()}
+                className="rounded border-emerald-300 text-emerald-600 focus:ring-emerald-500"
+                aria-label="Select for citation export"
+              />
+            )}
             <span className="text-xs font-bold text-emerald-600">
               #{index + 1}
             </span>
+            <CorrectionBadge article={article} />
             <span className={`text-xs px-2 py-1 rounded-full ${evidenceStrength.bgColor} ${evidenceStrength.textColor} font-medium`}>
               {evidenceStrength.label}
             </span>
             <span className="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full font-medium">
               {studyType}
             </span>
+            {article.searchTier && <TierBadge tier={article.searchTier} />}
+            {fullTextSections.length > 0 && <FullTextBadge sections={fullTextSections} />}
+            <SourceBadge article={article} />
+            {usage && <UsageBadge usage={usage} />}
           </div>
           <a
-            href={`https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/`}
+            href={articleUrl(article)}
             target="_blank"
             rel="noopener noreferrer"
             className="text-emerald-600 hover:text-emerald-800 text-xs flex items-center"
             onClick={(e) => e.stopPropagation()}
           >
-            PMID: {article.pmid}
+            {citationKeyFor(article).replace(':', ': ')}
           </a>
         </div>
 
@@ -110,24 +208,43 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
           <span className="bg-gradient-to-r from-emerald-100 to-emerald-200 text-emerald-800 text-xs font-bold px-2 py-1 rounded">
             Source #{index + 1}
           </span>
+          <CorrectionBadge article={article} />
           <span className={`text-xs px-2 py-1 rounded-full ${evidenceStrength.bgColor} ${evidenceStrength.textColor} font-medium`}>
             {evidenceStrength.label} Evidence
           </span>
           <span className="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full font-medium">
             {studyType}
           </span>
+          {article.searchTier && <TierBadge tier={article.searchTier} />}
+          {fullTextSections.length > 0 && <FullTextBadge sections={fullTextSections} />}
+          <SourceBadge article={article} />
+          {usage && <UsageBadge usage={usage} />}
         </div>
         <a
-          href={`https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/`}
+          href={articleUrl(article)}
           target="_blank"
           rel="noopener noreferrer"
           className="text-emerald-600 hover:text-emerald-800 text-sm flex items-center gap-1"
         >
-          PMID: {article.pmid}
+          {citationKeyFor(article).replace(':', ': ')}
           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>
         </a>
       </div>
 
+      {(article.isRetracted || article.corrections?.length) && (
+        <div className={`mb-2 rounded-lg border px-3 py-2 text-xs ${article.isRetracted ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          {article.isRetracted && <p className="font-semibold">This article has been retracted. Do not rely on its findings.</p>}
+          {(article.corrections || []).map((correction, i) => (
+            <p key={i}>
+              {CORRECTION_LABELS[correction.kind]}: {correction.source}
+              {correction.noticePmid && (
+                <> (<a href={`https://pubmed.ncbi.nlm.nih.gov/${correction.noticePmid}/`} target="_blank" rel="noopener noreferrer" className="underline">PMID {correction.noticePmid}</a>)</>
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+
       <h3 className="text-lg font-semibold text-emerald-900 mb-2 leading-tight">
         {article.title}
       </h3>
@@ -165,6 +282,49 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
           <div className="truncate">{article.authors.join(', ')}</div>
         </div>
       )}
+
+      {expanded && (article.keywords?.length || article.meshHeadings?.length) ? (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {(article.keywords?.length ? article.keywords : article.meshHeadings!.map(heading => heading.descriptor))
+            .slice(0, 8)
+            .map(term => (
+              <span key={term} className="text-xs bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">
+                {term}
+              </span>
+            ))}
+        </div>
+      ) : null}
+
+      {expanded && fullTextSections.length > 0 && (
+        <div className="mt-3 text-xs text-sky-700 bg-sky-50 border border-sky-100 rounded-lg px-3 py-2">
+          Answer drew on the open-access full text: {fullTextSections.join(', ')}
+        </div>
+      )}
+
+      {(article.doi || article.pmcid) && (
+        <div className="mt-2 flex gap-3 text-xs">
+          {article.doi && (
+            <a
+              href={`https://doi.org/${article.doi}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-emerald-600 hover:text-emerald-800"
+            >
+              DOI: {article.doi}
+            </a>
+          )}
+          {article.pmcid && (
+            <a
+              href={`https://pmc.ncbi.nlm.nih.gov/articles/${article.pmcid}/`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-emerald-600 hover:text-emerald-800"
+            >
+              Free full text ({article.pmcid})
+            </a>
+          )}
+        </div>
+      )}
     </div>
   );
 };
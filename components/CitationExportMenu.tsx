@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { PubMedArticle } from '../types';
+import {
+  CitationFormat,
+  CITATION_FORMAT_LABELS,
+  CITATION_FORMAT_EXTENSIONS,
+  PharmacopoeiaReference,
+  exportCitations
+} from '../services/citationExport';
+
+interface CitationExportMenuProps {
+  articles: PubMedArticle[];
+  pharmacopoeiaReferences?: PharmacopoeiaReference[];
+  label: string;  // e.g. "Export 3 selected"
+  filename?: string;  // Without extension
+}
+
+const selectClass = "text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700";
+const buttonClass = "text-xs font-medium bg-emerald-600 text-white rounded-lg px-2 py-1 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const CitationExportMenu: React.FC<CitationExportMenuProps> = ({
+  articles,
+  pharmacopoeiaReferences = [],
+  label,
+  filename = 'naijamed-citations'
+}) => {
+  const [format, setFormat] = useState<CitationFormat>('bibtex');
+  const [copied, setCopied] = useState(false);
+  const isEmpty = articles.length === 0 && pharmacopoeiaReferences.length === 0;
+
+  const render = () => exportCitations(articles, format, pharmacopoeiaReferences);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(render());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy citations:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const type = format === 'csl-json' ? 'application/json' : 'text/plain';
+    const url = URL.createObjectURL(new Blob([render()], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.${CITATION_FORMAT_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-medium text-emerald-700">{label}</span>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as CitationFormat)}
+        className={selectClass}
+        aria-label="Citation format"
+      >
+        {(Object.keys(CITATION_FORMAT_LABELS) as CitationFormat[]).map(value => (
+          <option key={value} value={value}>{CITATION_FORMAT_LABELS[value]}</option>
+        ))}
+      </select>
+      <button onClick={handleCopy} disabled={isEmpty} className={buttonClass}>
+        {copied ? 'Copied!' : 'Copy'}
+      </button>
+      <button onClick={handleDownload} disabled={isEmpty} className={buttonClass}>
+        Download
+      </button>
+    </div>
+  );
+};
+
+export default CitationExportMenu;
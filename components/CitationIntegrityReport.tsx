@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { CitationReport } from '../types';
+
+interface CitationIntegrityReportProps {
+  report: CitationReport;
+}
+
+const CitationIntegrityReport: React.FC<CitationIntegrityReportProps> = ({ report }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const total = report.checks.length;
+
+  if (total === 0) {
+    return (
+      <div className="border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm text-slate-600">
+        <span className="font-semibold">Citation integrity:</span> this answer cites no sources.
+      </div>
+    );
+  }
+
+  const hasFabricated = report.fabricatedCount > 0;
+  const tone = !hasFabricated
+    ? 'border-emerald-200 bg-emerald-50 text-emerald-800'
+    : report.verifiedCount > 0
+      ? 'border-amber-200 bg-amber-50 text-amber-800'
+      : 'border-red-200 bg-red-50 text-red-800';
+
+  return (
+    <div className={`border rounded-xl px-4 py-3 text-sm ${tone}`}>
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <span className="font-semibold">Citation integrity:</span>{' '}
+          {report.verifiedCount}/{total} citations verified against the retrieved sources
+          {hasFabricated && `, ${report.fabricatedCount} could not be matched`}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-xs font-medium underline whitespace-nowrap"
+        >
+          {isExpanded ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-3 space-y-1">
+          {report.checks.map(check => (
+            <li key={check.citation} className="flex items-start gap-2">
+              <span className={`text-xs font-mono px-1.5 py-0.5 rounded ${check.status === 'verified' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800 line-through'}`}>
+                {check.citation}
+              </span>
+              <span className="text-xs">
+                {check.status === 'verified' ? 'Found in context' : check.reason}
+                {check.occurrences > 1 && ` (cited ${check.occurrences} times)`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CitationIntegrityReport;
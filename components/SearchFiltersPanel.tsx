@@ -0,0 +1,142 @@
+import React from 'react';
+import { SearchFilters, PublicationTypeFilter, SpeciesFilter, SearchSort } from '../types';
+
+interface SearchFiltersPanelProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  onApply: () => void;  // Re-runs the current search with the new filters
+  disabled?: boolean;
+}
+
+const PUBLICATION_TYPE_OPTIONS: { value: PublicationTypeFilter | ''; label: string }[] = [
+  { value: '', label: 'All Types' },
+  { value: 'clinical-trial', label: 'Clinical Trial' },
+  { value: 'randomized-trial', label: 'Randomized Trial' },
+  { value: 'meta-analysis', label: 'Meta-analysis' },
+  { value: 'systematic-review', label: 'Systematic Review' },
+  { value: 'review', label: 'Review' },
+  { value: 'observational', label: 'Observational' },
+];
+
+const LANGUAGE_OPTIONS = [
+  { value: '', label: 'Any language' },
+  { value: 'english', label: 'English' },
+  { value: 'french', label: 'French' },
+];
+
+const RESULT_COUNTS = [10, 20, 30, 50, 100];
+
+const selectClass = "text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700";
+const yearInputClass = "w-16 text-xs bg-emerald-50 border border-emerald-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-emerald-500 text-emerald-700";
+
+const SearchFiltersPanel: React.FC<SearchFiltersPanelProps> = ({ filters, onChange, onApply, disabled = false }) => {
+  const update = (changes: Partial<SearchFilters>) => onChange({ ...filters, ...changes });
+
+  const parseYear = (value: string) => {
+    const year = parseInt(value, 10);
+    return Number.isNaN(year) ? undefined : year;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          value={filters.publicationTypes?.[0] || ''}
+          onChange={(e) => update({ publicationTypes: e.target.value ? [e.target.value as PublicationTypeFilter] : undefined })}
+          className={selectClass}
+          aria-label="Publication type"
+        >
+          {PUBLICATION_TYPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.species || ''}
+          onChange={(e) => update({ species: (e.target.value || undefined) as SpeciesFilter | undefined })}
+          className={selectClass}
+          aria-label="Species"
+        >
+          <option value="">Humans & animals</option>
+          <option value="humans">Human studies</option>
+          <option value="animals">Animal studies only</option>
+        </select>
+
+        <select
+          value={filters.language || ''}
+          onChange={(e) => update({ language: e.target.value || undefined })}
+          className={selectClass}
+          aria-label="Language"
+        >
+          {LANGUAGE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center text-xs text-emerald-700">
+        <span>Years</span>
+        <input
+          type="number"
+          placeholder="From"
+          value={filters.yearFrom ?? ''}
+          onChange={(e) => update({ yearFrom: parseYear(e.target.value) })}
+          className={yearInputClass}
+          aria-label="Published from year"
+        />
+        <span>–</span>
+        <input
+          type="number"
+          placeholder="To"
+          value={filters.yearTo ?? ''}
+          onChange={(e) => update({ yearTo: parseYear(e.target.value) })}
+          className={yearInputClass}
+          aria-label="Published until year"
+        />
+
+        <select
+          value={filters.sort || 'relevance'}
+          onChange={(e) => update({ sort: e.target.value as SearchSort })}
+          className={selectClass}
+          aria-label="Sort order"
+        >
+          <option value="relevance">Most relevant</option>
+          <option value="date">Newest first</option>
+        </select>
+
+        <select
+          value={filters.retmax || 30}
+          onChange={(e) => update({ retmax: parseInt(e.target.value, 10) })}
+          className={selectClass}
+          aria-label="Results per search"
+        >
+          {RESULT_COUNTS.map(count => (
+            <option key={count} value={count}>{count} results</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-emerald-700 flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!filters.freeFullTextOnly}
+            onChange={(e) => update({ freeFullTextOnly: e.target.checked || undefined })}
+            className="rounded border-emerald-300 text-emerald-600 focus:ring-emerald-500"
+          />
+          Free full text only
+        </label>
+
+        <button
+          onClick={onApply}
+          disabled={disabled}
+          className="text-xs font-medium bg-emerald-600 text-white px-3 py-1 rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+        >
+          Apply filters
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SearchFiltersPanel;
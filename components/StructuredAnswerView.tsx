@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState } from 'react';
+import {
+  StructuredAnswer,
+  StructuredPlant,
+  StructuredClaim,
+  StructuredSafetyItem,
+  StructuredPreparation
+} from '../types';
+
+interface StructuredAnswerViewProps {
+  answer: StructuredAnswer;
+  unverifiedCitations?: string[]; // Citations the integrity check could not match to the context
+}
+
+const UnverifiedCitationsContext = createContext<Set<string>>(new Set());
+
+const SAFETY_LABELS: Record<StructuredSafetyItem['category'], string> = {
+  toxicity: 'Toxicity',
+  dosage: 'Dosage',
+  contraindication: 'Contraindication',
+  side_effect: 'Side Effect',
+  interaction: 'Interaction'
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  yoruba: 'Yoruba',
+  igbo: 'Igbo',
+  hausa: 'Hausa',
+  edo: 'Edo',
+  efik: 'Efik',
+  fulfulde: 'Fulfulde',
+  urhobo: 'Urhobo',
+  pidgin: 'Pidgin'
+};
+
+const CitationTags: React.FC<{ citations: string[] }> = ({ citations }) => {
+  const unverified = useContext(UnverifiedCitationsContext);
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-1">
+      {citations.map(citation => {
+        const pmid = citation.match(/^PMID:(\d+)/)?.[1] ?? null;
+        const epmc = citation.match(/^EPMC:([A-Z]+)-(\w+)/);
+        const href = pmid ? `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`
+          : epmc ? `https://europepmc.org/article/${epmc[1]}/${epmc[2]}`
+          : null;
+        if (unverified.has(citation)) {
+          return (
+            <span
+              key={citation}
+              title="Not found in the retrieved sources"
+              className="text-xs font-mono bg-red-100 text-red-800 px-1.5 py-0.5 rounded line-through"
+            >
+              {citation} ⚠️
+            </span>
+          );
+        }
+        return href ? (
+          <a
+            key={citation}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs font-mono bg-emerald-100 text-emerald-800 px-1.5 py-0.5 rounded hover:bg-emerald-200"
+          >
+            {citation}
+          </a>
+        ) : (
+          <span key={citation} className="text-xs font-mono bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded">
+            {citation}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+const SectionCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-emerald-100 overflow-hidden">
+    <div className="px-4 py-3 border-b border-emerald-100 bg-gradient-to-r from-emerald-50 to-white">
+      <h4 className="font-semibold text-emerald-800">{title}</h4>
+    </div>
+    <div className="p-4">{children}</div>
+  </div>
+);
+
+const PlantsSection: React.FC<{ plants: StructuredPlant[] }> = ({ plants }) => (
+  <SectionCard title="Plants Covered & Nigerian Names">
+    <div className="space-y-3">
+      {plants.map(plant => {
+        const localNames = Object.entries(plant.localNames).filter(([, name]) => name);
+        return (
+          <div key={plant.scientificName} className="border-b border-emerald-50 last:border-0 pb-3 last:pb-0">
+            <div className="flex flex-wrap items-baseline gap-2">
+              <span className="font-semibold text-emerald-900">{plant.commonName}</span>
+              <span className="italic text-sm text-emerald-700">{plant.scientificName}</span>
+              {plant.isNative !== null && (
+                <span className={`text-xs px-2 py-0.5 rounded-full ${plant.isNative ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-700'}`}>
+                  {plant.isNative ? 'Native to West Africa' : 'Not native'}
+                </span>
+              )}
+            </div>
+            {localNames.length > 0 ? (
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-emerald-700">
+                {localNames.map(([language, name]) => (
+                  <span key={language}>
+                    <span className="text-emerald-500">{LANGUAGE_LABELS[language] || language}:</span> <em>{name}</em>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-1 text-sm text-slate-500 italic">No Nigerian names documented</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </SectionCard>
+);
+
+const ClaimsSection: React.FC<{ claims: StructuredClaim[] }> = ({ claims }) => (
+  <SectionCard title="What the Research Says">
+    <ul className="space-y-2">
+      {claims.map((claim, idx) => (
+        <li key={idx} className="text-sm text-emerald-800 leading-relaxed">
+          {claim.plant && <span className="italic font-medium">{claim.plant}: </span>}
+          {claim.claim}
+          <CitationTags citations={claim.citations} />
+        </li>
+      ))}
+    </ul>
+  </SectionCard>
+);
+
+const SafetySection: React.FC<{ items: StructuredSafetyItem[] }> = ({ items }) => (
+  <div className="bg-amber-50 border border-amber-100 rounded-xl p-4">
+    <h4 className="font-semibold text-amber-800 mb-2">Safety & Precautions</h4>
+    <ul className="space-y-2">
+      {items.map((item, idx) => (
+        <li key={idx} className="text-sm text-amber-800 leading-relaxed">
+          <span className="text-xs font-semibold uppercase tracking-wide bg-amber-100 text-amber-900 px-2 py-0.5 rounded mr-2">
+            {SAFETY_LABELS[item.category]}
+          </span>
+          {item.plant && <span className="italic">{item.plant}: </span>}
+          {item.detail}
+          <CitationTags citations={item.citations} />
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const PreparationsSection: React.FC<{ preparations: StructuredPreparation[] }> = ({ preparations }) => (
+  <SectionCard title="Preparation Methods">
+    <ul className="space-y-2">
+      {preparations.map((prep, idx) => (
+        <li key={idx} className="text-sm text-emerald-800 leading-relaxed">
+          {prep.plant && <span className="italic font-medium">{prep.plant}: </span>}
+          {prep.method}
+          {prep.plantPart && <span className="text-emerald-600"> ({prep.plantPart})</span>}
+          <CitationTags citations={prep.citations} />
+        </li>
+      ))}
+    </ul>
+  </SectionCard>
+);
+
+const StructuredAnswerView: React.FC<StructuredAnswerViewProps> = ({ answer, unverifiedCitations = [] }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(answer, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy structured answer:', error);
+    }
+  };
+
+  return (
+    <UnverifiedCitationsContext.Provider value={new Set(unverifiedCitations)}>
+      <div className="space-y-4">
+        <div className="bg-white rounded-xl shadow-sm border border-emerald-100 p-4">
+          <div className="flex justify-between items-start gap-4">
+            <p className="text-emerald-800 leading-relaxed">{answer.summary}</p>
+            <button
+              onClick={copyJson}
+              className="text-xs text-emerald-600 hover:text-emerald-800 font-medium whitespace-nowrap"
+            >
+              {copied ? 'Copied!' : 'Copy JSON'}
+            </button>
+          </div>
+        </div>
+
+        {answer.plants.length > 0 && <PlantsSection plants={answer.plants} />}
+        {answer.claims.length > 0 && <ClaimsSection claims={answer.claims} />}
+        {answer.safety.length > 0 && <SafetySection items={answer.safety} />}
+        {answer.preparations.length > 0 && <PreparationsSection preparations={answer.preparations} />}
+
+        {answer.researchQuality && (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm text-slate-700">
+            <span className="font-semibold">Research Quality: </span>
+            {answer.researchQuality}
+          </div>
+        )}
+      </div>
+    </UnverifiedCitationsContext.Provider>
+  );
+};
+
+export default StructuredAnswerView;
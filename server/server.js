@@ -1,12 +1,26 @@
 const express = require('express');
 const cors = require('cors');
-const axios = require('axios');
+// PubMed helpers are shared with the Vercel API routes (run with tsx so they load from TypeScript)
+const { searchPubMed, fetchPubMedXml, fetchPubMedArticles, searchPubMedArticles } = require('../api/_lib/pubmed');
+const { cacheHeaders } = require('../api/_lib/cache');
+const { parseSearchFilters } = require('../api/_lib/searchFilters');
+const { fetchPmcFullText, PMCID_PATTERN } = require('../api/_lib/pmc');
+const { searchEuropePmc } = require('../api/_lib/europePmc');
+const { searchAjol } = require('../api/_lib/ajol');
+// Answer synthesis runs here so LLM provider keys never reach the browser
+const {
+  parseAnswerRequest, parsePlantNamesRequest, prepareAnswer, streamAnswer, generateStructuredAnswer, lookupNigerianNames,
+  answerRateLimiter, plantNamesRateLimiter, answerContextHeader, upstreamErrorDetails, ANSWER_CONTEXT_HEADER,
+  MAX_ANSWER_BODY_BYTES, MAX_PLANT_NAMES_BODY_BYTES
+} = require('../api/_lib/answer');
+const { rateLimitHeaders } = require('../api/_lib/rateLimit');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Enable CORS for all routes
-app.use(cors());
+// Enable CORS for all routes, exposing X-Cache so clients can monitor hit rates
+// and X-Answer-Context so they can check citations against the answer's context
+app.use(cors({ exposedHeaders: ['X-Cache', ANSWER_CONTEXT_HEADER] }));
 
 // Proxy route for PubMed search
 app.get('/api/pubmed/search', async (req, res) => {
@@ -14,20 +28,9 @@ app.get('/api/pubmed/search', async (req, res) => {
     const { term } = req.query;
     console.log('Received search term:', term);
 
-    const encodedTerm = encodeURIComponent(term);
-    const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=pubmed&term=${encodedTerm}&retmode=json&retmax=30&sort=relevance`;
-
-    console.log('Making request to PubMed API:', url);
-
-    const response = await axios.get(url);
-
-    console.log('PubMed search response status:', response.status);
-    console.log('PubMed search response data keys:', Object.keys(response.data));
-    if (response.data.esearchresult) {
-      console.log('Found IDs count:', response.data.esearchresult.idlist?.length || 0);
-    }
-
-    res.json(response.data);
+    const { data, cache } = await searchPubMed(term, parseSearchFilters(name => req.query[name]));
+    res.set(cacheHeaders(cache));
+    res.json(data);
   } catch (error) {
     console.error('PubMed search error:', error.message);
     console.error('Error details:', error.response?.status, error.response?.data);
@@ -38,28 +41,24 @@ app.get('/api/pubmed/search', async (req, res) => {
 // Proxy route for PubMed fetch
 app.get('/api/pubmed/fetch', async (req, res) => {
   try {
-    const { ids } = req.query;
+    const { ids, format = 'xml' } = req.query;
     if (!ids) {
       return res.status(400).json({ error: 'IDs parameter is required' });
     }
 
     const idsStr = Array.isArray(ids) ? ids.join(',') : ids;
-    const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=pubmed&id=${idsStr}&retmode=xml`;
-
-    console.log('Making request to PubMed API:', url);
 
-    const response = await axios.get(url, {
-      headers: {
-        'Accept': 'text/xml',
-      },
-      responseType: 'text' // Get response as text to handle XML
-    });
-
-    console.log('Received response from PubMed API, length:', response.data.length);
+    // format=json returns parsed PubMedArticle objects
+    if (format === 'json') {
+      const { data, cache } = await fetchPubMedArticles(idsStr.split(','));
+      res.set(cacheHeaders(cache));
+      return res.json(data);
+    }
 
     // Send the XML data directly
-    res.set('Content-Type', 'text/xml');
-    res.send(response.data);
+    const { data: xml, cache } = await fetchPubMedXml(idsStr.split(','));
+    res.set({ 'Content-Type': 'text/xml', ...cacheHeaders(cache) });
+    res.send(xml);
   } catch (error) {
     console.error('PubMed fetch error:', error.message);
     console.error('Error details:', error.response?.status, error.response?.data);
@@ -67,6 +66,142 @@ app.get('/api/pubmed/fetch', async (req, res) => {
   }
 });
 
+// Search + fetch in one round trip
+app.get('/api/pubmed/articles', async (req, res) => {
+  try {
+    const { term } = req.query;
+    if (!term) {
+      return res.status(400).json({ error: 'Term parameter is required' });
+    }
+    console.log('Received article search term:', term);
+
+    const { data, cache } = await searchPubMedArticles(term, parseSearchFilters(name => req.query[name]));
+    res.set(cacheHeaders(cache));
+    res.json(data);
+  } catch (error) {
+    console.error('PubMed article search error:', error.message);
+    console.error('Error details:', error.response?.status, error.response?.data);
+    res.status(500).json({ error: 'Failed to search PubMed articles', details: error.message });
+  }
+});
+
+// PMC open-access full text (methods, results, discussion)
+app.get('/api/pmc/fulltext', async (req, res) => {
+  try {
+    const { pmcid } = req.query;
+    if (!pmcid || !PMCID_PATTERN.test(pmcid)) {
+      return res.status(400).json({ error: 'A PMCID such as PMC1234567 is required' });
+    }
+
+    const { data, cache } = await fetchPmcFullText(pmcid);
+    res.set(cacheHeaders(cache));
+    if (!data) {
+      return res.status(404).json({ error: 'No open-access full text available' });
+    }
+    res.json(data);
+  } catch (error) {
+    console.error('PMC full text error:', error.message);
+    console.error('Error details:', error.response?.status, error.response?.data);
+    res.status(500).json({ error: 'Failed to fetch PMC full text', details: error.message });
+  }
+});
+
+// Other literature sources, normalized to PubMedArticle objects
+const literatureRoute = (label, search) => async (req, res) => {
+  try {
+    const { term } = req.query;
+    if (!term) {
+      return res.status(400).json({ error: 'Term parameter is required' });
+    }
+    console.log(`Received ${label} search term:`, term);
+
+    const { data, cache } = await search(term, parseSearchFilters(name => req.query[name]));
+    res.set(cacheHeaders(cache));
+    res.json(data);
+  } catch (error) {
+    console.error(`${label} search error:`, error.message);
+    console.error('Error details:', error.response?.status);
+    res.status(500).json({ error: `Failed to search ${label}`, details: error.message });
+  }
+};
+
+app.get('/api/europepmc/search', literatureRoute('Europe PMC', searchEuropePmc));
+app.get('/api/ajol/search', literatureRoute('AJOL', searchAjol));
+
+// Per-IP rate limiting for the LLM routes (set 'trust proxy' when running behind one so req.ip is the client)
+const rateLimited = (limiter) => (req, res, next) => {
+  const result = limiter(req.ip);
+  if (!result.allowed) {
+    res.set(rateLimitHeaders(result));
+    return res.status(429).json({ error: `Too many requests, try again in ${result.retryAfterSeconds} seconds` });
+  }
+  next();
+};
+
+// RAG synthesis: streams markdown as text/plain, or returns a StructuredAnswer when format is "json"
+app.post('/api/answer', rateLimited(answerRateLimiter), express.json({ limit: MAX_ANSWER_BODY_BYTES }), async (req, res) => {
+  const { request: parsedRequest, error } = parseAnswerRequest(req.body);
+  if (!parsedRequest) {
+    return res.status(400).json({ error });
+  }
+
+  // Stop generating when the client disconnects or aborts
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    // Only the articles that fit the providers' context budget reach the model
+    const { request, context } = await prepareAnswer(parsedRequest);
+    res.set(ANSWER_CONTEXT_HEADER, answerContextHeader(context));
+
+    if (request.format === 'json') {
+      return res.json(await generateStructuredAnswer(request, controller.signal));
+    }
+
+    for await (const chunk of streamAnswer(request, controller.signal)) {
+      if (!res.headersSent) res.set({ 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.write(chunk);
+    }
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Answer error:', error.message);
+    if (res.headersSent) {
+      // Mid-stream: break the connection so the client sees the failure
+      return res.destroy(error);
+    }
+    res.status(502).json({ error: 'Failed to generate an answer', details: upstreamErrorDetails(error) });
+  }
+});
+
+// Nigerian names suggested by the LLM for plants missing from the lexicon
+app.post('/api/plant-names', rateLimited(plantNamesRateLimiter), express.json({ limit: MAX_PLANT_NAMES_BODY_BYTES }), async (req, res) => {
+  const { scientificNames, error } = parsePlantNamesRequest(req.body);
+  if (!scientificNames) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    res.json(await lookupNigerianNames(scientificNames));
+  } catch (error) {
+    console.error('Plant name lookup error:', error.message);
+    res.status(502).json({ error: 'Failed to look up plant names', details: upstreamErrorDetails(error) });
+  }
+});
+
+// Oversized or malformed JSON bodies
+app.use((error, req, res, next) => {
+  if (error.type === 'entity.too.large') {
+    return res.status(413).json({ error: `Request body must be at most ${error.limit} bytes` });
+  }
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body must be JSON' });
+  }
+  next(error);
+});
+
 app.listen(PORT, () => {
   console.log(`PubMed proxy server running on port ${PORT}`);
-});
\ No newline at end of file
+});
@@ -0,0 +1,370 @@
+import { PubMedArticle, ArticleAuthor, CitationReport } from '../types';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json' | 'vancouver' | 'apa';
+
+export const CITATION_FORMAT_LABELS: Record<CitationFormat, string> = {
+  'bibtex': 'BibTeX',
+  'ris': 'RIS',
+  'csl-json': 'CSL-JSON',
+  'vancouver': 'Vancouver',
+  'apa': 'APA',
+};
+
+export const CITATION_FORMAT_EXTENSIONS: Record<CitationFormat, string> = {
+  'bibtex': 'bib',
+  'ris': 'ris',
+  'csl-json': 'json',
+  'vancouver': 'txt',
+  'apa': 'txt',
+};
+
+// A cited pharmacopoeia page, e.g. [AHP:Page24]
+export interface PharmacopoeiaReference {
+  source: 'AHP' | 'WAP';
+  page: number;
+  title?: string;  // Monograph name when known, e.g. "Vernonia amygdalina"
+}
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;  // Organizations and names that cannot be split
+}
+
+// The subset of CSL-JSON (https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html) we produce
+export interface CslItem {
+  id: string;
+  type: 'article-journal' | 'chapter';
+  title: string;
+  author?: CslName[];
+  editor?: CslName[];
+  'container-title': string;
+  'container-title-short'?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  issued?: { 'date-parts': number[][] };
+  DOI?: string;
+  PMID?: string;
+  PMCID?: string;
+  URL?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  language?: string;
+}
+
+interface PharmacopoeiaBook {
+  title: string;
+  editors: CslName[];
+  publisher: string;
+  place: string;
+  year: number;
+}
+
+const PHARMACOPOEIA_BOOKS: Record<PharmacopoeiaReference['source'], PharmacopoeiaBook> = {
+  AHP: {
+    title: 'African Herbal Pharmacopoeia',
+    editors: [
+      { family: 'Brendler', given: 'T' },
+      { family: 'Eloff', given: 'JN' },
+      { family: 'Gurib-Fakim', given: 'A' },
+      { family: 'Phillips', given: 'LD' },
+    ],
+    publisher: 'Association for African Medicinal Plants Standards',
+    place: 'Port Louis, Mauritius',
+    year: 2010,
+  },
+  WAP: {
+    title: 'West African Herbal Pharmacopoeia',
+    editors: [],
+    publisher: 'West African Health Organisation',
+    place: 'Bobo-Dioulasso, Burkina Faso',
+    year: 2013,
+  },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "Mar 2020" -> [2020, 3]; "2020" -> [2020]
+const parsePubDate = (pubDate: string): number[] | undefined => {
+  const year = pubDate.match(/\d{4}/)?.[0];
+  if (!year) return undefined;
+  const month = MONTHS.findIndex(name => pubDate.includes(name));
+  return month >= 0 ? [parseInt(year, 10), month + 1] : [parseInt(year, 10)];
+};
+
+// "A.B. Ibrahim" / "Ibrahim AB" display names, used when no structured author list exists
+const parseDisplayName = (name: string): CslName => {
+  const initialsLast = name.match(/^([A-Z][\w'-]+)\s+([A-Z]{1,3})$/);
+  if (initialsLast) return { family: initialsLast[1], given: initialsLast[2] };
+  const parts = name.trim().split(/\s+/);
+  return parts.length > 1 ? { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') } : { literal: name };
+};
+
+// MEDLINE abbreviates page ranges ("112-9"); citation managers expect "112-119"
+const expandPageRange = (pages: string): string => {
+  const [start, end] = pages.split('-');
+  if (!end || !/^\d+$/.test(start) || !/^\d+$/.test(end) || end.length >= start.length) return pages;
+  return `${start}-${start.slice(0, start.length - end.length)}${end}`;
+};
+
+const toCslName = (author: ArticleAuthor): CslName =>
+  author.lastName
+    ? { family: author.lastName, given: author.foreName || author.initials }
+    : author.collectiveName
+      ? { literal: author.collectiveName }
+      : parseDisplayName(author.foreName || '');
+
+/**
+ * CSL-JSON item for an article, using the full author list and journal metadata
+ */
+export const articleToCsl = (article: PubMedArticle): CslItem => {
+  const authors = article.authorDetails?.length
+    ? article.authorDetails.map(toCslName)
+    : article.authors.map(parseDisplayName);
+  const dateParts = parsePubDate(article.pubDate);
+  const isPubMed = /^\d+$/.test(article.pmid);
+
+  return {
+    id: isPubMed ? `PMID:${article.pmid}` : article.pmid,
+    type: 'article-journal',
+    title: article.title,
+    author: authors,
+    'container-title': article.journal,
+    'container-title-short': article.journalAbbreviation,
+    volume: article.volume,
+    issue: article.issue,
+    page: article.pages && expandPageRange(article.pages),
+    issued: dateParts ? { 'date-parts': [dateParts] } : undefined,
+    DOI: article.doi,
+    PMID: isPubMed ? article.pmid : undefined,
+    PMCID: article.pmcid,
+    URL: isPubMed ? `https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/` : article.url,
+    language: article.language,
+  };
+};
+
+/**
+ * CSL-JSON book-section item for a pharmacopoeia page
+ */
+export const pharmacopoeiaToCsl = (reference: PharmacopoeiaReference): CslItem => {
+  const book = PHARMACOPOEIA_BOOKS[reference.source];
+  return {
+    id: `${reference.source}:Page${reference.page}`,
+    type: 'chapter',
+    title: reference.title || `Monograph, page ${reference.page}`,
+    editor: book.editors.length > 0 ? book.editors : undefined,
+    author: book.editors.length > 0 ? undefined : [{ literal: book.publisher }],
+    'container-title': book.title,
+    page: String(reference.page),
+    issued: { 'date-parts': [[book.year]] },
+    publisher: book.publisher,
+    'publisher-place': book.place,
+  };
+};
+
+// ---------- BibTeX ----------
+
+const escapeBibtex = (text: string): string => text.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+
+const bibtexNames = (names: CslName[]): string =>
+  names.map(name => name.literal ? `{${escapeBibtex(name.literal)}}` : `${escapeBibtex(name.family || '')}, ${escapeBibtex(name.given || '')}`)
+    .join(' and ');
+
+// "smith2020antimalarial", with a/b suffixes for clashes
+const bibtexKeys = (items: CslItem[]): string[] => {
+  const used = new Map<string, number>();
+  return items.map(item => {
+    const creator = (item.author || item.editor || [])[0];
+    const name = (creator?.family || creator?.literal || item['container-title']).split(/\s+/)[0];
+    const word = item.title.split(/\s+/).find(w => w.length > 3) || 'untitled';
+    const base = `${name}${item.issued?.['date-parts'][0][0] || ''}${word}`.toLowerCase().normalize('NFD').replace(/[^a-z0-9]/g, '');
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}${String.fromCharCode(97 + count - 1)}`;
+  });
+};
+
+const toBibtex = (item: CslItem, key: string): string => {
+  const [year, month] = item.issued?.['date-parts'][0] || [];
+  const fields: [string, string | undefined][] = item.type === 'chapter'
+    ? [
+      ['title', `{${escapeBibtex(item.title)}}`],
+      ['booktitle', `{${escapeBibtex(item['container-title'])}}`],
+      ['editor', item.editor && `{${bibtexNames(item.editor)}}`],
+      ['author', item.author && `{${bibtexNames(item.author)}}`],
+      ['publisher', item.publisher && `{${escapeBibtex(item.publisher)}}`],
+      ['address', item['publisher-place'] && `{${escapeBibtex(item['publisher-place'])}}`],
+      ['year', year ? `{${year}}` : undefined],
+      ['pages', item.page && `{${item.page}}`],
+    ]
+    : [
+      ['author', item.author?.length ? `{${bibtexNames(item.author)}}` : undefined],
+      // Double braces keep the title's capitalization (species names, acronyms)
+      ['title', `{{${escapeBibtex(item.title)}}}`],
+      ['journal', `{${escapeBibtex(item['container-title'])}}`],
+      ['year', year ? `{${year}}` : undefined],
+      ['month', month ? MONTHS[month - 1].toLowerCase() : undefined],
+      ['volume', item.volume && `{${item.volume}}`],
+      ['number', item.issue && `{${item.issue}}`],
+      ['pages', item.page && `{${item.page.replace(/-/g, '--')}}`],
+      ['doi', item.DOI && `{${item.DOI}}`],
+      ['pmid', item.PMID && `{${item.PMID}}`],
+      ['url', item.URL && `{${item.URL}}`],
+    ];
+
+  const body = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name} = ${value}`)
+    .join(',\n');
+  return `@${item.type === 'chapter' ? 'incollection' : 'article'}{${key},\n${body}\n}`;
+};
+
+// ---------- RIS ----------
+
+const risName = (name: CslName): string => name.literal || `${name.family}, ${name.given || ''}`.trim();
+
+const toRis = (item: CslItem): string => {
+  const [year, month] = item.issued?.['date-parts'][0] || [];
+  const [startPage, endPage] = (item.page || '').split('-');
+  const lines: [string, string | undefined][] = [
+    ['TY', item.type === 'chapter' ? 'CHAP' : 'JOUR'],
+    ...(item.author || []).map(name => ['AU', risName(name)] as [string, string]),
+    ...(item.editor || []).map(name => ['A2', risName(name)] as [string, string]),
+    ['TI', item.title],
+    [item.type === 'chapter' ? 'T2' : 'JO', item['container-title']],
+    ['J2', item['container-title-short']],
+    ['PY', year ? String(year) : undefined],
+    ['DA', year ? `${year}/${month ? String(month).padStart(2, '0') : ''}//` : undefined],
+    ['VL', item.volume],
+    ['IS', item.issue],
+    ['SP', startPage || undefined],
+    ['EP', endPage || undefined],
+    ['PB', item.publisher],
+    ['CY', item['publisher-place']],
+    ['DO', item.DOI],
+    ['AN', item.PMID],
+    ['UR', item.URL],
+    ['LA', item.language],
+  ];
+  return [...lines.filter((line): line is [string, string] => !!line[1]).map(([tag, value]) => `${tag}  - ${value}`), 'ER  - '].join('\n');
+};
+
+// ---------- Formatted styles ----------
+
+const initialsOf = (given: string = ''): string =>
+  /^[A-Z]{1,3}$/.test(given) ? given : given.split(/[\s.-]+/).filter(Boolean).map(part => part[0].toUpperCase()).join('');
+
+const VANCOUVER_MAX_AUTHORS = 6;
+
+// Vancouver lists six authors, then "et al."
+const toVancouver = (item: CslItem): string => {
+  const [year, month] = item.issued?.['date-parts'][0] || [];
+  const names = (item.author || []).map(name => name.literal || `${name.family} ${initialsOf(name.given)}`.trim());
+  const authors = names.length > VANCOUVER_MAX_AUTHORS
+    ? `${names.slice(0, VANCOUVER_MAX_AUTHORS).join(', ')}, et al.`
+    : names.length ? `${names.join(', ')}.` : '';
+
+  if (item.type === 'chapter') {
+    const editors = (item.editor || []).map(name => `${name.family} ${initialsOf(name.given)}`);
+    return [
+      authors,
+      `${item.title}.`,
+      `In: ${editors.length ? `${editors.join(', ')}, editors. ` : ''}${item['container-title']}.`,
+      `${item['publisher-place']}: ${item.publisher}; ${year}.`,
+      `p. ${item.page}.`,
+    ].filter(Boolean).join(' ');
+  }
+
+  const date = [year, month ? MONTHS[month - 1] : ''].filter(Boolean).join(' ');
+  const volume = item.volume ? `;${item.volume}${item.issue ? `(${item.issue})` : ''}` : '';
+  const pages = item.page ? `:${item.page}` : '';
+  return [
+    authors,
+    `${item.title.replace(/\.$/, '')}.`,
+    `${item['container-title-short'] || item['container-title']}. ${date}${volume}${pages}.`,
+    item.DOI ? `doi: ${item.DOI}.` : '',
+    item.PMID ? `PMID: ${item.PMID}.` : '',
+  ].filter(Boolean).join(' ');
+};
+
+const APA_MAX_AUTHORS = 20;
+
+const apaName = (name: CslName): string =>
+  name.literal || `${name.family}, ${initialsOf(name.given).split('').map(letter => `${letter}.`).join(' ')}`.trim();
+
+// APA 7 lists up to 20 authors; beyond that the first 19, an ellipsis and the last
+const apaAuthors = (names: CslName[]): string => {
+  const formatted = names.map(apaName);
+  if (formatted.length === 0) return '';
+  if (formatted.length === 1) return formatted[0];
+  if (formatted.length > APA_MAX_AUTHORS) {
+    return `${formatted.slice(0, APA_MAX_AUTHORS - 1).join(', ')}, . . . ${formatted[formatted.length - 1]}`;
+  }
+  return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+};
+
+const toApa = (item: CslItem): string => {
+  const [year] = item.issued?.['date-parts'][0] || [];
+  const date = `(${year || 'n.d.'}).`;
+  const authors = apaAuthors(item.author || []);
+  // Without authors the title moves to the front
+  const lead = authors ? `${authors}${authors.endsWith('.') ? '' : '.'} ${date} ${item.title.replace(/\.$/, '')}.` : `${item.title.replace(/\.$/, '')}. ${date}`;
+
+  if (item.type === 'chapter') {
+    const editors = (item.editor || []).map(name => `${initialsOf(name.given).split('').map(l => `${l}.`).join(' ')} ${name.family}`);
+    const editorText = editors.length ? `In ${editors.length > 1 ? `${editors.slice(0, -1).join(', ')}, & ${editors[editors.length - 1]}` : editors[0]} (Eds.), ` : 'In ';
+    return `${lead} ${editorText}${item['container-title']} (p. ${item.page}). ${item.publisher}.`;
+  }
+
+  const volume = item.volume ? `, ${item.volume}${item.issue ? `(${item.issue})` : ''}` : '';
+  const pages = item.page ? `, ${item.page.replace('-', '–')}` : '';
+  const link = item.DOI ? ` https://doi.org/${item.DOI}` : item.URL ? ` ${item.URL}` : '';
+  return `${lead} ${item['container-title']}${volume}${pages}.${link}`;
+};
+
+/**
+ * Serializes articles and pharmacopoeia references in the requested format.
+ * Formatted styles produce one numbered (Vancouver) or plain (APA) entry per line.
+ */
+export const exportCitations = (
+  articles: PubMedArticle[],
+  format: CitationFormat,
+  pharmacopoeiaReferences: PharmacopoeiaReference[] = []
+): string => {
+  const items = [...articles.map(articleToCsl), ...pharmacopoeiaReferences.map(pharmacopoeiaToCsl)];
+
+  switch (format) {
+    case 'csl-json':
+      return JSON.stringify(items, null, 2);
+    case 'bibtex': {
+      const keys = bibtexKeys(items);
+      return items.map((item, i) => toBibtex(item, keys[i])).join('\n\n');
+    }
+    case 'ris':
+      return items.map(toRis).join('\n');
+    case 'vancouver':
+      return items.map((item, i) => `${i + 1}. ${toVancouver(item)}`).join('\n');
+    case 'apa':
+      return items.map(toApa).join('\n\n');
+  }
+};
+
+/**
+ * The articles and pharmacopoeia pages an answer cited, limited to citations
+ * that were verified against the retrieved context
+ */
+export const citedReferences = (
+  report: CitationReport,
+  articles: PubMedArticle[]
+): { articles: PubMedArticle[]; pharmacopoeia: PharmacopoeiaReference[] } => {
+  const verified = report.checks.filter(check => check.status === 'verified');
+  const citedIds = new Set(verified.map(check => check.citation.split(' §')[0].replace(/^PMID:/, '')));
+
+  const pharmacopoeia = verified
+    .filter(check => check.type === 'AHP' || check.type === 'WAP')
+    .map(check => ({ source: check.type as PharmacopoeiaReference['source'], page: parseInt(check.citation.replace(/^\w+:Page/, ''), 10) }))
+    .filter(reference => !isNaN(reference.page));
+
+  return { articles: articles.filter(article => citedIds.has(article.pmid)), pharmacopoeia };
+};
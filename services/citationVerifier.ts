@@ -0,0 +1,188 @@
+import { PubMedArticle, CitationCheck, CitationReport, StructuredAnswer, PharmacopoeiaPage } from '../types';
+import { FULL_TEXT_SECTION_LABELS } from './fullTextService';
+
+interface ParsedCitation {
+  citation: string; // Normalized form used as the report key
+  type: CitationCheck['type'];
+  id: string | null; // PMID, source-prefixed ID or page number; null when the citation is malformed
+  section?: string; // Full-text section of a PMID citation, e.g. "Results"
+}
+
+// A bracketed citation group: [PMID:123], [PMID:123 §Results, PMID:456], [AHP:Page24; WAP:Page3], [AJOL:700001]
+const CITATION_GROUP_PATTERN = /\[((?:PMID|EPMC|AJOL|AHP|WAP)\s*:[^\]]*)\]/gi;
+
+// Record IDs of the non-PubMed literature sources, e.g. "AJOL:700001", "EPMC:AGR-IND600000001"
+const SOURCE_ID_PATTERNS: Record<string, RegExp> = {
+  AJOL: /^\d+$/,
+  EPMC: /^[A-Z]+-[A-Za-z0-9]+$/,
+};
+
+/**
+ * Parses the tokens of one citation group. Bare values inherit the type of the
+ * preceding token, so "[PMID:123, 456]" yields two PMIDs.
+ */
+const parseCitationGroup = (group: string): ParsedCitation[] => {
+  const citations: ParsedCitation[] = [];
+  let currentType: CitationCheck['type'] | null = null;
+
+  for (const rawToken of group.split(/[,;]/)) {
+    const token = rawToken.trim();
+    if (!token) continue;
+
+    const typed = token.match(/^(PMID|EPMC|AJOL|AHP|WAP)\s*:\s*(.*)$/i);
+    const type = typed ? typed[1].toUpperCase() as CitationCheck['type'] : currentType;
+    const value = (typed ? typed[2] : token).trim();
+    if (!type) continue;
+    currentType = type;
+
+    if (type === 'PMID') {
+      const match = value.match(/^(\d+)(?:\s*§\s*([A-Za-z]+))?$/);
+      const pmid = match?.[1] ?? null;
+      const section = match?.[2] ? match[2][0].toUpperCase() + match[2].slice(1).toLowerCase() : undefined;
+      citations.push({ citation: `PMID:${pmid ?? value}${section ? ` §${section}` : ''}`, type, id: pmid, section });
+    } else if (type === 'EPMC' || type === 'AJOL') {
+      const citation = `${type}:${value.toUpperCase()}`;
+      citations.push({ citation, type, id: SOURCE_ID_PATTERNS[type].test(value.toUpperCase()) ? citation : null });
+    } else {
+      const page = value.match(/^(?:Page|p\.?)?\s*(\d+)$/i)?.[1] ?? null;
+      citations.push({ citation: `${type}:Page${page ?? value}`, type, id: page });
+    }
+  }
+
+  return citations;
+};
+
+/**
+ * Extracts every [PMID:...], [EPMC:...], [AJOL:...], [AHP:PageX] and [WAP:PageX]
+ * citation from an answer
+ */
+export const extractCitations = (text: string): ParsedCitation[] => {
+  const citations: ParsedCitation[] = [];
+  for (const match of text.matchAll(CITATION_GROUP_PATTERN)) {
+    citations.push(...parseCitationGroup(match[1]));
+  }
+  return citations;
+};
+
+/**
+ * Cross-checks citations against the articles and pharmacopoeia chunks that
+ * were actually placed in the model's context
+ */
+const buildReport = (
+  citations: ParsedCitation[],
+  articles: PubMedArticle[],
+  herbalPages: PharmacopoeiaPage[]
+): CitationReport => {
+  const contextPmids = new Set(articles.map(article => article.pmid));
+  // "PMID §Section" pairs whose full-text passages were in the context
+  const contextSections = new Set(articles.flatMap(article =>
+    (article.fullTextPassages || []).map(passage => `${article.pmid} §${FULL_TEXT_SECTION_LABELS[passage.section]}`)
+  ));
+  const contextPages = new Set(herbalPages.map(page => `${page.source}:Page${page.page}`));
+  const checks = new Map<string, CitationCheck>();
+
+  for (const { citation, type, id, section } of citations) {
+    const existing = checks.get(citation);
+    if (existing) {
+      existing.occurrences++;
+      continue;
+    }
+
+    let reason: string | undefined;
+    if (id === null) {
+      reason = type === 'PMID' ? 'Not a valid PubMed ID'
+        : type === 'EPMC' || type === 'AJOL' ? `Not a valid ${type} record ID`
+        : 'Not a valid pharmacopoeia page reference';
+    } else if (type === 'PMID' && !contextPmids.has(id)) {
+      reason = `PMID ${id} was not among the ${articles.length} retrieved articles`;
+    } else if (type === 'PMID' && section && !contextSections.has(`${id} §${section}`)) {
+      reason = `No ${section} excerpt of PMID ${id} was in the retrieved full text`;
+    } else if ((type === 'EPMC' || type === 'AJOL') && !contextPmids.has(id)) {
+      reason = `${id} was not among the ${articles.length} retrieved articles`;
+    } else if ((type === 'AHP' || type === 'WAP') && !contextPages.has(citation)) {
+      reason = `Page ${id} of the ${type} was not in the retrieved pharmacopoeia context`;
+    }
+
+    checks.set(citation, {
+      citation,
+      type,
+      status: reason ? 'fabricated' : 'verified',
+      reason,
+      occurrences: 1
+    });
+  }
+
+  const allChecks = Array.from(checks.values());
+  return {
+    checks: allChecks,
+    verifiedCount: allChecks.filter(check => check.status === 'verified').length,
+    fabricatedCount: allChecks.filter(check => check.status === 'fabricated').length
+  };
+};
+
+/**
+ * Verifies the citations in a markdown answer
+ */
+export const verifyAnswerCitations = (
+  text: string,
+  articles: PubMedArticle[],
+  herbalPages: PharmacopoeiaPage[]
+): CitationReport => buildReport(extractCitations(text), articles, herbalPages);
+
+/**
+ * Verifies the citations attached to the claims, safety items and preparations
+ * of a structured answer
+ */
+export const verifyStructuredCitations = (
+  answer: StructuredAnswer,
+  articles: PubMedArticle[],
+  herbalPages: PharmacopoeiaPage[]
+): CitationReport => {
+  const citations = [...answer.claims, ...answer.safety, ...answer.preparations]
+    .flatMap(item => item.citations)
+    .flatMap(citation => parseCitationGroup(citation));
+  return buildReport(citations, articles, herbalPages);
+};
+
+/**
+ * Rewrites citation groups, keeping verified citations and passing fabricated
+ * ones to `onFabricated` (which returns their replacement, or null to drop them)
+ */
+const rewriteCitations = (
+  text: string,
+  report: CitationReport,
+  onFabricated: (citation: string) => string | null
+): string => {
+  const fabricated = new Set(
+    report.checks.filter(check => check.status === 'fabricated').map(check => check.citation)
+  );
+  if (fabricated.size === 0) return text;
+
+  return text.replace(CITATION_GROUP_PATTERN, (match, group: string) => {
+    const parsed = parseCitationGroup(group);
+    if (!parsed.some(({ citation }) => fabricated.has(citation))) return match;
+
+    const kept = parsed
+      .filter(({ citation }) => !fabricated.has(citation))
+      .map(({ citation }) => citation);
+    const replaced = parsed
+      .filter(({ citation }) => fabricated.has(citation))
+      .map(({ citation }) => onFabricated(citation))
+      .filter((replacement): replacement is string => replacement !== null);
+
+    return [kept.length > 0 ? `[${kept.join(', ')}]` : '', ...replaced].filter(Boolean).join(' ');
+  });
+};
+
+/**
+ * Marks fabricated citations in place so readers can see them, e.g.
+ * "[PMID:123, PMID:999]" -> "[PMID:123] ~~PMID:999~~ ⚠️"
+ */
+export const flagFabricatedCitations = (text: string, report: CitationReport): string =>
+  rewriteCitations(text, report, citation => `~~${citation}~~ ⚠️`);
+
+/**
+ * Removes fabricated citations, leaving only the ones found in the context
+ */
+export const stripFabricatedCitations = (text: string, report: CitationReport): string =>
+  rewriteCitations(text, report, () => null);
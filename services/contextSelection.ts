@@ -0,0 +1,220 @@
+import { PubMedArticle, FullTextPassage, LLMProvider } from '../types';
+import { Embedder } from '../src/herbalTypes';
+import { getDefaultEmbedder, EmbeddingModelMissingError, reportEmbeddingModelMissing } from '../src/herbalEmbedder';
+import { understandQuery } from './queryUnderstanding';
+import { partitionRetracted } from './retractions';
+
+/**
+ * Article-context token budgets per provider. Groq's free tier caps tokens per
+ * minute well below Llama 3.3's window, so it gets far less than Gemini.
+ */
+export const CONTEXT_TOKEN_BUDGETS: Record<string, number> = {
+  groq: 6000,
+  gemini: 24000,
+  local: 4000,  // Small local models often run with an 8k window
+};
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+const ARTICLE_OVERHEAD_TOKENS = 40;  // ID, date, study design and region lines
+const MIN_TRUNCATED_TOKENS = 120;    // Below this a truncated abstract says too little to cite
+const EMBEDDING_WEIGHT = 0.5;        // Share of the hybrid score taken by embedding similarity
+
+// BM25 parameters (Robertson & Zaragoza defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'was', 'were', 'are', 'has', 'have', 'had',
+  'its', 'not', 'but', 'been', 'which', 'their', 'than', 'also', 'into', 'can', 'what', 'how',
+  'does', 'use', 'used', 'using', 'study', 'studies', 'effect', 'effects'
+]);
+
+export interface RankedArticle {
+  article: PubMedArticle;
+  score: number;
+}
+
+export interface ContextSelection {
+  articles: PubMedArticle[];   // In rank order, possibly truncated to fit the budget
+  contextPmids: string[];      // Articles that made it into the context
+  omittedPmids: string[];      // Retrieved but left out for lack of budget
+  retractedPmids: string[];    // Retracted articles held back from the context
+  estimatedTokens: number;
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(term => term.length > 2 && !STOPWORDS.has(term));
+
+const articleText = (article: PubMedArticle): string =>
+  [article.title, article.abstract, ...(article.keywords || []), ...(article.meshHeadings || []).map(heading => heading.descriptor)]
+    .join(' ');
+
+// The question plus the scientific names and synonyms it resolves to
+const expandQuery = (query: string): string => {
+  const understanding = understandQuery(query);
+  const names = understanding.plants.flatMap(plant => [plant.scientificName, ...plant.synonyms]);
+  return [query, understanding.keywords, ...names].join(' ');
+};
+
+/**
+ * Okapi BM25 score of each document for the query terms
+ */
+export const bm25Scores = (queryTerms: string[], documents: string[][]): number[] => {
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+  const uniqueTerms = Array.from(new Set(queryTerms));
+  const documentFrequency = new Map(uniqueTerms.map(term => [term, documents.filter(doc => doc.includes(term)).length]));
+
+  return documents.map(doc => uniqueTerms.reduce((score, term) => {
+    const frequency = doc.filter(word => word === term).length;
+    if (frequency === 0) return score;
+    const df = documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+    const lengthNorm = 1 - BM25_B + BM25_B * (doc.length / (averageLength || 1));
+    return score + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+  }, 0));
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+/**
+ * Query-to-article embedding similarity, or null when the embedding model
+ * fails (the ranking then falls back to BM25 alone)
+ */
+const embeddingScores = async (embedder: Embedder, query: string, documents: string[]): Promise<number[] | null> => {
+  try {
+    const queryEmbedding = await embedder.embedQuery(query);
+    const documentEmbeddings = await embedder.embedDocuments(documents);
+    return documentEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding));
+  } catch (error) {
+    if (error instanceof EmbeddingModelMissingError) reportEmbeddingModelMissing(error);
+    else console.error(`Embedding similarity with ${embedder.model} failed, reranking with BM25 only:`, error);
+    return null;
+  }
+};
+
+const normalizeScores = (scores: number[]): number[] => {
+  const max = Math.max(...scores, 0);
+  return max > 0 ? scores.map(score => score / max) : scores.map(() => 0);
+};
+
+/**
+ * Orders articles by relevance to the query: BM25 over title, abstract,
+ * keywords and MeSH, blended with the embedding similarity of the shared
+ * embedder (see getDefaultEmbedder). `focusTerms` (e.g. toxicity terms for a
+ * safety question) join the query so studies that mention them rank higher.
+ */
+export const rerankArticles = async (
+  query: string,
+  articles: PubMedArticle[],
+  focusTerms: string[] = [],
+  embedder: Embedder = getDefaultEmbedder()
+): Promise<RankedArticle[]> => {
+  if (articles.length === 0) return [];
+
+  const expandedQuery = [expandQuery(query), ...focusTerms].join(' ');
+  const texts = articles.map(articleText);
+  const lexical = normalizeScores(bm25Scores(tokenize(expandedQuery), texts.map(tokenize)));
+  const semantic = await embeddingScores(embedder, expandedQuery, texts);
+
+  return articles
+    .map((article, i) => ({
+      article,
+      score: semantic ? (1 - EMBEDDING_WEIGHT) * lexical[i] + EMBEDDING_WEIGHT * Math.max(semantic[i], 0) : lexical[i]
+    }))
+    // Stable for ties, so equally relevant articles keep their search order
+    .map((ranked, index) => ({ ranked, index }))
+    .sort((a, b) => b.ranked.score - a.ranked.score || a.index - b.index)
+    .map(({ ranked }) => ranked);
+};
+
+type TokenCounter = LLMProvider['countTokens'];
+
+const articleTokens = (article: PubMedArticle, countTokens: TokenCounter): number =>
+  ARTICLE_OVERHEAD_TOKENS +
+  countTokens(`${article.title} ${article.abstract}`) +
+  (article.fullTextPassages || []).reduce((sum, passage) => sum + countTokens(passage.text), 0);
+
+// Cuts text to roughly `tokens` tokens, at a sentence boundary when one is near
+const truncateToTokens = (text: string, tokens: number, countTokens: TokenCounter): string => {
+  const total = countTokens(text);
+  if (total <= tokens) return text;
+  const maxChars = Math.floor(text.length * tokens / total);
+  const cut = text.slice(0, maxChars);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return `${sentenceEnd > maxChars / 2 ? cut.slice(0, sentenceEnd + 1) : cut.trimEnd()} [truncated]`;
+};
+
+// Drops full-text passages and shortens the abstract until the article fits
+const fitArticle = (article: PubMedArticle, tokens: number, countTokens: TokenCounter): PubMedArticle => {
+  const passages: FullTextPassage[] = [];
+  let remaining = tokens - ARTICLE_OVERHEAD_TOKENS - countTokens(`${article.title} ${article.abstract}`);
+  for (const passage of article.fullTextPassages || []) {
+    const passageTokens = countTokens(passage.text);
+    if (passageTokens > remaining) break;
+    passages.push(passage);
+    remaining -= passageTokens;
+  }
+
+  const abstractTokens = tokens - ARTICLE_OVERHEAD_TOKENS - countTokens(article.title);
+  return {
+    ...article,
+    abstract: truncateToTokens(article.abstract, abstractTokens, countTokens),
+    fullTextPassages: passages.length > 0 ? passages : undefined
+  };
+};
+
+/**
+ * Reranks the articles and keeps the most relevant ones that fit the
+ * provider's token budget, counted with the provider's tokenizer. For a
+ * failover chain ("groq>gemini") the smallest budget in the chain applies, so
+ * any provider that ends up answering can take it. The first article that no
+ * longer fits is truncated if enough budget remains; the rest are omitted.
+ * Retracted articles are left out unless `options.includeRetracted` is set.
+ */
+export const selectContextArticles = async (
+  query: string,
+  articles: PubMedArticle[],
+  provider: LLMProvider,
+  options: { includeRetracted?: boolean; focusTerms?: string[]; embedder?: Embedder } = {}
+): Promise<ContextSelection> => {
+  const budget = Number(process.env.CONTEXT_TOKEN_BUDGET)
+    || Math.min(...provider.id.split('>').map(id => CONTEXT_TOKEN_BUDGETS[id] || DEFAULT_TOKEN_BUDGET));
+  const { usable, retracted } = partitionRetracted(articles, options.includeRetracted);
+  if (retracted.length > 0) console.log(`Excluding ${retracted.length} retracted articles from the context`);
+  const ranked = await rerankArticles(query, usable, options.focusTerms, options.embedder);
+
+  const selected: PubMedArticle[] = [];
+  const omittedPmids: string[] = [];
+  let used = 0;
+
+  for (const { article } of ranked) {
+    const cost = articleTokens(article, provider.countTokens);
+    if (used + cost <= budget) {
+      selected.push(article);
+      used += cost;
+    } else if (budget - used >= MIN_TRUNCATED_TOKENS) {
+      const fitted = fitArticle(article, budget - used, provider.countTokens);
+      selected.push(fitted);
+      used += articleTokens(fitted, provider.countTokens);
+    } else {
+      omittedPmids.push(article.pmid);
+    }
+  }
+
+  console.log(`Context budget (${provider.id}): ${selected.length} of ${articles.length} articles, ~${used}/${budget} tokens`);
+  return {
+    articles: selected,
+    contextPmids: selected.map(article => article.pmid),
+    omittedPmids,
+    retractedPmids: retracted.map(article => article.pmid),
+    estimatedTokens: used
+  };
+};
@@ -0,0 +1,73 @@
+import { ChatMessage } from '../types';
+import { cleanQuery } from './queryUnderstanding';
+
+// Only the most recent turns are replayed to the model to keep prompts within token limits
+export const MAX_HISTORY_MESSAGES = 6;
+
+// Words that refine the current topic rather than introduce a new one,
+// e.g. "what about for children?" or "is it safe in pregnancy?"
+const FOLLOW_UP_ASPECTS = new Set([
+  'children', 'child', 'kids', 'infants', 'babies', 'pregnancy', 'pregnant', 'breastfeeding',
+  'elderly', 'adults', 'women', 'men', 'dose', 'dosage', 'doses', 'much', 'often', 'long',
+  'safe', 'safety', 'side', 'effects', 'toxicity', 'toxic', 'risk', 'risks', 'interaction',
+  'interactions', 'contraindications', 'prepare', 'preparation', 'prepared', 'boil', 'drink',
+  'take', 'taken', 'leaf', 'leaves', 'bark', 'root', 'roots', 'seed', 'seeds', 'evidence',
+  'studies', 'study', 'research', 'clinical', 'trials', 'human', 'humans', 'animal', 'animals',
+  'mechanism', 'work', 'works', 'compare', 'compared', 'better', 'more', 'explain', 'details',
+  'buy', 'market', 'grow', 'available', 'other', 'else', 'also', 'same', 'there', 'any',
+  'help', 'helps', 'treat', 'treats', 'good', 'bad', 'okay'
+]);
+
+// Pronouns that refer back to something already discussed
+const BACK_REFERENCE_PATTERN = /\b(it|its|this|that|these|those|they|them|their)\b/i;
+
+/**
+ * Returns the prior turns worth sending to the model: errors are dropped,
+ * only the last MAX_HISTORY_MESSAGES messages are kept and the result always
+ * opens with a user turn (Gemini rejects histories that start with the model).
+ */
+export const getConversationHistory = (history: ChatMessage[]): ChatMessage[] => {
+  const recent = history
+    .filter(msg => !msg.isError && msg.text.trim().length > 0)
+    .slice(-MAX_HISTORY_MESSAGES);
+  const firstUserTurn = recent.findIndex(msg => msg.role === 'user');
+  return firstUserTurn === -1 ? [] : recent.slice(firstUserTurn);
+};
+
+/**
+ * Builds the query used for pharmacopoeia retrieval.
+ * A follow-up like "what about for children?" carries no topic on its own,
+ * so earlier user questions are folded in.
+ */
+export const buildRetrievalQuery = (query: string, history: ChatMessage[]): string => {
+  const priorQuestions = history
+    .filter(msg => msg.role === 'user' && !msg.isError)
+    .map(msg => msg.text);
+  return [...priorQuestions, query].join(' ');
+};
+
+/**
+ * Decides whether a follow-up moves to a new subject that the already-fetched
+ * articles are unlikely to cover, in which case a fresh PubMed search is needed.
+ * e.g. "what about for children?" -> false, "what about moringa for diabetes?" -> true
+ */
+export const isTopicShift = (followUp: string, history: ChatMessage[]): boolean => {
+  const priorKeywords = new Set(
+    history
+      .filter(msg => msg.role === 'user' && !msg.isError)
+      .flatMap(msg => cleanQuery(msg.text).split(' '))
+      .filter(Boolean)
+  );
+
+  if (priorKeywords.size === 0) return true;
+
+  const newKeywords = cleanQuery(followUp)
+    .split(' ')
+    .filter(word => word && !FOLLOW_UP_ASPECTS.has(word) && !priorKeywords.has(word));
+
+  if (newKeywords.length === 0) return false;
+
+  // "Does it help with diabetes?" still talks about the same plant
+  const refersBack = BACK_REFERENCE_PATTERN.test(followUp.trim());
+  return !refersBack || newKeywords.length > 1;
+};
@@ -0,0 +1,149 @@
+import { PubMedArticle, EvidenceGrade, StudyDesign, EvidenceLevel } from '../types';
+
+interface DesignInfo {
+  label: string;
+  level: EvidenceLevel;
+}
+
+// Starting certainty per design, loosely following GRADE: randomized evidence
+// starts high, observational low, and indirect (animal, in vitro) evidence very low
+const DESIGNS: Record<StudyDesign, DesignInfo> = {
+  'meta-analysis': { label: 'Meta-analysis', level: 'high' },
+  'systematic-review': { label: 'Systematic Review', level: 'high' },
+  'randomized-trial': { label: 'Randomized Trial', level: 'high' },
+  'clinical-trial': { label: 'Clinical Trial', level: 'moderate' },
+  'observational': { label: 'Observational Study', level: 'low' },
+  'cohort': { label: 'Cohort Study', level: 'low' },
+  'case-control': { label: 'Case-Control Study', level: 'low' },
+  'cross-sectional': { label: 'Cross-sectional Study', level: 'low' },
+  'case-report': { label: 'Case Report', level: 'very-low' },
+  'ethnobotanical-survey': { label: 'Ethnobotanical Survey', level: 'very-low' },
+  'animal': { label: 'Animal Study', level: 'very-low' },
+  'in-vitro': { label: 'In Vitro Study', level: 'very-low' },
+  'phytochemical': { label: 'Phytochemical Analysis', level: 'very-low' },
+  'narrative-review': { label: 'Narrative Review', level: 'very-low' },
+  'other': { label: 'Other', level: 'very-low' },
+};
+
+export const EVIDENCE_LEVEL_LABELS: Record<EvidenceLevel, string> = {
+  'high': 'High',
+  'moderate': 'Moderate',
+  'low': 'Low',
+  'very-low': 'Very Low',
+};
+
+const LEVEL_RANK: Record<EvidenceLevel, number> = { 'high': 4, 'moderate': 3, 'low': 2, 'very-low': 1 };
+
+// PublicationType values, checked in order (an RCT that is also a "Review" stays an RCT)
+const PUBLICATION_TYPE_RULES: [RegExp, StudyDesign][] = [
+  [/^Meta-Analysis$/i, 'meta-analysis'],
+  [/^Systematic Review$/i, 'systematic-review'],
+  [/^(Randomized Controlled Trial|Pragmatic Clinical Trial|Equivalence Trial)$/i, 'randomized-trial'],
+  [/^(Clinical Trial|Controlled Clinical Trial|Clinical Trial, Phase I+V?)$/i, 'clinical-trial'],
+  [/^Observational Study$/i, 'observational'],
+  [/^Case Reports$/i, 'case-report'],
+  [/^Review$/i, 'narrative-review'],
+];
+
+// MeSH descriptors that reveal the design when the publication type is just "Journal Article"
+const MESH_RULES: [RegExp, StudyDesign][] = [
+  [/^(Cohort Studies|Prospective Studies|Retrospective Studies|Longitudinal Studies|Follow-Up Studies)$/i, 'cohort'],
+  [/^Case-Control Studies$/i, 'case-control'],
+  [/^Cross-Sectional Studies$/i, 'cross-sectional'],
+  [/^(Ethnobotany|Surveys and Questionnaires|Interviews as Topic)$/i, 'ethnobotanical-survey'],
+  [/^(In Vitro Techniques|Cell Line|Cell Line, Tumor|Cells, Cultured|Microbial Sensitivity Tests)$/i, 'in-vitro'],
+];
+
+// Abstract/title cues, used only when structured metadata is silent
+const TEXT_RULES: [RegExp, StudyDesign][] = [
+  [/\bmeta-?analys[ie]s\b/i, 'meta-analysis'],
+  [/\bsystematic review\b/i, 'systematic-review'],
+  [/\brandomi[sz]ed\b[^.]*\b(trial|controlled|placebo)\b/i, 'randomized-trial'],
+  [/\b(clinical trial|patients were (treated|given|administered))\b/i, 'clinical-trial'],
+  [/\b(prospective|retrospective) (cohort|study)\b|\bcohort study\b/i, 'cohort'],
+  [/\bcase-control\b/i, 'case-control'],
+  [/\bcross-sectional\b/i, 'cross-sectional'],
+  [/\bcase report\b|\bwe (report|present) a case\b/i, 'case-report'],
+  [/\b(ethnobotanical|ethnomedicinal) (survey|study)\b|\b(questionnaires?|informants|respondents)\b/i, 'ethnobotanical-survey'],
+  [/\b(rats?|mice|mouse|wistar|rabbits?|guinea pigs?|in vivo)\b/i, 'animal'],
+  [/\bin vitro\b|\bcell lines?\b|\b(IC50|MIC)\b|\bzones? of inhibition\b/i, 'in-vitro'],
+  [/\b(phytochemical screening|GC-MS|HPLC|proximate (analysis|composition))\b/i, 'phytochemical'],
+];
+
+const matchRule = (values: string[], rules: [RegExp, StudyDesign][]): StudyDesign | null => {
+  for (const [pattern, design] of rules) {
+    if (values.some(value => pattern.test(value))) return design;
+  }
+  return null;
+};
+
+const buildGrade = (design: StudyDesign, basis: EvidenceGrade['basis']): EvidenceGrade => ({
+  design,
+  designLabel: DESIGNS[design].label,
+  level: DESIGNS[design].level,
+  basis,
+});
+
+/**
+ * Assigns a study design and GRADE-like certainty level to an article.
+ * PublicationType is trusted first, then MeSH headings, then abstract cues.
+ */
+export const gradeArticle = (article: PubMedArticle): EvidenceGrade => {
+  const publicationDesign = matchRule(article.publicationTypes || [], PUBLICATION_TYPE_RULES);
+  if (publicationDesign && publicationDesign !== 'narrative-review') {
+    return buildGrade(publicationDesign, 'publication-type');
+  }
+
+  const descriptors = (article.meshHeadings || []).map(heading => heading.descriptor);
+  const meshDesign = matchRule(descriptors, MESH_RULES);
+  if (meshDesign) return buildGrade(meshDesign, 'mesh');
+
+  // "Animals" without "Humans" marks preclinical work even when the design is not indexed
+  if (descriptors.includes('Animals') && !descriptors.includes('Humans')) {
+    return buildGrade('animal', 'mesh');
+  }
+
+  const text = `${article.title}. ${article.abstract}`;
+
+  // Many systematic reviews are only indexed as "Review"
+  if (publicationDesign) {
+    const reviewDesign = matchRule([text], TEXT_RULES.slice(0, 2));
+    return reviewDesign ? buildGrade(reviewDesign, 'abstract') : buildGrade(publicationDesign, 'publication-type');
+  }
+
+  const textDesign = matchRule([text], TEXT_RULES);
+  return buildGrade(textDesign || 'other', textDesign ? 'abstract' : 'none');
+};
+
+/**
+ * Sort comparator: strongest evidence first, then most recent
+ */
+export const compareByEvidence = (a: PubMedArticle, b: PubMedArticle): number => {
+  const rankDifference = LEVEL_RANK[gradeArticle(b).level] - LEVEL_RANK[gradeArticle(a).level];
+  if (rankDifference !== 0) return rankDifference;
+
+  const yearOf = (article: PubMedArticle) => parseInt(article.pubDate.match(/\d{4}/)?.[0] || '0', 10);
+  return yearOf(b) - yearOf(a);
+};
+
+/**
+ * One-line grade for the LLM context, e.g. "Randomized Trial (certainty: High)"
+ */
+export const formatGradeForPrompt = (grade: EvidenceGrade): string =>
+  `${grade.designLabel} (certainty: ${EVIDENCE_LEVEL_LABELS[grade.level]})`;
+
+/**
+ * Summarizes the evidence base so the model's Research Quality section is
+ * grounded in counts rather than guesses, e.g. "2 × Randomized Trial, 5 × Animal Study"
+ */
+export const summarizeEvidence = (articles: PubMedArticle[]): string => {
+  const counts = new Map<string, number>();
+  articles
+    .map(gradeArticle)
+    .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level])
+    .forEach(grade => counts.set(grade.designLabel, (counts.get(grade.designLabel) || 0) + 1));
+
+  return Array.from(counts.entries())
+    .map(([label, count]) => `${count} × ${label}`)
+    .join(', ');
+};
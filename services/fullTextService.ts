@@ -0,0 +1,129 @@
+import { PubMedArticle, PmcFullText, FullTextPassage, FullTextSectionKind } from '../types';
+import { fetchFullText } from './pubmedService';
+import { understandQuery } from './queryUnderstanding';
+
+export const FULL_TEXT_SECTION_LABELS: Record<FullTextSectionKind, string> = {
+  methods: 'Methods',
+  results: 'Results',
+  discussion: 'Discussion',
+};
+
+const MAX_PASSAGE_CHARS = 1200;
+const DEFAULT_MAX_ARTICLES = 5;
+const DEFAULT_PASSAGES_PER_ARTICLE = 3;
+
+/**
+ * Packs a section's paragraphs into passages of up to MAX_PASSAGE_CHARS,
+ * splitting oversized paragraphs at sentence boundaries
+ */
+const chunkParagraphs = (paragraphs: string[]): string[] => {
+  const pieces = paragraphs.flatMap(paragraph =>
+    paragraph.length <= MAX_PASSAGE_CHARS ? [paragraph] : paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]
+  );
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > MAX_PASSAGE_CHARS) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += (current ? ' ' : '') + piece.trim();
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+/**
+ * Splits a full text into section-tagged passages
+ */
+export const chunkFullText = (fullText: PmcFullText): FullTextPassage[] =>
+  fullText.sections.flatMap(section =>
+    chunkParagraphs(section.paragraphs).map(text => ({ section: section.kind, heading: section.title, text }))
+  );
+
+// Words to look for in passages: query keywords plus resolved scientific names and synonyms
+const queryTerms = (query: string): string[] => {
+  const understanding = understandQuery(query);
+  const names = understanding.plants.flatMap(plant => [plant.scientificName, ...plant.synonyms]);
+  return Array.from(new Set(
+    [understanding.keywords, ...names]
+      .flatMap(term => term.toLowerCase().split(/\s+/))
+      .filter(term => term.length > 2)
+  ));
+};
+
+/**
+ * Scores a passage by how many query terms it mentions (with diminishing
+ * returns for repeats), so passages naming both the plant and the topic come first
+ */
+const scorePassage = (passage: FullTextPassage, terms: string[]): number => {
+  const text = passage.text.toLowerCase();
+  return terms.reduce((score, term) => {
+    const occurrences = text.split(term).length - 1;
+    return score + (occurrences > 0 ? 1 + Math.log(occurrences) : 0);
+  }, 0);
+};
+
+/**
+ * Picks the passages most relevant to the query, keeping document order
+ */
+export const selectRelevantPassages = (
+  query: string,
+  passages: FullTextPassage[],
+  limit: number = DEFAULT_PASSAGES_PER_ARTICLE
+): FullTextPassage[] => {
+  const terms = queryTerms(query);
+  const ranked = passages
+    .map((passage, index) => ({ passage, index, score: scorePassage(passage, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return ranked.sort((a, b) => a.index - b.index).map(({ passage }) => passage);
+};
+
+/**
+ * Fetches PMC open-access full text for the first few articles that have a
+ * PMCID and attaches the passages most relevant to the query. Articles without
+ * open-access full text are returned unchanged.
+ */
+export const attachFullText = async (
+  query: string,
+  articles: PubMedArticle[],
+  options: { maxArticles?: number; passagesPerArticle?: number } = {}
+): Promise<PubMedArticle[]> => {
+  const { maxArticles = DEFAULT_MAX_ARTICLES, passagesPerArticle = DEFAULT_PASSAGES_PER_ARTICLE } = options;
+  const candidates = new Set(
+    // Section citations ("PMID:123 §Results") only exist for PubMed records
+    articles.filter(article => article.pmcid && /^\d+$/.test(article.pmid) && !article.fullTextPassages).slice(0, maxArticles).map(article => article.pmid)
+  );
+  if (candidates.size === 0) return articles;
+
+  const enriched: PubMedArticle[] = [];
+  for (const article of articles) {
+    if (!candidates.has(article.pmid)) {
+      enriched.push(article);
+      continue;
+    }
+
+    const fullText = await fetchFullText(article.pmcid!);
+    const passages = fullText ? selectRelevantPassages(query, chunkFullText(fullText), passagesPerArticle) : [];
+    enriched.push(passages.length > 0 ? { ...article, fullTextPassages: passages } : article);
+  }
+
+  console.log(`Full text used for ${enriched.filter(article => article.fullTextPassages?.length).length} of ${candidates.size} PMC articles`);
+  return enriched;
+};
+
+/**
+ * Full-text excerpts for the LLM context, each labelled with the citation to use
+ */
+export const formatFullTextForPrompt = (article: PubMedArticle): string => {
+  if (!article.fullTextPassages?.length) return '';
+
+  const excerpts = article.fullTextPassages
+    .map(passage => `[PMID:${article.pmid} §${FULL_TEXT_SECTION_LABELS[passage.section]}] (${passage.heading}) ${passage.text}`)
+    .join('\n');
+  return `FULL TEXT EXCERPTS (PMC open access):\n${excerpts}\n`;
+};
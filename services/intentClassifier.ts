@@ -0,0 +1,96 @@
+import { QueryIntent, IntentClassification } from '../types';
+import { understandQuery, knownPlantsIn } from './queryUnderstanding';
+
+export interface IntentRoute {
+  label: string;                // Shown with the question
+  searchesLiterature: boolean;  // false: answered from stored names and pharmacopoeia data only (see searchesLiterature)
+  focusTerms: string[];         // Added to the rerank query so studies mentioning them rank first
+}
+
+export const INTENT_ROUTES: Record<QueryIntent, IntentRoute> = {
+  'name-lookup': { label: 'Name lookup', searchesLiterature: false, focusTerms: [] },
+  'therapeutic-use': { label: 'Therapeutic use', searchesLiterature: true, focusTerms: [] },
+  'safety': {
+    label: 'Safety & toxicity',
+    searchesLiterature: true,
+    focusTerms: ['toxicity', 'toxic', 'safety', 'adverse', 'ld50', 'acute', 'subchronic', 'hepatotoxicity', 'nephrotoxicity', 'genotoxicity'],
+  },
+  'preparation': {
+    label: 'Preparation & dosage',
+    searchesLiterature: true,
+    focusTerms: ['preparation', 'decoction', 'infusion', 'aqueous', 'extract', 'dose', 'dosage'],
+  },
+  'comparison': { label: 'Comparison', searchesLiterature: true, focusTerms: ['compared', 'comparative', 'versus'] },
+  'condition-to-plants': { label: 'Plants for a condition', searchesLiterature: true, focusTerms: ['ethnobotanical', 'survey', 'medicinal', 'plants'] },
+};
+
+export const QUERY_INTENTS = Object.keys(INTENT_ROUTES) as QueryIntent[];
+
+const LANGUAGES = 'yoruba|igbo|hausa|edo|efik|ibibio|fulfulde|urhobo|pidgin';
+
+// Cue patterns per intent; each distinct match counts once
+const INTENT_CUES: Record<QueryIntent, RegExp[]> = {
+  'name-lookup': [
+    new RegExp(`\\b(?:${LANGUAGES}|local|native|vernacular|common|english|scientific|botanical|nigerian)\\s+names?\\b`, 'g'),
+    /\bnames?\s+(?:for|of)\b/g,
+    /\bwhat\s+(?:is|are)\s+.+?\s+called\b/g,
+    new RegExp(`\\b(?:called|say)\\s+in\\s+(?:${LANGUAGES})\\b`, 'g'),
+    new RegExp(`\\bin\\s+(?:${LANGUAGES})\\s*\\??$`, 'g'),
+  ],
+  'safety': [
+    /\b(?:toxic\w*|safe(?:ty)?|side[\s-]effects?|adverse|poison\w*|overdose|harmful|dangerous|contraindicat\w*|interactions?|pregnan\w*|breastfeed\w*|hepatotox\w*|nephrotox\w*|ld50)\b/g,
+  ],
+  'preparation': [
+    /\b(?:prepar\w*|dosage|doses?|how\s+much|decoction|infusion|brew\w*|recipe|boil\w*|concoction|agbo|tincture|steep\w*)\b/g,
+    /\bhow\s+(?:to|do\s+i|should\s+i)\s+(?:make|take|use|drink|prepare)\b/g,
+  ],
+  'comparison': [
+    /\b(?:compar\w*|versus|vs\.?|better\s+than|difference\s+between|differs?\s+from)\b/g,
+    /\bwhich\s+is\s+(?:better|more\s+effective|safer|stronger)\b/g,
+  ],
+  'condition-to-plants': [
+    /\b(?:which|what)\s+(?:medicinal\s+)?(?:plants?|herbs?|leaves|roots|barks|remedies)\b/g,
+    /\b(?:plants?|herbs?|remedies)\s+(?:for|against|that\s+(?:treat|cure|help)|used\s+(?:for|to\s+treat))\b/g,
+  ],
+  'therapeutic-use': [
+    /\b(?:treat\w*|cures?|benefits?|good\s+for|help\w*\s+with|used?\s+for|effective|heal\w*)\b/g,
+  ],
+};
+
+// Tie-break order: the more specific intent wins
+const PRIORITY: QueryIntent[] = ['name-lookup', 'comparison', 'safety', 'preparation', 'condition-to-plants', 'therapeutic-use'];
+
+// "Vernonia amygdalina", but not a capitalized question word like "Which plants"
+const BINOMIAL_PATTERN = /\b([A-Z][a-z]+) [a-z]{4,}\b/g;
+const QUESTION_WORDS = new Set(['which', 'what', 'how', 'is', 'are', 'can', 'does', 'do', 'should', 'why', 'where', 'when', 'who', 'tell', 'list', 'name', 'give', 'show', 'find', 'compare']);
+
+const namesPlant = (query: string): boolean =>
+  understandQuery(query).plants.length > 0 ||
+  Array.from(query.matchAll(BINOMIAL_PATTERN)).some(match => !QUESTION_WORDS.has(match[1].toLowerCase()));
+
+/**
+ * Classifies a question by the cue phrases it contains. Asking which plants
+ * help a condition only counts when no specific plant is named; questions
+ * with no cues default to therapeutic use.
+ */
+export const classifyIntent = (query: string): IntentClassification => {
+  const text = query.toLowerCase().trim();
+  const specificPlant = namesPlant(query);
+
+  let best: IntentClassification = { intent: 'therapeutic-use', cues: [] };
+  PRIORITY.forEach(intent => {
+    if (intent === 'condition-to-plants' && specificPlant) return;
+    const cues = Array.from(new Set(INTENT_CUES[intent].flatMap(pattern => Array.from(text.matchAll(pattern), match => match[0].trim()))));
+    if (cues.length > best.cues.length) best = { intent, cues };
+  });
+
+  return best;
+};
+
+/**
+ * Whether answering needs the literature search. A name lookup skips it only
+ * when the lexicon knows the plant; for any other plant the articles found
+ * are what the names get looked up from.
+ */
+export const searchesLiterature = (query: string, intent: QueryIntent): boolean =>
+  INTENT_ROUTES[intent].searchesLiterature || knownPlantsIn(query).length === 0;
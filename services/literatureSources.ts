@@ -0,0 +1,162 @@
+import {
+  PubMedArticle,
+  LiteratureSource,
+  LiteratureSourceId,
+  LiteratureSearchResult,
+  CombinedSearchResult,
+  SearchOptions,
+  SearchFilters
+} from '../types';
+import { BASE_URL, pubmedSource, searchFiltersToParams } from './pubmedService';
+import { understandQuery, buildCoreQuery } from './queryUnderstanding';
+
+export const LITERATURE_SOURCE_LABELS: Record<LiteratureSourceId, string> = {
+  pubmed: 'PubMed',
+  europepmc: 'Europe PMC',
+  ajol: 'AJOL',
+};
+
+const NO_ABSTRACT = 'No abstract available.';
+
+/**
+ * Fetches normalized articles from one of the non-PubMed proxy routes
+ */
+const fetchSourceArticles = async (route: string, term: string, filters?: SearchFilters): Promise<PubMedArticle[]> => {
+  const url = `${BASE_URL}/${route}?term=${encodeURIComponent(term)}${searchFiltersToParams(filters)}`;
+
+  try {
+    console.log("Making literature search request to:", url);
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`${route} failed with status ${response.status}:`, await response.text());
+      return [];
+    }
+
+    const articles = await response.json();
+    if (!Array.isArray(articles)) {
+      console.error(`Invalid response format from ${route}:`, articles);
+      return [];
+    }
+
+    console.log(`${route} returned ${articles.length} articles (cache: ${response.headers.get('X-Cache') || 'n/a'})`);
+    return articles;
+  } catch (error) {
+    console.error(`Literature search error (${route}):`, error);
+    return [];
+  }
+};
+
+export const europePmcSource: LiteratureSource = {
+  id: 'europepmc',
+  label: 'Europe PMC',
+  search: async (query, options, onProgress) => {
+    if (onProgress) onProgress('Searching Europe PMC (Agricola, preprints, theses)...');
+    const term = `(${buildCoreQuery(understandQuery(query))}) AND (Nigeria OR Nigerian)`;
+    return { articles: await fetchSourceArticles('europepmc-search', term, options.filters) };
+  },
+};
+
+// AJOL only holds African journals, so no location clause is needed
+export const ajolSource: LiteratureSource = {
+  id: 'ajol',
+  label: 'African Journals Online',
+  search: async (query, options, onProgress) => {
+    if (onProgress) onProgress('Searching African Journals Online...');
+    const term = buildCoreQuery(understandQuery(query));
+    return { articles: await fetchSourceArticles('ajol-search', term, options.filters) };
+  },
+};
+
+// Searched in this order; earlier sources win when records are merged
+export const LITERATURE_SOURCES: LiteratureSource[] = [pubmedSource, europePmcSource, ajolSource];
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Keys that identify the same work across databases
+const dedupeKeys = (article: PubMedArticle): string[] => {
+  const keys: string[] = [];
+  if (/^\d+$/.test(article.pmid)) keys.push(`pmid:${article.pmid}`);
+  if (article.doi) keys.push(`doi:${article.doi.toLowerCase()}`);
+  const title = normalizeTitle(article.title);
+  if (title.length > 20) keys.push(`title:${title}`);  // Short titles ("Editorial") collide too easily
+  return keys;
+};
+
+// Keeps the first record but borrows identifiers and text it lacks from the duplicate
+const fillGaps = (primary: PubMedArticle, duplicate: PubMedArticle): PubMedArticle => ({
+  ...primary,
+  doi: primary.doi || duplicate.doi,
+  pmcid: primary.pmcid || duplicate.pmcid,
+  abstract: primary.abstract === NO_ABSTRACT ? duplicate.abstract : primary.abstract,
+  keywords: primary.keywords?.length ? primary.keywords : duplicate.keywords,
+});
+
+/**
+ * Merges result lists in order, collapsing records that share a PMID, DOI or
+ * normalized title
+ */
+export const mergeLiteratureResults = (lists: PubMedArticle[][]): PubMedArticle[] => {
+  const merged: PubMedArticle[] = [];
+  const positions = new Map<string, number>();
+
+  for (const article of lists.flat()) {
+    const keys = dedupeKeys(article);
+    const existing = keys.map(key => positions.get(key)).find(position => position !== undefined);
+
+    if (existing !== undefined) {
+      merged[existing] = fillGaps(merged[existing], article);
+      keys.forEach(key => positions.set(key, existing));
+    } else {
+      keys.forEach(key => positions.set(key, merged.length));
+      merged.push(article);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Searches every source in `options.sources` (PubMed only by default) and
+ * merges the results. A failing source is logged and skipped.
+ */
+export const searchLiterature = async (
+  query: string,
+  onProgress?: (msg: string) => void,
+  options: SearchOptions = {}
+): Promise<CombinedSearchResult> => {
+  const enabled = options.sources || ['pubmed'];
+  const results: { source: LiteratureSource; result: LiteratureSearchResult }[] = [];
+
+  for (const source of LITERATURE_SOURCES.filter(source => enabled.includes(source.id))) {
+    try {
+      const result = await source.search(query, options, onProgress);
+      results.push({ source, result: { ...result, articles: result.articles.map(article => ({ source: source.id, ...article })) } });
+    } catch (error) {
+      console.error(`${source.label} search failed:`, error);
+    }
+  }
+
+  const sourceCounts: CombinedSearchResult['sourceCounts'] = {};
+  results.forEach(({ source, result }) => { sourceCounts[source.id] = result.articles.length; });
+
+  const articles = mergeLiteratureResults(results.map(({ result }) => result.articles));
+  console.log('Literature sources:', JSON.stringify(sourceCounts), `-> ${articles.length} after deduplication`);
+
+  return {
+    articles,
+    tiers: results.find(({ result }) => result.tiers)?.result.tiers || [],
+    sourceCounts,
+  };
+};
+
+/**
+ * The citation an answer should use for an article: "PMID:123" for PubMed
+ * records, or the source-prefixed ID itself, e.g. "AJOL:700001"
+ */
+export const citationKeyFor = (article: PubMedArticle): string =>
+  /^\d+$/.test(article.pmid) ? `PMID:${article.pmid}` : article.pmid;
+
+export const articleUrl = (article: PubMedArticle): string =>
+  /^\d+$/.test(article.pmid) ? `https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/` : article.url || '#';
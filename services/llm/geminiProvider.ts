@@ -0,0 +1,72 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, LLMMessage, LLMRequestOptions } from '../../types';
+import { approximateTokenCount, toProviderError } from './provider';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string;
+}
+
+/**
+ * Gemini takes the system prompt separately and calls the assistant "model";
+ * the last user message is what gets sent, the rest becomes chat history
+ */
+const toGeminiChat = (messages: LLMMessage[]) => {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+  const turns = messages.filter(message => message.role !== 'system');
+  const last = turns[turns.length - 1];
+  const history = turns.slice(0, -1).map(message => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: message.content }],
+  }));
+  return { system, history, prompt: last?.content || '' };
+};
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderConfig): LLMProvider => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const startChat = (messages: LLMMessage[], options: LLMRequestOptions) => {
+    const { system, history, prompt } = toGeminiChat(messages);
+    const chat = genAI.getGenerativeModel({
+      model,
+      ...(system ? { systemInstruction: system } : {}),
+      generationConfig: {
+        temperature: options.temperature ?? 0.4,
+        maxOutputTokens: options.maxTokens ?? 2500,
+        ...(options.json ? { responseMimeType: 'application/json' } : {}),
+      },
+    }).startChat({ history });
+    return { chat, prompt };
+  };
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    complete: async (messages, options = {}) => {
+      try {
+        const { chat, prompt } = startChat(messages, options);
+        const result = await chat.sendMessage(prompt, { signal: options.signal });
+        return result.response.text();
+      } catch (error) {
+        throw toProviderError(error, 'gemini');
+      }
+    },
+    stream: async function* (messages, options = {}) {
+      let result;
+      try {
+        const { chat, prompt } = startChat(messages, options);
+        result = await chat.sendMessageStream(prompt, { signal: options.signal });
+      } catch (error) {
+        throw toProviderError(error, 'gemini');
+      }
+      for await (const chunk of result.stream) {
+        if (options.signal?.aborted) return;
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+    countTokens: approximateTokenCount,
+  };
+};
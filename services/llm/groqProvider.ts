@@ -0,0 +1,49 @@
+import Groq from 'groq-sdk';
+import { LLMProvider, LLMMessage, LLMRequestOptions } from '../../types';
+import { approximateTokenCount, toProviderError } from './provider';
+
+export const DEFAULT_GROQ_MODEL = 'llama-3.3-70b-versatile';
+
+export interface GroqProviderConfig {
+  apiKey: string;
+  model?: string;
+}
+
+export const createGroqProvider = ({ apiKey, model = DEFAULT_GROQ_MODEL }: GroqProviderConfig): LLMProvider => {
+  // Retries are left to the failover chain, which also knows about the other providers
+  const client = new Groq({ apiKey, maxRetries: 0 });
+
+  const request = (messages: LLMMessage[], options: LLMRequestOptions) => ({
+    messages,
+    model,
+    temperature: options.temperature ?? 0.4,
+    max_tokens: options.maxTokens ?? 2500,
+    ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    id: 'groq',
+    label: `Groq (${model})`,
+    complete: async (messages, options = {}) => {
+      try {
+        const completion = await client.chat.completions.create(request(messages, options), { signal: options.signal });
+        return completion.choices[0]?.message?.content || '';
+      } catch (error) {
+        throw toProviderError(error, 'groq');
+      }
+    },
+    stream: async function* (messages, options = {}) {
+      let stream;
+      try {
+        stream = await client.chat.completions.create({ ...request(messages, options), stream: true }, { signal: options.signal });
+      } catch (error) {
+        throw toProviderError(error, 'groq');
+      }
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+    countTokens: approximateTokenCount,
+  };
+};
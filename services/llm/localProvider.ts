@@ -0,0 +1,83 @@
+import { LLMProvider, LLMMessage, LLMRequestOptions } from '../../types';
+import { LLMProviderError, approximateTokenCount, toProviderError } from './provider';
+
+export const DEFAULT_LOCAL_MODEL = 'llama3.1:8b';
+
+export interface LocalProviderConfig {
+  baseUrl: string;  // OpenAI-compatible server root, e.g. "http://localhost:11434/v1" (Ollama) or "http://localhost:8080/v1" (llama.cpp)
+  model?: string;
+  apiKey?: string;  // Most local servers ignore it; some proxies require one
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API: Ollama, llama.cpp's
+ * server, vLLM, LM Studio
+ */
+export const createLocalProvider = ({ baseUrl, model = DEFAULT_LOCAL_MODEL, apiKey }: LocalProviderConfig): LLMProvider => {
+  const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const post = async (messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: options.temperature ?? 0.4,
+          max_tokens: options.maxTokens ?? 2500,
+          stream,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: options.signal,
+      });
+    } catch (error) {
+      throw toProviderError(error, 'local');
+    }
+
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new LLMProviderError(
+        `Local model server returned ${response.status}: ${await response.text()}`,
+        'local',
+        response.status,
+        retryAfter ? retryAfter * 1000 : undefined
+      );
+    }
+    return response;
+  };
+
+  return {
+    id: 'local',
+    label: `Local (${model})`,
+    complete: async (messages, options = {}) => {
+      const data = await (await post(messages, options, false)).json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    stream: async function* (messages, options = {}) {
+      const response = await post(messages, options, true);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+    countTokens: approximateTokenCount,
+  };
+};
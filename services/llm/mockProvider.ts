@@ -0,0 +1,78 @@
+import { LLMProvider, LLMMessage } from '../../types';
+import { approximateTokenCount } from './provider';
+
+// Context IDs the synthesis prompts label sources with
+const SOURCE_ID_PATTERN = /(?:ID: |SOURCE \[)(PMID:\d+|AJOL:\d+|EPMC:[A-Z]+-[A-Za-z0-9]+)/g;
+const PHARMACOPOEIA_PATTERN = /SOURCE: .*\((AHP|WAP)\)\s*\nPAGE: (\d+)/g;
+
+const contextCitations = (prompt: string): string[] => [
+  ...Array.from(prompt.matchAll(SOURCE_ID_PATTERN), match => match[1]),
+  ...Array.from(prompt.matchAll(PHARMACOPOEIA_PATTERN), match => `${match[1]}:Page${match[2]}`),
+];
+
+// The first binomial in the prompt's context data (past the response template), e.g. "Vernonia amygdalina"
+const firstPlant = (prompt: string): string => {
+  const context = prompt.slice(prompt.indexOf('CONTEXTUAL DATA') + 1);
+  return context.match(/\b([A-Z][a-z]+ [a-z]{4,})\b/)?.[1] || 'Unknown plant';
+};
+
+const mockMarkdown = (prompt: string): string => {
+  const citations = contextCitations(prompt);
+  const cite = (i: number) => citations.length ? ` [${citations[i % citations.length]}]` : '';
+  const plant = firstPlant(prompt);
+  return [
+    `**🌿 Summary: ${plant}**`,
+    '',
+    `This is a mock answer built from ${citations.length} context sources.${cite(0)}`,
+    '',
+    `**${plant}:** Findings reported in the retrieved research.${cite(1)}`,
+    '',
+    `**⚠️ Safety & Precautions**`,
+    '',
+    `* **Toxicity Warnings:** See the cited study.${cite(2)}`,
+  ].join('\n');
+};
+
+const mockStructured = (prompt: string): string => {
+  const citations = contextCitations(prompt);
+  const plant = firstPlant(prompt);
+  const cited = citations.length ? [citations[0]] : [];
+  return JSON.stringify({
+    summary: `This is a mock answer built from ${citations.length} context sources.`,
+    plants: [{ scientificName: plant, commonName: plant, localNames: {}, isNative: null }],
+    claims: cited.length ? [{ plant, claim: 'Findings reported in the retrieved research.', citations: cited }] : [],
+    safety: [],
+    preparations: [],
+    researchQuality: 'Mock provider: no evidence was assessed.',
+  });
+};
+
+// Plant name lookups get an entry with no local names, so nothing is invented
+const mockNameLookup = (prompt: string): string => {
+  const scientificName = prompt.match(/"scientificName": "([^"]+)"/)?.[1] || 'Unknown plant';
+  return JSON.stringify({ scientificName, commonName: scientificName, isNative: null, notes: null });
+};
+
+const respond = (messages: LLMMessage[], json: boolean): string => {
+  const prompt = messages.filter(message => message.role === 'user').map(message => message.content).pop() || '';
+  if (!json) return mockMarkdown(prompt);
+  return prompt.includes('"summary"') ? mockStructured(prompt) : mockNameLookup(prompt);
+};
+
+/**
+ * Deterministic stand-in for a real model: answers from the prompt alone, citing
+ * the context sources it was given, so the whole RAG pipeline can run offline.
+ * Select it with LLM_PROVIDERS=mock; never part of the default chain.
+ */
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  label: 'Mock model',
+  complete: async (messages, options = {}) => respond(messages, !!options.json),
+  stream: async function* (messages, options = {}) {
+    for (const word of respond(messages, !!options.json).split(/(?<=\s)/)) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  },
+  countTokens: approximateTokenCount,
+});
@@ -0,0 +1,130 @@
+import { LLMProvider, LLMMessage, LLMRequestOptions } from '../../types';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+/**
+ * An error from a provider call. `status` is the HTTP status when the API
+ * returned one; 429 and 5xx are worth retrying.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  get retryable(): boolean {
+    return this.status === 429 || (this.status !== undefined && this.status >= 500);
+  }
+}
+
+/**
+ * Wraps whatever an SDK threw, keeping its HTTP status and Retry-After hint
+ */
+export const toProviderError = (error: any, provider: string): LLMProviderError => {
+  if (error instanceof LLMProviderError) return error;
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  const retryAfter = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+  const retryAfterMs = retryAfter && !isNaN(Number(retryAfter)) ? Number(retryAfter) * 1000 : undefined;
+  return new LLMProviderError(error?.message || String(error), provider, status, retryAfterMs);
+};
+
+/**
+ * Rough token count (~4 characters per token); used by providers whose APIs
+ * have no cheap local tokenizer
+ */
+export const approximateTokenCount = (text: string): number => Math.ceil(text.length / 4);
+
+const isAbort = (error: unknown, signal?: AbortSignal) =>
+  signal?.aborted || (error as any)?.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// Exponential backoff with jitter, unless the API said how long to wait
+const backoffDelay = (attempt: number, baseDelayMs: number, error: LLMProviderError) =>
+  Math.min(error.retryAfterMs ?? baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs, MAX_DELAY_MS);
+
+export interface FailoverOptions {
+  maxRetries?: number;  // Retries per provider on 429/5xx before moving on
+  baseDelayMs?: number;
+}
+
+/**
+ * Combines providers into one that tries them in order. Each provider is
+ * retried with exponential backoff on 429/5xx; any other failure (bad key,
+ * unreachable local server) moves straight to the next provider. A stream
+ * only fails over before its first chunk, so an answer is never spliced from
+ * two models.
+ */
+export const createFailoverChain = (providers: LLMProvider[], options: FailoverOptions = {}): LLMProvider => {
+  if (providers.length === 0) throw new Error('No LLM providers are configured');
+  if (providers.length === 1) return providers[0];
+
+  const { maxRetries = DEFAULT_MAX_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS } = options;
+
+  // Runs `call` against each provider in turn, retrying retryable errors
+  async function* attempt<T>(
+    call: (provider: LLMProvider) => AsyncGenerator<T>,
+    signal?: AbortSignal
+  ): AsyncGenerator<T> {
+    const failures: string[] = [];
+
+    for (const provider of providers) {
+      for (let retry = 0; ; retry++) {
+        let started = false;
+        try {
+          for await (const value of call(provider)) {
+            started = true;
+            yield value;
+          }
+          return;
+        } catch (rawError) {
+          if (isAbort(rawError, signal) || started) throw rawError;
+
+          const error = toProviderError(rawError, provider.id);
+          if (error.retryable && retry < maxRetries) {
+            const delay = backoffDelay(retry, baseDelayMs, error);
+            console.warn(`${provider.label} returned ${error.status}, retrying in ${Math.round(delay)}ms (${retry + 1}/${maxRetries})`);
+            await sleep(delay, signal);
+            continue;
+          }
+
+          console.warn(`${provider.label} failed${error.status ? ` (${error.status})` : ''}: ${error.message}`);
+          failures.push(`${provider.label}: ${error.message}`);
+          break;
+        }
+      }
+    }
+
+    throw new LLMProviderError(`All LLM providers failed. ${failures.join('; ')}`, providers.map(p => p.id).join('>'));
+  }
+
+  return {
+    id: providers.map(provider => provider.id).join('>'),
+    label: providers.map(provider => provider.label).join(' → '),
+    complete: async (messages: LLMMessage[], requestOptions: LLMRequestOptions = {}) => {
+      let text = '';
+      const calls = attempt(async function* (provider) {
+        yield await provider.complete(messages, requestOptions);
+      }, requestOptions.signal);
+      for await (const result of calls) text = result;
+      return text;
+    },
+    stream: (messages: LLMMessage[], requestOptions: LLMRequestOptions = {}) =>
+      attempt(provider => provider.stream(messages, requestOptions), requestOptions.signal),
+    // The first provider is the one expected to answer
+    countTokens: (text: string) => providers[0].countTokens(text),
+  };
+};
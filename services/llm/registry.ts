@@ -0,0 +1,69 @@
+import { LLMProvider, LLMProviderId } from '../../types';
+import { createFailoverChain, FailoverOptions } from './provider';
+import { createGroqProvider } from './groqProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createMockProvider } from './mockProvider';
+
+// Reads a setting by name, e.g. "GROQ_API_KEY"; the server passes `name => process.env[name]`
+export type SettingReader = (name: string) => string | undefined;
+
+const PROVIDER_IDS: LLMProviderId[] = ['groq', 'gemini', 'local', 'mock'];
+
+/**
+ * Provider order: LLM_PROVIDERS (e.g. "groq,gemini,local") when set, otherwise
+ * AI_PROVIDER first and then the other hosted providers. The mock provider is
+ * only used when listed explicitly.
+ */
+export const providerOrder = (setting: SettingReader): LLMProviderId[] => {
+  const explicit = setting('LLM_PROVIDERS');
+  if (explicit) {
+    const ids = explicit.split(',').map(id => id.trim().toLowerCase());
+    const unknown = ids.filter(id => !PROVIDER_IDS.includes(id as LLMProviderId));
+    if (unknown.length > 0) console.warn('Ignoring unknown LLM providers:', unknown.join(', '));
+    return ids.filter((id): id is LLMProviderId => PROVIDER_IDS.includes(id as LLMProviderId));
+  }
+
+  const preferred = setting('AI_PROVIDER') === 'gemini' ? 'gemini' : 'groq';
+  return [preferred, ...(['groq', 'gemini', 'local'] as LLMProviderId[]).filter(id => id !== preferred)];
+};
+
+// Builds one provider, or returns null when its credentials are missing
+const createProvider = (id: LLMProviderId, setting: SettingReader): LLMProvider | null => {
+  switch (id) {
+    case 'groq': {
+      const apiKey = setting('GROQ_API_KEY');
+      return apiKey ? createGroqProvider({ apiKey, model: setting('GROQ_MODEL') }) : null;
+    }
+    case 'gemini': {
+      const apiKey = setting('GEMINI_API_KEY');
+      return apiKey ? createGeminiProvider({ apiKey, model: setting('GEMINI_MODEL') }) : null;
+    }
+    case 'local': {
+      const baseUrl = setting('LOCAL_LLM_URL');
+      return baseUrl ? createLocalProvider({ baseUrl, model: setting('LOCAL_LLM_MODEL'), apiKey: setting('LOCAL_LLM_API_KEY') }) : null;
+    }
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+/**
+ * The configured providers as one failover chain
+ */
+export const createProviderChain = (setting: SettingReader, options: FailoverOptions = {}): LLMProvider => {
+  const providers = providerOrder(setting)
+    .map(id => {
+      const provider = createProvider(id, setting);
+      if (!provider) console.log(`LLM provider "${id}" is not configured, skipping`);
+      return provider;
+    })
+    .filter((provider): provider is LLMProvider => provider !== null);
+
+  if (providers.length === 0) {
+    throw new Error('No LLM provider is configured. Set GROQ_API_KEY, GEMINI_API_KEY or LOCAL_LLM_URL.');
+  }
+
+  console.log('LLM providers:', providers.map(provider => provider.label).join(' → '));
+  return createFailoverChain(providers, options);
+};
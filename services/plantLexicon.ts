@@ -0,0 +1,212 @@
+import { PlantLexicon, PlantLexiconEntry, NigerianPlantData } from '../types';
+import curatedLexicon from '../src/lexicon/nigerianPlantLexicon.json';
+
+const lexicon = curatedLexicon as PlantLexicon;
+
+export const LEXICON_VERSION = lexicon.version;
+
+const NAME_LANGUAGES = ['yoruba', 'igbo', 'hausa', 'edo', 'efik', 'fulfulde', 'urhobo', 'pidgin'] as const;
+
+const FALLBACK_STORAGE_KEY = 'naijamed-atlas:plant-name-fallbacks';
+
+interface FallbackCache {
+  lexiconVersion: number;
+  entries: Record<string, PlantLexiconEntry>;
+}
+
+/**
+ * Normalizes a scientific name for lookup: "Vernonia amygdalina Del." -> "vernonia amygdalina"
+ */
+export const normalizeScientificName = (name: string): string =>
+  name.trim().toLowerCase().split(/\s+/).slice(0, 2).join(' ');
+
+// Curated entries indexed by accepted name and synonyms
+const curatedIndex = new Map<string, PlantLexiconEntry>();
+lexicon.entries.forEach(entry => {
+  [entry.scientificName, ...(entry.synonyms || [])].forEach(name => {
+    curatedIndex.set(normalizeScientificName(name), entry);
+  });
+});
+
+/**
+ * Folds a vernacular name to plain lowercase letters so tone-marked and
+ * unmarked spellings match: "Ewé ìgbálẹ̀" -> "ewe igbale"
+ */
+export const normalizeLocalName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export interface LocalNameMatch {
+  entry: PlantLexiconEntry;
+  language: keyof NigerianPlantData['names'];
+}
+
+// Curated entries indexed by normalized local name (several plants can share one)
+const localNameIndex = new Map<string, LocalNameMatch[]>();
+lexicon.entries.forEach(entry => {
+  NAME_LANGUAGES.forEach(language => {
+    const name = entry.names[language];
+    if (!name) return;
+    const key = normalizeLocalName(name);
+    localNameIndex.set(key, [...(localNameIndex.get(key) || []), { entry, language }]);
+  });
+});
+
+export const MAX_LOCAL_NAME_WORDS = Math.max(
+  1,
+  ...Array.from(localNameIndex.keys()).map(key => key.split(' ').length)
+);
+
+/**
+ * Looks up plants by a Yoruba, Igbo, Hausa, Edo, Efik or Pidgin name,
+ * with or without tone marks
+ */
+export const lookupByLocalName = (name: string): LocalNameMatch[] =>
+  localNameIndex.get(normalizeLocalName(name)) || [];
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads cached LLM suggestions. The cache is discarded whenever the curated
+ * lexicon version changes, so newly curated names take over.
+ */
+const loadFallbackCache = (): FallbackCache => {
+  const empty: FallbackCache = { lexiconVersion: LEXICON_VERSION, entries: {} };
+  const raw = getStorage()?.getItem(FALLBACK_STORAGE_KEY);
+  if (!raw) return empty;
+
+  try {
+    const cache = JSON.parse(raw) as FallbackCache;
+    return cache.lexiconVersion === LEXICON_VERSION ? cache : empty;
+  } catch {
+    return empty;
+  }
+};
+
+const fallbackCache = loadFallbackCache();
+
+const saveFallbackCache = () => {
+  try {
+    getStorage()?.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(fallbackCache));
+  } catch (error) {
+    console.warn('Could not persist plant name cache:', error);
+  }
+};
+
+/**
+ * Looks a plant up in the curated lexicon, then in the cached LLM fallbacks
+ */
+export const lookupPlantNames = (scientificName: string): PlantLexiconEntry | undefined => {
+  const key = normalizeScientificName(scientificName);
+  return curatedIndex.get(key) || fallbackCache.entries[key];
+};
+
+/**
+ * Converts a raw LLM name-lookup response into an unverified lexicon entry
+ */
+export const entryFromLLMResponse = (scientificName: string, response: any): PlantLexiconEntry => {
+  const names: NigerianPlantData['names'] = {};
+  NAME_LANGUAGES.forEach(language => {
+    const value = response?.[language];
+    if (typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null') {
+      names[language] = value.trim();
+    }
+  });
+
+  return {
+    scientificName,
+    commonName: typeof response?.commonName === 'string' && response.commonName.trim()
+      ? response.commonName.trim()
+      : scientificName,
+    names,
+    isNative: response?.isNative === true,
+    notes: typeof response?.notes === 'string' ? response.notes : undefined,
+    verified: false,
+    source: 'llm'
+  };
+};
+
+interface ResolveOptions {
+  batchSize?: number; // Concurrent LLM lookups per batch
+  batchDelayMs?: number; // Pause between batches to respect rate limits
+  maxLookups?: number; // Skip the LLM entirely when more plants than this are missing
+}
+
+/**
+ * Resolves Nigerian names for each plant: curated lexicon first, then the
+ * fallback cache, and only then `fetchFromLLM`, whose answers are cached and
+ * kept marked as unverified. Returns a map keyed by the requested names.
+ */
+export const resolvePlantNames = async (
+  scientificNames: string[],
+  fetchFromLLM: (scientificName: string) => Promise<PlantLexiconEntry | null>,
+  { batchSize = 2, batchDelayMs = 800, maxLookups = Infinity }: ResolveOptions = {}
+): Promise<Map<string, PlantLexiconEntry>> => {
+  const nameMap = new Map<string, PlantLexiconEntry>();
+  const missing: string[] = [];
+
+  scientificNames.forEach(name => {
+    const entry = lookupPlantNames(name);
+    if (entry) {
+      nameMap.set(name, entry);
+    } else {
+      missing.push(name);
+    }
+  });
+
+  console.log(`Plant names: ${nameMap.size} from lexicon, ${missing.length} need LLM lookup`);
+  if (missing.length > maxLookups) {
+    console.log('Too many unknown plants, skipping LLM name lookup to avoid rate limits');
+    return nameMap;
+  }
+
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const batch = missing.slice(i, i + batchSize);
+    const results = await Promise.allSettled(batch.map(name => fetchFromLLM(name)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value) {
+        const entry: PlantLexiconEntry = { ...result.value, verified: false, source: 'llm' };
+        nameMap.set(batch[index], entry);
+        fallbackCache.entries[normalizeScientificName(batch[index])] = entry;
+      }
+    });
+
+    // Delay between batches to respect rate limits
+    if (i + batchSize < missing.length) {
+      await new Promise(resolve => setTimeout(resolve, batchDelayMs));
+    }
+  }
+
+  if (missing.length > 0) saveFallbackCache();
+
+  return nameMap;
+};
+
+/**
+ * Format Nigerian names for display, flagging names that have not been curated
+ */
+export const formatLexiconNames = (entry: PlantLexiconEntry): string => {
+  const parts = NAME_LANGUAGES
+    .filter(language => entry.names[language])
+    .map(language => `${language.charAt(0).toUpperCase()}${language.slice(1)}: *${entry.names[language]}*`);
+
+  if (parts.length === 0) {
+    return entry.notes
+      ? `*[No traditional names found - ${entry.notes}]*`
+      : '*[No Nigerian traditional names documented]*';
+  }
+
+  return parts.join(' • ') + (entry.verified ? '' : ' *(unverified, AI-suggested)*');
+};
@@ -1,18 +1,12 @@
-import { PubMedArticle } from '../types';
+import { PubMedArticle, PubMedSearchResult, SearchTierId, SearchOptions, SearchFilters, TieredSearchResult, PmcFullText, LiteratureSource } from '../types';
+import { understandQuery, buildCoreQuery, describeQueryRewrite } from './queryUnderstanding';
 
-const BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+// Vite inlines VITE_API_BASE_URL in the browser; Node callers (CLI, server-side RAG) set PUBMED_API_BASE_URL
+export const BASE_URL = import.meta.env?.VITE_API_BASE_URL
+  || (typeof process !== 'undefined' ? process.env.PUBMED_API_BASE_URL : undefined)
+  || '/api';
 // For development and Vercel deployment, using API routes
-// In Vercel, the routes are at /api/pubmed-search and /api/pubmed-fetch
-
-// Common conversational words to strip.
-// "treatment" and "cure" are removed to allow finding botanical descriptions that might not explicitly say "treatment" in the title/abstract keywords but contain the info.
-const STOP_WORDS = new Set([
-  'what', 'is', 'the', 'are', 'how', 'does', 'do', 'can', 'could', 'should',
-  'would', 'tell', 'me', 'about', 'find', 'search', 'looking', 'for', 'in',
-  'of', 'to', 'a', 'an', 'local', 'name', 'names', 'called', 'known', 'as',
-  'medicine', 'traditional', 'herbal', 'remedy', 'cure', 'treatment', 'use', 'uses', 'used',
-  'nigeria', 'nigerian' // We add location context manually, so strip it from the keyword to avoid duplication like "Nigeria AND Nigeria"
-]);
+// In Vercel, the routes are at /api/pubmed-search, /api/pubmed-fetch and /api/pubmed-articles
 
 // Tier 1 & 3 Context: Medical/Ethnobotanical Focus
 const MEDICINE_CONTEXT = `(Traditional Medicine OR Herbal Medicine OR Ethnobotany OR Phytomedicine OR
@@ -26,25 +20,30 @@ const REGIONAL_CONTEXT = `("West Africa" OR Africa OR Ghana OR Benin OR Cameroon
 const LOCATION_CONTEXT = `(Nigeria OR Nigerian)`;
 
 /**
- * Removes stop words to extract core subject matter
- * e.g. "what is the local name for jute leaf in nigeria" -> "jute leaf"
+ * Serializes filters into the query parameters read by api/_lib/searchFilters.ts
  */
-const cleanQuery = (query: string): string => {
-  const words = query.toLowerCase().split(/[\s,?.!]+/);
-  const filtered = words.filter(word => word.length > 2 && !STOP_WORDS.has(word));
-  return filtered.join(' ');
+export const searchFiltersToParams = (filters: SearchFilters = {}): string => {
+  const params = new URLSearchParams();
+  if (filters.yearFrom) params.set('minYear', String(filters.yearFrom));
+  if (filters.yearTo) params.set('maxYear', String(filters.yearTo));
+  if (filters.publicationTypes?.length) params.set('pubTypes', filters.publicationTypes.join(','));
+  if (filters.species) params.set('species', filters.species);
+  if (filters.freeFullTextOnly) params.set('freeFullText', '1');
+  if (filters.language) params.set('language', filters.language);
+  if (filters.retmax) params.set('retmax', String(filters.retmax));
+  if (filters.sort) params.set('sort', filters.sort);
+  const query = params.toString();
+  return query ? `&${query}` : '';
 };
 
-const executeSearch = async (term: string): Promise<string[]> => {
+const executeSearch = async (term: string, filters?: SearchFilters): Promise<string[]> => {
   const encodedTerm = encodeURIComponent(term);
   // Using our proxy endpoint instead of direct PubMed API
-  const url = `${BASE_URL}/pubmed-search?term=${encodedTerm}`;
+  const url = `${BASE_URL}/pubmed-search?term=${encodedTerm}${searchFiltersToParams(filters)}`;
 
   try {
     console.log("Making PubMed search request to:", url);
     const response = await fetch(url);
-    console.log("PubMed search proxy response status:", response.status);
-    console.log("Response headers:", [...response.headers.entries()]);
 
     if (!response.ok) {
       console.error(`PubMed search failed with status ${response.status}:`, response.statusText);
@@ -54,7 +53,6 @@ const executeSearch = async (term: string): Promise<string[]> => {
     }
 
     const data = await response.json();
-    console.log("PubMed search response data:", data);
 
     if (!data || !data.esearchresult) {
       console.error("Invalid response format from PubMed proxy:", data);
@@ -73,42 +71,217 @@ const executeSearch = async (term: string): Promise<string[]> => {
   }
 };
 
+interface SearchTier {
+  id: SearchTierId;
+  term: string;
+  progress: string;
+}
+
+export const SEARCH_TIER_LABELS: Record<SearchTierId, string> = {
+  strict: 'Nigeria · Medical',
+  national: 'Nigeria',
+  regional: 'West Africa',
+};
+
+// Merged ranking: a hit from a more specific tier counts for more, and PMIDs
+// found by several tiers add up (weighted reciprocal rank fusion)
+const TIER_WEIGHTS: Record<SearchTierId, number> = { strict: 1, national: 0.8, regional: 0.5 };
+const RANK_OFFSET = 10;
+const DEFAULT_MERGED_LIMIT = 30;
+
+/**
+ * Builds the 3-tier strategy for a query, from most to least precise.
+ * Vernacular plant names in the query are rewritten to scientific names first.
+ */
+const buildSearchTiers = (query: string): SearchTier[] => {
+  const understanding = understandQuery(query);
+  const coreQuery = buildCoreQuery(understanding);
+  const rewrite = describeQueryRewrite(understanding);
+  if (rewrite) console.log(`Rewrote "${query}" as: ${coreQuery}`);
+
+  return [
+    // STRATEGY 1: Strict National Medical Search
+    // High precision: Specific plant/topic + Nigeria + Medical Context
+    {
+      id: 'strict',
+      term: `(${coreQuery}) AND ${LOCATION_CONTEXT} AND ${MEDICINE_CONTEXT}`,
+      progress: rewrite ? `Searching for ${rewrite}...` : "Searching Nigerian medical archives...",
+    },
+    // STRATEGY 2: Broad National Search
+    // Medium precision: Just the topic + Nigeria.
+    // Useful for agricultural/botanical papers that mention the plant in Nigeria but aren't tagged "Medicine".
+    {
+      id: 'national',
+      term: `(${coreQuery}) AND ${LOCATION_CONTEXT}`,
+      progress: "Broadening search to Nigerian botanical records...",
+    },
+    // STRATEGY 3: Regional Ethnobotany Search
+    // Broad scope: Topic + West Africa/Africa + Medical Context.
+    // "If it grows in Ghana, the traditional use is likely similar."
+    {
+      id: 'regional',
+      term: `(${coreQuery}) AND ${REGIONAL_CONTEXT} AND ${MEDICINE_CONTEXT}`,
+      progress: "Checking West African regional research...",
+    },
+  ];
+};
+
+/**
+ * Runs the tiers in order. By default it stops at the first tier with results;
+ * with `mergeTiers` every tier runs and the results are unioned and re-ranked.
+ */
+const runSearchTiers = async <T extends { ids: string[] }>(
+  query: string,
+  execute: (term: string) => Promise<T>,
+  onProgress: ((msg: string) => void) | undefined,
+  { mergeTiers = false }: SearchOptions
+): Promise<{ tier: SearchTierId; result: T }[]> => {
+  const tierResults: { tier: SearchTierId; result: T }[] = [];
+  for (const [index, tier] of buildSearchTiers(query).entries()) {
+    if (index > 0 && !mergeTiers) console.log(`Tier ${index} empty. Trying Tier ${index + 1}...`);
+    if (onProgress) onProgress(tier.progress);
+    const result = await execute(tier.term);
+    tierResults.push({ tier: tier.id, result });
+    if (result.ids.length > 0 && !mergeTiers) break;
+  }
+  return tierResults;
+};
+
+/**
+ * Records which tier each PMID came from. A single tier keeps PubMed's
+ * relevance order; several tiers are fused with tier-weighted reciprocal ranks.
+ */
+const combineTierResults = (
+  tierResults: { tier: SearchTierId; result: { ids: string[] } }[],
+  merged: boolean,
+  mergedLimit: number = DEFAULT_MERGED_LIMIT
+): TieredSearchResult => {
+  const tierByPmid: Record<string, SearchTierId> = {};
+  const scores = new Map<string, number>();
+
+  tierResults.forEach(({ tier, result }) => {
+    result.ids.forEach((pmid, rank) => {
+      // Tiers run from most to least specific, so the first tier to find a PMID wins
+      if (!tierByPmid[pmid]) tierByPmid[pmid] = tier;
+      scores.set(pmid, (scores.get(pmid) || 0) + TIER_WEIGHTS[tier] / (RANK_OFFSET + rank));
+    });
+  });
+
+  const ids = merged
+    ? Array.from(scores.keys()).sort((a, b) => scores.get(b)! - scores.get(a)!).slice(0, mergedLimit)
+    : tierResults[tierResults.length - 1]?.result.ids || [];
+
+  return {
+    ids,
+    tierByPmid,
+    tiers: tierResults.map(({ tier, result }) => ({ tier, count: result.ids.length })),
+    merged,
+  };
+};
+
 /**
  * Searches PubMed with a 3-Tier Strategy to maximize results.
  * @param query User's input
  * @param onProgress Callback to update UI status message
+ * @param options `mergeTiers` runs all three tiers instead of stopping at the first hit; `filters` narrows every tier
+ */
+export const searchPubMedIds = async (
+  query: string,
+  onProgress?: (msg: string) => void,
+  options: SearchOptions = {}
+): Promise<TieredSearchResult> => {
+  const tierResults = await runSearchTiers(
+    query,
+    async term => ({ ids: await executeSearch(term, options.filters) }),
+    onProgress,
+    options
+  );
+  return combineTierResults(tierResults, !!options.mergeTiers, options.filters?.retmax);
+};
+
+const executeArticleSearch = async (
+  term: string,
+  filters?: SearchFilters
+): Promise<{ ids: string[]; articles: PubMedArticle[] }> => {
+  const url = `${BASE_URL}/pubmed-articles?term=${encodeURIComponent(term)}${searchFiltersToParams(filters)}`;
+
+  try {
+    console.log("Making PubMed article search request to:", url);
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`PubMed article search failed with status ${response.status}:`, await response.text());
+      return { ids: [], articles: [] };
+    }
+
+    const data = await response.json();
+    if (!data || !Array.isArray(data.ids) || !Array.isArray(data.articles)) {
+      console.error("Invalid response format from PubMed proxy:", data);
+      return { ids: [], articles: [] };
+    }
+
+    console.log(`Found ${data.ids.length} IDs and ${data.articles.length} articles for term: ${term} (cache: ${response.headers.get('X-Cache') || 'n/a'})`);
+    return data;
+  } catch (error) {
+    console.error("PubMed Article Search Error:", error);
+    return { ids: [], articles: [] };
+  }
+};
+
+/**
+ * Same 3-tier strategy as searchPubMedIds, but each tier searches and fetches
+ * in a single round trip through /pubmed-articles. Every article is tagged
+ * with the tier it came from.
+ */
+export const searchPubMedArticles = async (
+  query: string,
+  onProgress?: (msg: string) => void,
+  options: SearchOptions = {}
+): Promise<PubMedSearchResult> => {
+  const tierResults = await runSearchTiers(query, term => executeArticleSearch(term, options.filters), onProgress, options);
+  const combined = combineTierResults(tierResults, !!options.mergeTiers, options.filters?.retmax);
+
+  const articlesById = new Map<string, PubMedArticle>();
+  tierResults.forEach(({ result }) => result.articles.forEach(article => {
+    if (!articlesById.has(article.pmid)) articlesById.set(article.pmid, article);
+  }));
+
+  const articles = combined.ids
+    .map(pmid => articlesById.get(pmid))
+    .filter((article): article is PubMedArticle => !!article)
+    .map(article => ({ ...article, searchTier: combined.tierByPmid[article.pmid] }));
+
+  console.log('Search tiers:', combined.tiers.map(({ tier, count }) => `${tier}=${count}`).join(', '));
+  return { ...combined, articles };
+};
+
+export const pubmedSource: LiteratureSource = {
+  id: 'pubmed',
+  label: 'PubMed',
+  search: (query, options, onProgress) => searchPubMedArticles(query, onProgress, options),
+};
+
+/**
+ * One-line tier for the LLM context, e.g. "West Africa (regional evidence, not a Nigerian study)"
  */
-export const searchPubMedIds = async (query: string, onProgress?: (msg: string) => void): Promise<string[]> => {
-  const cleanedKeywords = cleanQuery(query);
-  const coreQuery = cleanedKeywords || query; 
-  
-  // STRATEGY 1: Strict National Medical Search
-  // High precision: Specific plant/topic + Nigeria + Medical Context
-  if (onProgress) onProgress("Searching Nigerian medical archives...");
-  const strictTerm = `(${coreQuery}) AND ${LOCATION_CONTEXT} AND ${MEDICINE_CONTEXT}`;
-  let ids = await executeSearch(strictTerm);
-  if (ids.length > 0) return ids;
-
-  // STRATEGY 2: Broad National Search
-  // Medium precision: Just the topic + Nigeria.
-  // Useful for agricultural/botanical papers that mention the plant in Nigeria but aren't tagged "Medicine".
-  if (onProgress) onProgress("Broadening search to Nigerian botanical records...");
-  console.log("Tier 1 empty. Trying Tier 2 (Broad National)...");
-  const broadTerm = `(${coreQuery}) AND ${LOCATION_CONTEXT}`;
-  ids = await executeSearch(broadTerm);
-  if (ids.length > 0) return ids;
-
-  // STRATEGY 3: Regional Ethnobotany Search
-  // Broad scope: Topic + West Africa/Africa + Medical Context.
-  // "If it grows in Ghana, the traditional use is likely similar."
-  if (onProgress) onProgress("Checking West African regional research...");
-  console.log("Tier 2 empty. Trying Tier 3 (Regional)...");
-  const regionalTerm = `(${coreQuery}) AND ${REGIONAL_CONTEXT} AND ${MEDICINE_CONTEXT}`;
-  ids = await executeSearch(regionalTerm);
-
-  return ids;
+export const formatTierForPrompt = (tier: SearchTierId): string =>
+  tier === 'regional' ? `${SEARCH_TIER_LABELS[tier]} (regional evidence, not a Nigerian study)` : SEARCH_TIER_LABELS[tier];
+
+/**
+ * Tells the model when part of the evidence comes from the regional West African
+ * tier rather than Nigerian studies, or null when every source is Nigerian
+ */
+export const describeRegionalEvidence = (articles: PubMedArticle[]): string | null => {
+  const regional = articles.filter(article => article.searchTier === 'regional');
+  if (regional.length === 0) return null;
+
+  const scope = regional.length === articles.length ? 'All' : `${regional.length} of ${articles.length}`;
+  return `${scope} sources come from the regional West African search (e.g. Ghana, Benin, Cameroon), not from Nigerian studies: ${regional.map(article => `PMID:${article.pmid}`).join(', ')}`;
 };
 
+/**
+ * Fetches parsed articles for PMIDs; the XML is parsed server-side
+ */
 export const fetchArticleDetails = async (ids: string[]): Promise<PubMedArticle[]> => {
   if (ids.length === 0) {
     console.log("No IDs provided to fetchArticleDetails");
@@ -116,14 +289,11 @@ export const fetchArticleDetails = async (ids: string[]): Promise<PubMedArticle[
   }
 
   // Using our proxy endpoint instead of direct PubMed API
-  const idsParam = ids.join(',');
-  const url = `${BASE_URL}/pubmed-fetch?ids=${idsParam}`;
+  const url = `${BASE_URL}/pubmed-fetch?ids=${ids.join(',')}&format=json`;
 
   try {
     console.log("Making PubMed fetch request to proxy:", url);
     const response = await fetch(url);
-    console.log("PubMed fetch proxy response status:", response.status);
-    console.log("Response headers:", [...response.headers.entries()]);
 
     if (!response.ok) {
       console.error(`PubMed fetch failed with status ${response.status}:`, response.statusText);
@@ -132,72 +302,13 @@ export const fetchArticleDetails = async (ids: string[]): Promise<PubMedArticle[
       return [];
     }
 
-    const xmlText = await response.text();
-    console.log("PubMed fetch proxy response length:", xmlText.length);
-
-    if (!xmlText || xmlText.length === 0) {
-      console.error("Empty response from PubMed fetch proxy");
+    const articles = await response.json();
+    if (!Array.isArray(articles)) {
+      console.error("Invalid response format from PubMed fetch proxy:", articles);
       return [];
     }
 
-    // Parse the XML response from the proxy
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlText, "text/xml");
-
-    // Check for parsing errors
-    const parserError = xmlDoc.querySelector("parsererror");
-    if (parserError) {
-      console.error("XML parsing error:", parserError.textContent);
-      console.error("Raw XML response:", xmlText.substring(0, 500) + "...");
-      return [];
-    }
-
-    const articles: PubMedArticle[] = [];
-    const pubmedArticles = xmlDoc.getElementsByTagName("PubmedArticle");
-    console.log(`Found ${pubmedArticles.length} articles in XML response`);
-
-    if (pubmedArticles.length === 0) {
-      console.log("No PubmedArticle elements found in XML response");
-      return [];
-    }
-
-    for (let i = 0; i < pubmedArticles.length; i++) {
-      const articleNode = pubmedArticles[i];
-
-      const pmid = articleNode.querySelector("PMID")?.textContent || "";
-      const title = articleNode.querySelector("ArticleTitle")?.textContent || "No Title Available";
-
-      const abstractTexts = articleNode.querySelectorAll("AbstractText");
-      let abstract = "";
-      abstractTexts.forEach((node) => {
-        const label = node.getAttribute("Label");
-        abstract += (label ? `**${label}**: ` : "") + (node.textContent || "") + " ";
-      });
-      if (!abstract) abstract = "No abstract available.";
-
-      const authorNodes = articleNode.querySelectorAll("Author");
-      const authors: string[] = [];
-      authorNodes.forEach(node => {
-        const lastName = node.querySelector("LastName")?.textContent || "";
-        const initials = node.querySelector("Initials")?.textContent || "";
-        if (lastName) authors.push(`${lastName} ${initials}`);
-      });
-
-      const journal = articleNode.querySelector("Title")?.textContent || "Unknown Journal";
-      const year = articleNode.querySelector("PubDate > Year")?.textContent || "";
-      const month = articleNode.querySelector("PubDate > Month")?.textContent || "";
-
-      articles.push({
-        pmid,
-        title,
-        abstract: abstract.trim(),
-        authors: authors.slice(0, 5),
-        journal,
-        pubDate: `${month} ${year}`.trim(),
-      });
-    }
-
-    console.log(`Successfully parsed ${articles.length} articles`);
+    console.log(`Successfully retrieved ${articles.length} articles (cache: ${response.headers.get('X-Cache') || 'n/a'})`);
     return articles;
   } catch (error) {
     console.error("Error fetching article details:", error);
@@ -206,4 +317,34 @@ export const fetchArticleDetails = async (ids: string[]): Promise<PubMedArticle[
     }
     return [];
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetches the methods, results and discussion of a PMC open-access article,
+ * or null when the article is not in the open-access subset
+ */
+export const fetchFullText = async (pmcid: string): Promise<PmcFullText | null> => {
+  const url = `${BASE_URL}/pmc-fulltext?pmcid=${encodeURIComponent(pmcid)}`;
+
+  try {
+    const response = await fetch(url);
+    if (response.status === 404) {
+      console.log(`No open-access full text for ${pmcid}`);
+      return null;
+    }
+    if (!response.ok) {
+      console.error(`PMC full text fetch failed with status ${response.status}:`, await response.text());
+      return null;
+    }
+
+    const fullText = await response.json();
+    if (!fullText || !Array.isArray(fullText.sections)) {
+      console.error("Invalid response format from PMC full text proxy:", fullText);
+      return null;
+    }
+    return fullText;
+  } catch (error) {
+    console.error("Error fetching PMC full text:", error);
+    return null;
+  }
+};
@@ -0,0 +1,113 @@
+import { QueryUnderstanding, ResolvedPlantName } from '../types';
+import { lookupByLocalName, lookupPlantNames, normalizeLocalName, MAX_LOCAL_NAME_WORDS } from './plantLexicon';
+
+// Common conversational words to strip.
+// "treatment" and "cure" are removed to allow finding botanical descriptions that might not explicitly say "treatment" in the title/abstract keywords but contain the info.
+const STOP_WORDS = new Set([
+  'what', 'is', 'the', 'are', 'how', 'does', 'do', 'can', 'could', 'should',
+  'would', 'tell', 'me', 'about', 'find', 'search', 'looking', 'for', 'in',
+  'of', 'to', 'a', 'an', 'and', 'or', 'with', 'local', 'name', 'names', 'called', 'known', 'as',
+  'medicine', 'traditional', 'herbal', 'remedy', 'cure', 'treatment', 'use', 'uses', 'used',
+  'nigeria', 'nigerian' // We add location context manually, so strip it from the keyword to avoid duplication like "Nigeria AND Nigeria"
+]);
+
+/**
+ * Removes stop words to extract core subject matter
+ * e.g. "what is the local name for jute leaf in nigeria" -> "jute leaf"
+ */
+export const cleanQuery = (query: string): string => {
+  const words = query.toLowerCase().split(/[\s,?.!]+/);
+  const filtered = words.filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  return filtered.join(' ');
+};
+
+/**
+ * Recognizes vernacular plant names in a query and resolves them to scientific
+ * names, e.g. "ewúro for malaria" -> Vernonia amygdalina + "malaria".
+ * Longer names win, so "ewe igbale" is matched before a shorter name inside it.
+ */
+export const understandQuery = (query: string): QueryUnderstanding => {
+  const tokens = query.split(/[\s,?.!;:()]+/).filter(token => normalizeLocalName(token));
+  const plants: ResolvedPlantName[] = [];
+  const remaining: string[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let matched = false;
+
+    for (let length = Math.min(MAX_LOCAL_NAME_WORDS, tokens.length - i); length > 0; length--) {
+      const localName = tokens.slice(i, i + length).join(' ');
+      const matches = lookupByLocalName(localName);
+      if (matches.length === 0) continue;
+
+      matches.forEach(({ entry, language }) => {
+        if (plants.some(plant => plant.scientificName === entry.scientificName)) return;
+        plants.push({
+          localName,
+          language,
+          scientificName: entry.scientificName,
+          synonyms: entry.synonyms || []
+        });
+      });
+      i += length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      remaining.push(tokens[i]);
+      i++;
+    }
+  }
+
+  return {
+    originalQuery: query,
+    plants,
+    keywords: cleanQuery(remaining.join(' '))
+  };
+};
+
+const quote = (term: string): string => `"${term}"`;
+
+/**
+ * Builds the subject part of a PubMed term. Recognized plants are searched by
+ * scientific name and synonyms; the other keywords must also appear.
+ */
+export const buildCoreQuery = (understanding: QueryUnderstanding): string => {
+  if (understanding.plants.length === 0) {
+    return cleanQuery(understanding.originalQuery) || understanding.originalQuery;
+  }
+
+  const plantClause = understanding.plants
+    .map(plant => [plant.scientificName, ...plant.synonyms].map(quote).join(' OR '))
+    .join(' OR ');
+
+  return understanding.keywords
+    ? `(${plantClause}) AND (${understanding.keywords})`
+    : plantClause;
+};
+
+/**
+ * Human-readable summary of the rewrite, e.g. "Vernonia amygdalina (ewuro)".
+ * Returns null when no vernacular names were recognized.
+ */
+export const describeQueryRewrite = (understanding: QueryUnderstanding): string | null => {
+  if (understanding.plants.length === 0) return null;
+
+  const plants = understanding.plants
+    .map(plant => `${plant.scientificName} (${plant.localName})`)
+    .join(', ');
+  return understanding.keywords ? `${plants} + ${understanding.keywords}` : plants;
+};
+
+/**
+ * Scientific names of the plants a query names that the lexicon or the cached
+ * LLM suggestions know, whether by a vernacular or a scientific name
+ */
+export const knownPlantsIn = (query: string): string[] => {
+  const words = query.split(/[\s,?.!;:()]+/).filter(Boolean);
+  const bySciName = words.slice(1)
+    .map((word, i) => lookupPlantNames(`${words[i]} ${word}`)?.scientificName)
+    .filter((name): name is string => !!name);
+  return Array.from(new Set([...understandQuery(query).plants.map(plant => plant.scientificName), ...bySciName]));
+};
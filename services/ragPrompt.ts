@@ -0,0 +1,455 @@
+import { PubMedArticle, ChatMessage, PlantLexiconEntry, LLMProvider, LLMMessage, QueryIntent } from '../types';
+import type { HerbalChunkWithMetadata } from "../src/pharmacopoeia/localRetriever";
+import { getConversationHistory } from './conversation';
+import { STRUCTURED_ANSWER_INSTRUCTIONS } from './structuredAnswer';
+import { resolvePlantNames, entryFromLLMResponse, formatLexiconNames } from './plantLexicon';
+import { gradeArticle, formatGradeForPrompt, summarizeEvidence } from './evidenceGrading';
+import { describeRegionalEvidence, formatTierForPrompt } from './pubmedService';
+import { formatFullTextForPrompt } from './fullTextService';
+import { citationKeyFor, LITERATURE_SOURCE_LABELS } from './literatureSources';
+import { formatCorrectionsForPrompt } from './retractions';
+
+/**
+ * Extracts plant scientific names from PubMed articles
+ */
+export const extractPlantNames = (articles: PubMedArticle[]): string[] => {
+  const plantNames = new Set<string>();
+
+  articles.forEach(article => {
+    const fullText = `${article.title} ${article.abstract}`;
+
+    // Pattern for scientific names: Genus species (with optional L. or Linn.)
+    const scientificPattern = /\b([A-Z][a-z]+)\s+([a-z]+)\s*(?:L\.|Linn\.)?\b/g;
+    const matches = fullText.matchAll(scientificPattern);
+
+    for (const match of matches) {
+      const genus = match[1];
+      const species = match[2];
+      const fullName = `${genus} ${species}`;
+
+      // Filter out common false positives
+      const blacklist = [
+        'United States', 'New York', 'South Africa', 'North America',
+        'West Africa', 'East Asia', 'European Union', 'In vitro',
+        'In vivo', 'Et al', 'Per cent', 'Ad libitum'
+      ];
+
+      if (!blacklist.some(term => fullName === term) && species.length > 3) {
+        plantNames.add(fullName);
+      }
+    }
+  });
+
+  return Array.from(plantNames);
+};
+
+/**
+ * Fetch Nigerian traditional names from the model. Only used for plants missing
+ * from the curated lexicon; returns null when the lookup fails.
+ */
+export const fetchNigerianNames = async (provider: LLMProvider, scientificName: string): Promise<PlantLexiconEntry | null> => {
+  const prompt = `You are an expert ethnobotanist specializing in Nigerian traditional medicine. 
+
+Search your knowledge for Nigerian traditional names for: "${scientificName}"
+
+Return ONLY a valid JSON object (no markdown, no backticks, no extra text) with this exact structure:
+{
+  "scientificName": "${scientificName}",
+  "commonName": "common English name",
+  "yoruba": "Yoruba name or null",
+  "igbo": "Igbo name or null", 
+  "hausa": "Hausa name or null",
+  "edo": "Edo name or null",
+  "efik": "Efik/Ibibio name or null",
+  "pidgin": "Nigerian Pidgin name or null",
+  "isNative": true or false,
+  "notes": "brief note about plant's presence in Nigeria or null"
+}
+
+Rules:
+- Use null (not "null" in quotes) for unknown names
+- Be accurate - don't guess names
+- isNative means native to Nigeria/West Africa region
+- Keep notes brief (under 50 words)`;
+
+  try {
+    const responseText = await provider.complete(
+      [{ role: "user", content: prompt }],
+      { temperature: 0.1, maxTokens: 400, json: true }
+    ) || "{}";
+
+    // Clean up any markdown formatting
+    const cleanedText = responseText
+      .replace(/```json\n?|\n?```/g, '')
+      .replace(/```\n?|\n?```/g, '')
+      .trim();
+
+    return entryFromLLMResponse(scientificName, JSON.parse(cleanedText));
+  } catch (error) {
+    console.error(`Error fetching Nigerian names for ${scientificName}:`, error);
+    return null;
+  }
+};
+
+export interface RAGOptions {
+  skipNameLookup?: boolean; // Skip the name lookup entirely for faster response
+  verbose?: boolean; // Log additional info
+  herbalChunks?: HerbalChunkWithMetadata[]; // Pharmacopoeia context, retrieved by the caller on the server
+  nigerianNames?: PlantLexiconEntry[]; // Names already resolved by the caller; skips the lookup
+  intent?: QueryIntent; // Picks the prompt template; therapeutic use when omitted
+}
+
+// 'json' swaps the markdown template for the structured answer contract
+export type RAGOutputFormat = 'markdown' | 'json';
+
+const DISCLAIMER = `**Disclaimer:** This information is for educational purposes only. Always consult a qualified healthcare professional before using any herbal remedy.`;
+
+/**
+ * Per-intent focus (added to the system prompt in both output formats) and
+ * markdown template. Therapeutic use keeps the full research summary below.
+ */
+const INTENT_PROMPTS: Partial<Record<QueryIntent, { focus: string; format: string }>> = {
+  'name-lookup': {
+    focus: `The user only wants the plant's names. Answer from the NIGERIAN NAMES DATABASE and the pharmacopoeia sources; no research summary is needed. Say which names are unverified or unknown instead of guessing.`,
+    format: `RESPONSE FORMAT (short Markdown answer):
+
+**🌿 [Common Name] (*Scientific name*)**
+
+| Language | Name |
+| --- | --- |
+| [Language] | [Name] |
+
+*One row per language with a known name; mark names that are not in the database as unverified.*
+
+**Native to Nigeria/West Africa:** [Yes/No]
+**Pharmacopoeia Notes:** One or two sentences on the parts used and traditional uses, if the pharmacopoeia sources cover the plant [AHP:PageX]`,
+  },
+  'safety': {
+    focus: `The user is asking about safety. Lead with toxicity and adverse-effect findings, name the species and doses studied, and say plainly when no human safety data exists. Efficacy findings only matter where they bear on risk.`,
+    format: `RESPONSE FORMAT (Use this Markdown structure):
+
+**⚠️ Safety Summary: [Plant or Topic]**
+
+*2-3 sentences: what the evidence says about safety, for whom, and at what doses.*
+
+**🇳🇬 Nigerian Names:** [From database above]
+
+**Toxicity Studies:** Acute and repeated-dose findings, LD50, organ effects, with the species studied [PMID:XXXX]
+**Contraindications & At-Risk Groups:** Pregnancy, breastfeeding, children, liver or kidney disease [PMID:XXXX]
+**Drug Interactions:** [PMID:XXXX]
+**Dose Limits:** Doses found safe or harmful [PMID:XXXX] [AHP:PageX]
+
+**📊 Research Quality**
+
+How much of the safety evidence comes from animal or in vitro studies versus human data.
+
+${DISCLAIMER}`,
+  },
+  'preparation': {
+    focus: `The user is asking how the plant is prepared or dosed. Focus on plant parts, preparation methods, extraction solvents and doses from the pharmacopoeia sources and the studies; separate traditional preparations from laboratory extracts.`,
+    format: `RESPONSE FORMAT (Use this Markdown structure):
+
+**🧪 Preparation: [Plant]**
+
+**🇳🇬 Nigerian Names:** [From database above]
+
+**Plant Parts Used:** [AHP:PageX] [PMID:XXXX]
+**Traditional Preparation:** Decoction, infusion, maceration, powder, with steps if given [AHP:PageX]
+**Doses:** Traditional doses, and the doses used in studies with their species [PMID:XXXX]
+**Research Extracts:** Solvents and extraction methods used in the studies [PMID:XXXX]
+
+**⚠️ Safety & Precautions**
+
+* Toxicity or dose limits relevant to these preparations [PMID:XXXX]
+
+${DISCLAIMER}`,
+  },
+  'comparison': {
+    focus: `The user wants the plants compared. Compare them side by side on the same outcomes, and say when the studies are not directly comparable (different species, doses or extracts).`,
+    format: `RESPONSE FORMAT (Use this Markdown structure):
+
+**⚖️ Comparison: [Plant A] vs [Plant B]**
+
+*2-3 sentences with the overall verdict and how certain it is.*
+
+| | [Plant A] | [Plant B] |
+| --- | --- | --- |
+| Nigerian names | | |
+| Evidence for [use] | [PMID:XXXX] | [PMID:XXXX] |
+| Strongest study design | | |
+| Safety concerns | [PMID:XXXX] | [PMID:XXXX] |
+
+**Key Differences:** Explained in plain language, with citations [PMID:XXXX]
+
+**📊 Research Quality**
+
+Whether any study compared the plants directly, or only separately.
+
+${DISCLAIMER}`,
+  },
+  'condition-to-plants': {
+    focus: `The user wants to know which plants are used for a condition. List the plants the sources support, strongest evidence first, and keep each entry brief.`,
+    format: `RESPONSE FORMAT (Use this Markdown structure):
+
+**🌿 Plants for [Condition]**
+
+*1-2 sentences summarizing how strong the evidence is overall.*
+
+For each plant, strongest evidence first:
+
+**[n]. [Common Name] (*Scientific name*)**
+**🇳🇬 Nigerian Names:** [From database above]
+**Evidence:** One or two sentences with the study design [PMID:XXXX]
+**Safety:** Any toxicity noted [PMID:XXXX]
+
+**📊 Research Quality**
+
+Which plants have only animal or in vitro evidence.
+
+${DISCLAIMER}`,
+  },
+};
+
+/**
+ * How to use the names database: curated names exactly as given, names the
+ * LLM fallback suggested only with a hedge, so they are never passed off as
+ * verified
+ */
+const namesInstructions = (entries: PlantLexiconEntry[]): string => {
+  const instructions: string[] = [];
+  if (entries.some(entry => entry.verified)) {
+    instructions.push('⚠️ IMPORTANT: Names marked [VERIFIED] come from the curated lexicon. Use them exactly as given.');
+  }
+  if (entries.some(entry => !entry.verified)) {
+    instructions.push('⚠️ IMPORTANT: Names marked [UNVERIFIED] were suggested by an AI lookup and may be wrong. Only use them hedged (e.g. "reportedly known in Yoruba as ..."), say they are unverified, and never present them as verified names.');
+  }
+  return instructions.join('\n');
+};
+
+/**
+ * Builds the chat messages (system prompt, prior turns, enriched user prompt)
+ * shared by the blocking, streaming and structured synthesis calls. `provider`
+ * answers the name lookups for plants missing from the lexicon.
+ */
+export const buildRAGMessages = async (
+  provider: LLMProvider,
+  query: string,
+  articles: PubMedArticle[],
+  history: ChatMessage[],
+  options: RAGOptions,
+  format: RAGOutputFormat = 'markdown'
+): Promise<LLMMessage[]> => {
+  const { skipNameLookup = false, verbose = false } = options;
+  const intentPrompt = options.intent ? INTENT_PROMPTS[options.intent] : undefined;
+  const priorTurns = getConversationHistory(history);
+  const isFollowUp = priorTurns.length > 0;
+
+  // Step 1: Extract plant names from articles
+  const plantNames = extractPlantNames(articles);
+  if (verbose) console.log('Extracted plant names:', plantNames);
+
+  // Step 2: Resolve Nigerian traditional names (curated lexicon first, LLM fallback)
+  let nigerianNamesMap = new Map<string, PlantLexiconEntry>();
+
+  if (options.nigerianNames) {
+    options.nigerianNames.forEach(entry => nigerianNamesMap.set(entry.scientificName, entry));
+  } else if (!skipNameLookup && plantNames.length > 0) {
+    try {
+      nigerianNamesMap = await resolvePlantNames(plantNames, name => fetchNigerianNames(provider, name), { batchSize: 2, batchDelayMs: 800, maxLookups: 10 });
+      if (verbose) console.log('Fetched names for:', nigerianNamesMap.size, 'plants');
+    } catch (error) {
+      console.error('Error fetching Nigerian names:', error);
+      // Continue without names rather than failing
+    }
+  }
+
+  // Step 3: Herbal pharmacopoeia data
+  const herbalChunks = options.herbalChunks ?? [];
+
+  // Prepare herbal context
+  let herbalContextText = "";
+  if (herbalChunks.length > 0) {
+    herbalChunks.forEach(chunk => {
+      const sourceLabel = chunk.source === "AHP" ? "African Herbal Pharmacopoeia (AHP)" : "West African Pharmacopoeia (WAP)";
+      herbalContextText += `### PHARMACOPOEIA SOURCE
+SOURCE: ${sourceLabel}
+PAGE: ${chunk.page}
+TEXT: ${chunk.text}
+--------------------------------------------------
+`;
+    });
+  }
+
+  // Step 4: Prepare context with PubMed articles
+  let contextText = "";
+  articles.forEach((article, index) => {
+    const regionLine = article.searchTier ? `REGION: ${formatTierForPrompt(article.searchTier)}\n` : '';
+    const databaseLine = article.source && article.source !== 'pubmed' ? `DATABASE: ${LITERATURE_SOURCE_LABELS[article.source]}\n` : '';
+    contextText += `### SOURCE ${index + 1}
+ID: ${citationKeyFor(article)}
+TITLE: ${article.title}
+DATE: ${article.pubDate}
+STUDY DESIGN: ${formatGradeForPrompt(gradeArticle(article))}
+${regionLine}${databaseLine}${formatCorrectionsForPrompt(article)}TEXT: ${article.abstract}
+${formatFullTextForPrompt(article)}--------------------------------------------------
+`;
+  });
+
+  // Combine PubMed and herbal contexts
+  contextText = herbalContextText + contextText;
+
+  if (articles.length > 0) {
+    contextText += `\n### 📊 EVIDENCE PROFILE (graded from PubMed publication types and MeSH)\n${summarizeEvidence(articles)}\n`;
+
+    const regionalNote = describeRegionalEvidence(articles);
+    if (regionalNote) {
+      contextText += `\n### 🌍 REGIONAL EVIDENCE\n${regionalNote}\n`;
+    }
+  }
+
+  // Step 4: Add Nigerian names database if available
+  const enrichedPlantInfo: string[] = [];
+
+  if (nigerianNamesMap.size > 0) {
+    contextText += `\n 🇳🇬 NIGERIAN TRADITIONAL NAMES DATABASE\n`;
+    nigerianNamesMap.forEach((names, scientificName) => {
+      const formattedNames = formatLexiconNames(names);
+      contextText += `
+**${scientificName}** (${names.commonName})
+- Nigerian Names: ${formattedNames}
+- Native to Nigeria/West Africa: ${names.isNative ? 'Yes ✅' : 'No ❌'}
+${names.notes ? `- Note: ${names.notes}` : ''}
+---
+`;
+      enrichedPlantInfo.push(
+        `${names.verified ? '[VERIFIED]' : '[UNVERIFIED]'} ${names.commonName} (${scientificName}): ${formattedNames}`
+      );
+    });
+  }
+
+  // Step 5: Enhanced system prompt
+  const systemPrompt = `You are the "NaijaMed Atlas Assistant", a world-class AI Ethnobotanist and Research Scientist specialized in Nigerian Traditional Medicine. 
+
+YOUR MISSION:
+Synthesize complex scientific abstracts into clear, culturally relevant, and actionable insights for Nigerian users. Bridge the gap between "Western Science" and "Indigenous Knowledge."
+
+CORE GUIDELINES:
+1. **Local Identity First**:
+   - Always identify plants by Scientific Name AND Nigerian names
+   ${enrichedPlantInfo.length > 0 ? `- USE THE PROVIDED NIGERIAN NAMES DATABASE in your response` : '- Add Nigerian names if you know them'}
+   - Show native status (Is it native to Nigeria/West Africa?)
+
+2. **Layman Accessibility**:
+   - Explain complex terms (e.g., "antinociceptive" → "pain-relieving")
+   - Make scientific findings understandable
+
+3. **Strict Citation**:
+   - Every claim must cite [PMID:XXXX]
+   - When a claim comes from a FULL TEXT EXCERPT, cite its section, e.g. [PMID:XXXX §Methods]
+   - Cite sources from other databases by their ID, e.g. [AJOL:XXXX] or [EPMC:AGR-XXXX]
+   - Base claims ONLY on provided abstracts and full-text excerpts
+   - Weigh each finding by its STUDY DESIGN: say when it comes only from animal or in vitro studies
+   - If a REGIONAL EVIDENCE note is present, say that those findings come from West African (not Nigerian) studies
+   - A source marked RETRACTED is not evidence: if you mention it, say it was retracted; mention any erratum or expression of concern next to its claims
+
+4. **Safety First**:
+   - Highlight toxicity, dosage limits, contraindications
+   - Create dedicated safety section
+
+5. **Cultural Context**:
+   - Note if plants are not native to Nigeria
+   - Mention availability in Nigerian markets if relevant
+
+6.  **Pharmacopoeia Data Integration (If Present):**
+    - Include traditional medicinal uses from pharmacopoeia sources
+    - Include plant parts used (leaf, bark, root, etc.) as specified
+    - Include preparation methods (infusion, decoction, maceration, etc.)
+    - Include dosage levels if listed in pharmacopoeia
+    - Include toxicity and safety warnings from pharmacopoeia sources
+    - Cite sources using **[AHP:PageX]** or **[WAP:PageX]** for pharmacopoeia data.${intentPrompt ? `
+
+QUESTION FOCUS:
+${intentPrompt.focus}` : ''}`;
+
+  // Step 6: User prompt with structure
+  const markdownFormat = `RESPONSE FORMAT (Use this Markdown structure):
+
+** 🌿 Summary: [Main Topic] **
+
+${nigerianNamesMap.size > 0 ? `
+## 🇳🇬 Plants Covered & Nigerian Names
+
+${Array.from(nigerianNamesMap.values()).map(names => `
+### ${names.commonName}
+*Scientific Name: ${names.scientificName}*
+**Local Names:** ${formatLexiconNames(names)}
+**Native to Nigeria:** ${names.isNative ? '✅ Yes' : '❌ No'}
+${names.notes ? `**Note:** ${names.notes}` : ''}
+`).join('\n')}
+
+---
+` : ''}
+
+*2-3 sentences summarizing the main findings for the user.*
+
+
+
+**Scientific Evidence:**
+
+**🌿[Plant 1 Common Name] (*Scientific name*)**
+**🇳🇬 Nigerian Names:** [From database above]
+**Native Status:** [Yes/No]
+
+**[Medical Property/Use 1]:** Detailed explanation of findings... [PMID:XXXX]
+**[Medical Property/Use 2]:** Detailed explanation of findings... [PMID:XXXX]
+
+**🌿[Plant 2 Common Name] (*Scientific name*)**
+*(Repeat structure for each plant)*
+
+**⚠️ Safety & Precautions**
+
+* **Toxicity Warnings:** Any toxicity mentioned in studies [PMID:XXXX]
+* **Dosage Information:** Safe doses if mentioned [PMID:XXXX]
+* **Contraindications:** Who should avoid it [PMID:XXXX]
+* **Side Effects:** Observed adverse effects [PMID:XXXX]
+
+
+**🧪 Preparation & Traditional Use**
+
+**Research Preparations:** Extract types used (aqueous, ethanol, methanol) [PMID:XXXX]
+**Plant Parts Used:** Leaves, roots, bark, seeds, etc. [PMID:XXXX]
+**Traditional Methods:** If mentioned in the research [PMID:XXXX]
+
+
+**📊 Research Quality**
+
+Summarize the EVIDENCE PROFILE: which study designs support the findings (e.g. only animal and in vitro studies vs. human trials) and how certain the evidence is.
+
+
+${DISCLAIMER}`;
+
+  const userPrompt = `USER QUERY: "${query}"
+${isFollowUp ? `
+💬 FOLLOW-UP QUESTION: This continues the conversation above. Answer the follow-up directly, building on your previous answers and the same research context. Keep sections that would only repeat earlier content brief, but still cite every claim.
+` : ''}
+${enrichedPlantInfo.length > 0 ? `
+📚 NIGERIAN NAMES DATABASE AVAILABLE:
+${enrichedPlantInfo.map(info => `• ${info}`).join('\n')}
+
+${namesInstructions(Array.from(nigerianNamesMap.values()))}
+` : ''}
+
+${format === 'json' ? STRUCTURED_ANSWER_INSTRUCTIONS : intentPrompt?.format ?? markdownFormat}
+
+CONTEXTUAL DATA TO ANALYZE:
+${contextText}`;
+
+  return [
+    { role: "system", content: systemPrompt },
+    ...priorTurns.map(msg => ({
+      role: msg.role === 'model' ? "assistant" as const : "user" as const,
+      content: msg.text,
+    })),
+    { role: "user", content: userPrompt },
+  ];
+};
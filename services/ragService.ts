@@ -1,21 +1,189 @@
 // This is a wrapper service for RAG functionality
-// It uses either Gemini or Groq based on the environment variable
+// Answers are synthesized server-side (/api/answer), so no LLM keys ship to the browser
 
-import { PubMedArticle } from "../types";
-import { generateRAGResponse as generateGeminiRAGResponse } from "./geminiService";
-import { generateRAGResponse as generateGroqRAGResponse } from "./groqService";
+import { PubMedArticle, ChatMessage, StructuredAnswer, PlantLexiconEntry, AnswerRequest, AnswerContext, QueryIntent } from "../types";
+import { getConversationHistory } from "./conversation";
+import { extractPlantNames } from "./ragPrompt";
+import { resolvePlantNames } from "./plantLexicon";
+import { BASE_URL } from "./pubmedService";
+import { knownPlantsIn } from "./queryUnderstanding";
 
-export const generateRAGResponse = async (query: string, articles: PubMedArticle[]): Promise<string> => {
-  const provider = import.meta.env.VITE_AI_PROVIDER || 'groq'; // Default to groq
+export interface SynthesisOptions {
+  intent?: QueryIntent; // Picks the prompt template (see classifyIntent)
+  includeRetracted?: boolean; // Let retracted articles into the context
+  onContext?: (context: AnswerContext) => void; // Called with the articles and pharmacopoeia pages the server put in the context
+}
 
+/**
+ * Asks the server for Nigerian names of one plant missing from the lexicon;
+ * returns null when the lookup fails
+ */
+const fetchNigerianNamesFromServer = async (scientificName: string): Promise<PlantLexiconEntry | null> => {
   try {
-    if (provider === 'gemini') {
-      return await generateGeminiRAGResponse(query, articles);
-    } else {
-      return await generateGroqRAGResponse(query, articles);
+    const response = await fetch(`${BASE_URL}/plant-names`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scientificNames: [scientificName] }),
+    });
+    if (!response.ok) {
+      console.error(`plant-names failed with status ${response.status}:`, await response.text());
+      return null;
     }
+    const entries: PlantLexiconEntry[] = await response.json();
+    return entries[0] || null;
+  } catch (error) {
+    console.error(`Error fetching Nigerian names for ${scientificName}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Gathers what the server needs to build the prompt: the recent conversation
+ * and the plant names resolved here, where LLM suggestions are cached. The
+ * server retrieves the pharmacopoeia passages itself.
+ */
+const buildAnswerRequest = async (
+  query: string,
+  articles: PubMedArticle[],
+  history: ChatMessage[],
+  options: SynthesisOptions,
+  format: AnswerRequest['format']
+): Promise<AnswerRequest> => {
+  // Plants named in the articles, plus those the question names (all a name lookup has)
+  const plantNames = Array.from(new Set([
+    ...knownPlantsIn(query),
+    ...extractPlantNames(articles),
+  ]));
+
+  let nigerianNames: PlantLexiconEntry[] = [];
+  try {
+    const nameMap = await resolvePlantNames(plantNames, fetchNigerianNamesFromServer, { batchSize: 2, batchDelayMs: 800, maxLookups: 10 });
+    nigerianNames = Array.from(nameMap.values());
+  } catch (error) {
+    console.error('Error fetching Nigerian names:', error);
+    // Continue without names rather than failing
+  }
+
+  return {
+    query,
+    articles,
+    history: getConversationHistory(history).map(({ id, role, text, timestamp }) => ({ id, role, text, timestamp })),
+    nigerianNames,
+    format,
+    intent: options.intent,
+    includeRetracted: options.includeRetracted,
+  };
+};
+
+/**
+ * POSTs to /api/answer, turning error responses (including rate limits) into
+ * errors carrying the server's message. The server reranks the articles and
+ * fits them to its providers' context budget; `onContext` hears which made it.
+ */
+const postAnswerRequest = async (
+  request: AnswerRequest,
+  signal?: AbortSignal,
+  onContext?: SynthesisOptions['onContext']
+): Promise<Response> => {
+  const response = await fetch(`${BASE_URL}/answer`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Answer service returned ${response.status}`);
+  }
+
+  const context = response.headers.get('X-Answer-Context');
+  if (context && onContext) {
+    try {
+      onContext(JSON.parse(decodeURIComponent(context)));
+    } catch (error) {
+      console.warn('Malformed X-Answer-Context header:', error);
+    }
+  }
+  return response;
+};
+
+/**
+ * Synthesizes an answer from the articles. `history` holds the earlier turns of
+ * the conversation so follow-up questions are answered in context.
+ */
+export const generateRAGResponse = async (
+  query: string,
+  articles: PubMedArticle[],
+  history: ChatMessage[] = [],
+  options: SynthesisOptions = {}
+): Promise<string> => {
+  try {
+    const response = await postAnswerRequest(await buildAnswerRequest(query, articles, history, options, 'markdown'), undefined, options.onContext);
+    return (await response.text()) || "I could not generate a response from the available data.";
   } catch (error) {
     console.error("RAG Service Error:", error);
+    return `**System Error:** Unable to synthesize research at this time. Please try again later.`;
+  }
+};
+
+/**
+ * Streams the synthesized answer as markdown fragments so the chat can render
+ * it progressively. Abort `options.signal` to cancel mid-stream.
+ */
+export async function* streamRAGResponse(
+  query: string,
+  articles: PubMedArticle[],
+  history: ChatMessage[] = [],
+  options: SynthesisOptions & { signal?: AbortSignal } = {}
+): AsyncGenerator<string> {
+  const { signal, ...synthesisOptions } = options;
+  const request = await buildAnswerRequest(query, articles, history, synthesisOptions, 'markdown');
+  if (signal?.aborted) return;
+
+  try {
+    const response = await postAnswerRequest(request, signal, synthesisOptions.onContext);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("RAG Streaming Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+}
+
+/**
+ * Structured answer mode: returns a schema-validated object (plants, cited
+ * claims, safety items, preparations) instead of a markdown blob
+ */
+export const generateStructuredRAGResponse = async (
+  query: string,
+  articles: PubMedArticle[],
+  history: ChatMessage[] = [],
+  options: SynthesisOptions = {}
+): Promise<StructuredAnswer> => {
+  try {
+    const response = await postAnswerRequest(await buildAnswerRequest(query, articles, history, options, 'json'), undefined, options.onContext);
+    return await response.json();
+  } catch (error) {
+    console.error("Structured RAG Service Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Utility: Get just the Nigerian names for specific plants (standalone function)
+ */
+export const getNigerianNamesOnly = async (
+  scientificNames: string[]
+): Promise<PlantLexiconEntry[]> => {
+  const nameMap = await resolvePlantNames(scientificNames, fetchNigerianNamesFromServer);
+  return Array.from(nameMap.values());
+};
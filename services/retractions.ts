@@ -0,0 +1,34 @@
+import { PubMedArticle, CorrectionKind } from '../types';
+
+export const CORRECTION_LABELS: Record<CorrectionKind, string> = {
+  'retraction': 'Retracted',
+  'erratum': 'Erratum',
+  'expression-of-concern': 'Expression of concern',
+};
+
+/**
+ * Splits articles into those usable as evidence and retracted ones.
+ * With `includeRetracted` nothing is held back.
+ */
+export const partitionRetracted = (
+  articles: PubMedArticle[],
+  includeRetracted: boolean = false
+): { usable: PubMedArticle[]; retracted: PubMedArticle[] } => {
+  if (includeRetracted) return { usable: articles, retracted: [] };
+  return {
+    usable: articles.filter(article => !article.isRetracted),
+    retracted: articles.filter(article => article.isRetracted)
+  };
+};
+
+/**
+ * Correction line for the LLM context, e.g.
+ * "CORRECTIONS: RETRACTED (J Ethnopharmacol. 2021;267:113512); Erratum (...)"
+ */
+export const formatCorrectionsForPrompt = (article: PubMedArticle): string => {
+  const notices = (article.corrections || []).map(correction =>
+    `${correction.kind === 'retraction' ? 'RETRACTED' : CORRECTION_LABELS[correction.kind]}${correction.source ? ` (${correction.source})` : ''}`
+  );
+  if (article.isRetracted && !notices.some(notice => notice.startsWith('RETRACTED'))) notices.unshift('RETRACTED');
+  return notices.length > 0 ? `CORRECTIONS: ${notices.join('; ')}\n` : '';
+};
@@ -0,0 +1,263 @@
+import {
+  StructuredAnswer,
+  StructuredPlant,
+  StructuredClaim,
+  StructuredSafetyItem,
+  StructuredPreparation
+} from '../types';
+
+const SAFETY_CATEGORIES: StructuredSafetyItem['category'][] = [
+  'toxicity', 'dosage', 'contraindication', 'side_effect', 'interaction'
+];
+
+const LOCAL_NAME_LANGUAGES = ['yoruba', 'igbo', 'hausa', 'edo', 'efik', 'fulfulde', 'urhobo', 'pidgin'] as const;
+
+// "PMID:12345", "PMID:12345 §Results" (full-text section), "AJOL:700001", "EPMC:AGR-IND123", "AHP:Page24" or "WAP:Page102"
+const CITATION_PATTERN = /^(PMID:\d+(§(Methods|Results|Discussion))?|AJOL:\d+|EPMC:[A-Z]+-[A-Za-z0-9]+|(AHP|WAP):Page\d+)$/;
+
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+/**
+ * Output contract given to the model in structured mode.
+ * Kept in sync with validateStructuredAnswer below.
+ */
+export const STRUCTURED_ANSWER_INSTRUCTIONS = `RESPONSE FORMAT:
+Return ONLY a valid JSON object (no markdown, no backticks, no text before or after) with exactly this structure:
+{
+  "summary": "2-3 sentences summarizing the key findings",
+  "plants": [
+    {
+      "scientificName": "Genus species",
+      "commonName": "common English name",
+      "localNames": { "yoruba": "...", "igbo": "...", "hausa": "...", "edo": "...", "efik": "...", "pidgin": "..." },
+      "isNative": true, false or null if unknown
+    }
+  ],
+  "claims": [
+    { "plant": "Genus species", "claim": "plain-language finding", "citations": ["PMID:12345"] }
+  ],
+  "safety": [
+    { "category": "toxicity" | "dosage" | "contraindication" | "side_effect" | "interaction", "plant": "Genus species", "detail": "...", "citations": ["PMID:12345"] }
+  ],
+  "preparations": [
+    { "plant": "Genus species", "method": "e.g. aqueous leaf decoction", "plantPart": "leaf", "citations": ["AHP:Page24"] }
+  ],
+  "researchQuality": "summary of the EVIDENCE PROFILE: study designs behind the findings and how certain they are"
+}
+
+JSON RULES:
+- Every claim, safety item and preparation needs at least one citation.
+- Citations are strings of the form "PMID:12345", "AHP:Page24" or "WAP:Page24" taken from the context data; cite a full-text excerpt as "PMID:12345 §Results" and records from other databases by their ID, e.g. "AJOL:700001" or "EPMC:AGR-IND600000001".
+- Omit local names you do not know instead of guessing; use empty arrays when a section has no evidence.`;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const validateCitations = (value: unknown, path: string, errors: string[]): string[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path}.citations must be a non-empty array`);
+    return [];
+  }
+  const citations: string[] = [];
+  value.forEach((citation, i) => {
+    const normalized = typeof citation === 'string' ? citation.replace(/[\[\]\s]/g, '') : '';
+    if (CITATION_PATTERN.test(normalized)) {
+      citations.push(normalized.replace('§', ' §'));
+    } else {
+      errors.push(`${path}.citations[${i}] "${String(citation)}" is not of the form PMID:12345, AJOL:700001 or AHP:Page24`);
+    }
+  });
+  return citations;
+};
+
+const validatePlant = (value: any, path: string, errors: string[]): StructuredPlant | null => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isNonEmptyString(value.scientificName)) errors.push(`${path}.scientificName is required`);
+
+  const localNames: StructuredPlant['localNames'] = {};
+  if (value.localNames && typeof value.localNames === 'object') {
+    LOCAL_NAME_LANGUAGES.forEach(language => {
+      if (isNonEmptyString(value.localNames[language])) localNames[language] = value.localNames[language].trim();
+    });
+  }
+
+  return {
+    scientificName: String(value.scientificName || '').trim(),
+    commonName: isNonEmptyString(value.commonName) ? value.commonName.trim() : String(value.scientificName || ''),
+    localNames,
+    isNative: typeof value.isNative === 'boolean' ? value.isNative : null,
+  };
+};
+
+const validateClaim = (value: any, path: string, errors: string[]): StructuredClaim | null => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isNonEmptyString(value.claim)) errors.push(`${path}.claim is required`);
+  return {
+    plant: isNonEmptyString(value.plant) ? value.plant.trim() : '',
+    claim: String(value.claim || '').trim(),
+    citations: validateCitations(value.citations, path, errors),
+  };
+};
+
+const validateSafetyItem = (value: any, path: string, errors: string[]): StructuredSafetyItem | null => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!SAFETY_CATEGORIES.includes(value.category)) {
+    errors.push(`${path}.category must be one of ${SAFETY_CATEGORIES.join(', ')}`);
+  }
+  if (!isNonEmptyString(value.detail)) errors.push(`${path}.detail is required`);
+  return {
+    category: value.category,
+    plant: isNonEmptyString(value.plant) ? value.plant.trim() : undefined,
+    detail: String(value.detail || '').trim(),
+    citations: validateCitations(value.citations, path, errors),
+  };
+};
+
+const validatePreparation = (value: any, path: string, errors: string[]): StructuredPreparation | null => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isNonEmptyString(value.method)) errors.push(`${path}.method is required`);
+  return {
+    plant: isNonEmptyString(value.plant) ? value.plant.trim() : undefined,
+    method: String(value.method || '').trim(),
+    plantPart: isNonEmptyString(value.plantPart) ? value.plantPart.trim() : undefined,
+    citations: validateCitations(value.citations, path, errors),
+  };
+};
+
+const validateList = <T>(
+  value: unknown,
+  path: string,
+  errors: string[],
+  validateItem: (item: any, itemPath: string, errors: string[]) => T | null
+): T[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  return value
+    .map((item, i) => validateItem(item, `${path}[${i}]`, errors))
+    .filter((item): item is T => item !== null);
+};
+
+/**
+ * Checks a parsed model response against the StructuredAnswer schema.
+ * Returns the normalized answer only when there are no errors.
+ */
+export const validateStructuredAnswer = (value: unknown): { answer?: StructuredAnswer; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+  const raw = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(raw.summary)) errors.push('summary is required');
+  if (typeof raw.researchQuality !== 'string') errors.push('researchQuality must be a string');
+
+  const answer: StructuredAnswer = {
+    summary: String(raw.summary || '').trim(),
+    plants: validateList(raw.plants, 'plants', errors, validatePlant),
+    claims: validateList(raw.claims, 'claims', errors, validateClaim),
+    safety: validateList(raw.safety, 'safety', errors, validateSafetyItem),
+    preparations: validateList(raw.preparations, 'preparations', errors, validatePreparation),
+    researchQuality: String(raw.researchQuality || '').trim(),
+  };
+
+  return errors.length === 0 ? { answer, errors } : { errors };
+};
+
+/**
+ * Parses raw model output (tolerating markdown fences) and validates it
+ */
+export const parseStructuredAnswer = (responseText: string): { answer?: StructuredAnswer; errors: string[] } => {
+  const cleanedText = responseText
+    .replace(/```json\n?|\n?```/g, '')
+    .trim();
+
+  try {
+    return validateStructuredAnswer(JSON.parse(cleanedText));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+};
+
+/**
+ * Calls the model until it returns a schema-valid answer. After a malformed
+ * response, the validation errors are handed back so the model can repair them.
+ */
+export const generateStructuredWithRetry = async (
+  callModel: (repairInstructions?: string) => Promise<string>,
+  maxAttempts: number = MAX_STRUCTURED_ATTEMPTS
+): Promise<StructuredAnswer> => {
+  let repairInstructions: string | undefined;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const responseText = await callModel(repairInstructions);
+    const { answer, errors } = parseStructuredAnswer(responseText);
+    if (answer) return answer;
+
+    lastErrors = errors;
+    console.warn(`Structured answer attempt ${attempt} failed validation:`, errors);
+    repairInstructions = `Your previous response was rejected because it did not match the required JSON structure:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+Return the corrected JSON object only.`;
+  }
+
+  throw new Error(`Model did not return a valid structured answer after ${maxAttempts} attempts: ${lastErrors.join('; ')}`);
+};
+
+const formatCitations = (citations: string[]): string => citations.map(citation => `[${citation}]`).join(' ');
+
+/**
+ * Renders a structured answer as markdown, used as the message text so that
+ * follow-up questions see the answer in the conversation history
+ */
+export const structuredAnswerToMarkdown = (answer: StructuredAnswer): string => {
+  const sections: string[] = [`**Summary:** ${answer.summary}`];
+
+  if (answer.plants.length > 0) {
+    sections.push('**Plants Covered:**\n' + answer.plants.map(plant => {
+      const localNames = Object.entries(plant.localNames)
+        .map(([language, name]) => `${language}: *${name}*`)
+        .join(', ');
+      return `- ${plant.commonName} (*${plant.scientificName}*)${localNames ? ` — ${localNames}` : ''}`;
+    }).join('\n'));
+  }
+
+  if (answer.claims.length > 0) {
+    sections.push('**What the Research Says:**\n' + answer.claims
+      .map(claim => `- ${claim.plant ? `*${claim.plant}*: ` : ''}${claim.claim} ${formatCitations(claim.citations)}`)
+      .join('\n'));
+  }
+
+  if (answer.safety.length > 0) {
+    sections.push('**Safety & Precautions:**\n' + answer.safety
+      .map(item => `- **${item.category.replace('_', ' ')}:** ${item.detail} ${formatCitations(item.citations)}`)
+      .join('\n'));
+  }
+
+  if (answer.preparations.length > 0) {
+    sections.push('**Preparation Methods:**\n' + answer.preparations
+      .map(prep => `- ${prep.method}${prep.plantPart ? ` (${prep.plantPart})` : ''} ${formatCitations(prep.citations)}`)
+      .join('\n'));
+  }
+
+  if (answer.researchQuality) {
+    sections.push(`**Research Quality:** ${answer.researchQuality}`);
+  }
+
+  return sections.join('\n\n');
+};
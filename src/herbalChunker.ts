@@ -1,4 +1,47 @@
-import { ParsedHerbalDocument, HerbalChunk, ChunkHerbalOptions } from './herbalTypes';
+import { ParsedHerbalDocument, HerbalChunk, ChunkHerbalOptions, HerbalPlantRecord, PageSpan, VernacularName, HerbalTable } from './herbalTypes';
+
+// Record fields each chunk section is built from, for page provenance
+const SECTION_FIELDS: Record<string, (keyof HerbalPlantRecord)[]> = {
+  botanical: ['botanicalName', 'plantFamily', 'synonyms', 'localNames'],
+  plant_parts: ['plantPartsUsed'],
+  phytochemicals: ['phytochemicalConstituents'],
+  traditional_uses: ['traditionalUses'],
+  pharmacological_actions: ['pharmacologicalActions'],
+  preparation: ['preparationMethods'],
+  dosage: ['dosageAndAdministration'],
+  toxicology: ['toxicology'],
+  contraindications: ['contraindications'],
+  interactions: ['drugInteractions'],
+  side_effects: ['sideEffects'],
+  conservation: ['conservationStatus'],
+  distribution: ['geographicalDistribution'],
+  description: ['description'],
+  vernacular_names: ['vernacularNames'],
+  macroscopy: ['macroscopy'],
+  microscopy: ['microscopy'],
+  identity_tests: ['identityTests'],
+  quality_standards: ['qualityStandards'],
+  indications: ['indications'],
+  safety: ['safetyData'],
+  storage: ['storage'],
+  overview: ['botanicalName', 'plantFamily', 'traditionalUses', 'pharmacologicalActions', 'plantPartsUsed', 'phytochemicalConstituents'],
+};
+
+/**
+ * Pages the section's fields were found on, or the whole record's pages when
+ * the fields carry none
+ */
+function sectionPageSpan(plant: HerbalPlantRecord, sectionName: string): PageSpan | undefined {
+  const spans = (SECTION_FIELDS[sectionName] || [])
+    .map(field => plant.metadata?.fieldPages?.[field])
+    .filter((span): span is PageSpan => !!span);
+
+  if (spans.length === 0) return plant.metadata?.pageSpan;
+  return {
+    start: Math.min(...spans.map(span => span.start)),
+    end: Math.max(...spans.map(span => span.end))
+  };
+}
 
 export function chunkHerbalDocument(
   parsed: ParsedHerbalDocument,
@@ -32,6 +75,7 @@ function createPlantChunks(plant: any, plantIndex: number, options: ChunkHerbalO
   // Process each section separately, with additional context chunks
   for (const [sectionName, sectionContent] of Object.entries(plantSections)) {
     if (!sectionContent || typeof sectionContent !== 'string') continue;
+    const pageSpan = sectionPageSpan(plant, sectionName);
     
     if (sectionContent.length <= options.maxChunkSize) {
       // If the section fits in a single chunk, use it as is
@@ -39,6 +83,8 @@ function createPlantChunks(plant: any, plantIndex: number, options: ChunkHerbalO
         content: sectionContent,
         plant: plant.botanicalName,
         section: sectionName,
+        page: pageSpan?.start,
+        pageSpan,
         plantIndex,
         metadata: { sectionType: sectionName }
       });
@@ -51,6 +97,8 @@ function createPlantChunks(plant: any, plantIndex: number, options: ChunkHerbalO
           content: chunkContent,
           plant: plant.botanicalName,
           section: `${sectionName}-${i+1}`,
+          page: pageSpan?.start,
+          pageSpan,
           plantIndex,
           metadata: { 
             sectionType: sectionName,
@@ -62,13 +110,37 @@ function createPlantChunks(plant: any, plantIndex: number, options: ChunkHerbalO
     }
   }
   
+  // One chunk per table row, headers repeated so each row stands on its own
+  (plant.tables || []).forEach((table: HerbalTable, tableIndex: number) => {
+    table.rows.forEach((row, rowIndex) => {
+      chunks.push({
+        content: formatTableRow(plant, table, row),
+        plant: plant.botanicalName,
+        section: `table-${tableIndex + 1}-row-${rowIndex + 1}`,
+        page: table.page,
+        pageSpan: { start: table.page, end: table.page },
+        plantIndex,
+        metadata: {
+          sectionType: 'table',
+          tableKind: table.kind,
+          tableIndex,
+          rowIndex,
+          headers: table.headers
+        }
+      });
+    });
+  });
+
   // Create an overview chunk with key information
   const overview = createPlantOverview(plant);
   if (overview.length > 0) {
+    const pageSpan = sectionPageSpan(plant, 'overview');
     chunks.push({
       content: overview,
       plant: plant.botanicalName,
       section: 'overview',
+      page: pageSpan?.start,
+      pageSpan,
       plantIndex,
       metadata: { sectionType: 'overview' }
     });
@@ -77,6 +149,55 @@ function createPlantChunks(plant: any, plantIndex: number, options: ChunkHerbalO
   return chunks;
 }
 
+/**
+ * One line per country (or per language listed on its own), e.g.
+ * "Nigeria: Yoruba – Oganwo; Hausa – Madaci, Madachi"
+ */
+function formatVernacularNames(names: VernacularName[]): string {
+  const byCountry = new Map<string, Map<string, string[]>>();
+  names.forEach(({ name, country, language }) => {
+    const languages = byCountry.get(country || '') || new Map<string, string[]>();
+    languages.set(language || '', [...(languages.get(language || '') || []), name]);
+    byCountry.set(country || '', languages);
+  });
+
+  return Array.from(byCountry.entries()).flatMap(([country, languages]) => {
+    const entries = Array.from(languages.entries());
+    if (!country) {
+      return entries.map(([language, languageNames]) => language ? `${language}: ${languageNames.join(', ')}` : languageNames.join(', '));
+    }
+    const named = entries.map(([language, languageNames]) => language ? `${language} – ${languageNames.join(', ')}` : languageNames.join(', '));
+    return [`${country}: ${named.join('; ')}`];
+  }).join('\n');
+}
+
+const TABLE_TITLES: Record<HerbalTable['kind'], string> = {
+  quality: 'Quality standards',
+  tlc: 'TLC identity test',
+  dosage: 'Dosage',
+  other: 'Table'
+};
+
+/**
+ * A table row as text, e.g. "Khaya senegalensis – Quality standards\n
+ * Parameter: Total ash\nLimit: not more than 8.5%"
+ */
+function formatTableRow(plant: HerbalPlantRecord, table: HerbalTable, row: string[]): string {
+  const lines = [`${plant.botanicalName} – ${table.caption || TABLE_TITLES[table.kind]}`];
+  if (plant.plantPartsUsed && plant.plantPartsUsed.length > 0) {
+    lines.push(`Plant Parts Used: ${plant.plantPartsUsed.join(', ')}`);
+  }
+
+  if (table.headers.length > 0) {
+    row.forEach((cell, i) => {
+      if (cell) lines.push(table.headers[i] ? `${table.headers[i]}: ${cell}` : cell);
+    });
+  } else {
+    lines.push(row.filter(Boolean).join(' | '));
+  }
+  return lines.join('\n');
+}
+
 function getPlantSections(plant: any): Record<string, string> {
   const sections: Record<string, string> = {};
   
@@ -151,6 +272,36 @@ function getPlantSections(plant: any): Record<string, string> {
   if (plant.geographicalDistribution) {
     sections['distribution'] = `Geographical Distribution: ${plant.geographicalDistribution}`;
   }
+
+  // Monograph sections
+  if (plant.description) {
+    sections['description'] = `Description of the Plant: ${plant.description}`;
+  }
+  if (plant.vernacularNames && plant.vernacularNames.length > 0) {
+    sections['vernacular_names'] = `Vernacular Names of ${plant.botanicalName}:\n${formatVernacularNames(plant.vernacularNames)}`;
+  }
+  if (plant.macroscopy) {
+    sections['macroscopy'] = `Macroscopy: ${plant.macroscopy}`;
+  }
+  if (plant.microscopy) {
+    sections['microscopy'] = `Microscopy: ${plant.microscopy}`;
+  }
+  if (plant.identityTests && plant.identityTests.length > 0) {
+    sections['identity_tests'] = `Identity Tests (TLC) for ${plant.botanicalName}:\n${plant.identityTests.map((test: any) => test.description).join('\n\n')}`;
+  }
+  if (plant.qualityStandards && plant.qualityStandards.length > 0) {
+    sections['quality_standards'] = `Quality Standards for ${plant.botanicalName}:\n` +
+      plant.qualityStandards.map((standard: any) => `${standard.parameter}: ${standard.text}`).join('\n');
+  }
+  if (plant.indications && plant.indications.length > 0) {
+    sections['indications'] = `Therapeutic Indications: ${plant.indications.join(', ')}`;
+  }
+  if (plant.safetyData) {
+    sections['safety'] = `Safety Data: ${plant.safetyData}`;
+  }
+  if (plant.storage) {
+    sections['storage'] = `Storage: ${plant.storage}`;
+  }
   
   return sections;
 }
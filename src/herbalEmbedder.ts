@@ -1,105 +1,227 @@
-import { HerbalChunk, EmbeddedHerbalChunk, EmbedHerbalOptions } from './herbalTypes';
+import { access } from 'fs/promises';
+import { HerbalChunk, EmbeddedHerbalChunk, EmbedHerbalOptions, Embedder } from './herbalTypes';
 
-declare global {
-  interface Window {
-    // For client-side embedding if needed
-    generateEmbedding?: (text: string, model?: string) => Promise<number[]>;
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/bge-small-en-v1.5';
+
+const BGE_QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+
+interface ModelProfile {
+  dimensions: number;
+  pooling: 'cls' | 'mean';
+  queryPrefix: string;
+  documentPrefix: string;
+}
+
+// Output size, pooling and prefix convention of the models we support
+const MODEL_PROFILES: Record<string, ModelProfile> = {
+  'Xenova/bge-small-en-v1.5': { dimensions: 384, pooling: 'cls', queryPrefix: BGE_QUERY_PREFIX, documentPrefix: '' },
+  'Xenova/bge-base-en-v1.5': { dimensions: 768, pooling: 'cls', queryPrefix: BGE_QUERY_PREFIX, documentPrefix: '' },
+  'Xenova/bge-large-en-v1.5': { dimensions: 1024, pooling: 'cls', queryPrefix: BGE_QUERY_PREFIX, documentPrefix: '' },
+  'Xenova/e5-small-v2': { dimensions: 384, pooling: 'mean', queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+  'Xenova/all-MiniLM-L6-v2': { dimensions: 384, pooling: 'mean', queryPrefix: '', documentPrefix: '' },
+};
+
+export interface LocalEmbedderOptions {
+  model?: string;               // transformers.js model id
+  dimensions?: number;          // Required for models without a profile above
+  queryPrefix?: string;
+  documentPrefix?: string;
+  batchSize?: number;           // Texts per forward pass
+  localModelPath?: string;      // Directory holding <model>/onnx/model_quantized.onnx and its tokenizer
+  allowRemoteModels?: boolean;  // Fetch weights from the Hugging Face hub when they are not downloaded
+}
+
+// What transformers.js loads for a quantized feature-extraction model
+export const MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+
+// Weights fetched by `npm run models:download`, read from disk
+export const DEFAULT_MODEL_PATH = `${process.cwd()}/models/`;
+
+export class EmbeddingModelMissingError extends Error {
+  constructor(public model: string, public missing: string[], public modelPath: string) {
+    super(`Embedding model ${model} is missing ${missing.join(', ')} under ${modelPath}; run npm run models:download`);
+    this.name = 'EmbeddingModelMissingError';
+  }
+}
+
+let missingModelReported = false;
+
+/**
+ * Retrieval falls back to lexical ranking while the weights are missing;
+ * says so once per process rather than on every question
+ */
+export const reportEmbeddingModelMissing = (error: EmbeddingModelMissingError): void => {
+  if (missingModelReported) return;
+  missingModelReported = true;
+  console.warn(`${error.message}. Ranking by BM25 and shared words until then.`);
+};
+
+/**
+ * The model files not present under `modelPath`, empty once the model is
+ * fully downloaded
+ */
+export const missingModelFiles = async (model: string, modelPath: string = DEFAULT_MODEL_PATH): Promise<string[]> => {
+  const present = await Promise.all(MODEL_FILES.map(file => access(`${modelPath}${model}/${file}`).then(() => true, () => false)));
+  return MODEL_FILES.filter((_, i) => !present[i]);
+};
+
+// The pipeline call we make; transformers.js's own overloads are too large for tsc to check
+type FeatureExtractor = (texts: string[], options: { pooling: ModelProfile['pooling']; normalize: boolean }) => Promise<{ tolist: () => unknown }>;
+type LoadPipeline = (task: 'feature-extraction', model: string, options: { dtype: 'q8' }) => Promise<FeatureExtractor>;
+
+export class EmbeddingDimensionError extends Error {
+  constructor(public model: string, public expected: number, public actual: number) {
+    super(`${model} produced ${actual}-dimensional vectors, expected ${expected}`);
+    this.name = 'EmbeddingDimensionError';
   }
 }
 
+const assertDimensions = (model: string, expected: number, vectors: number[][]): void => {
+  const wrong = vectors.find(vector => vector.length !== expected);
+  if (wrong) throw new EmbeddingDimensionError(model, expected, wrong.length);
+};
+
+/**
+ * A CPU-only embedding model run with transformers.js on ONNX Runtime in
+ * Node, for ingestion and the answer routes; it never ships to the browser.
+ * Weights load on first use and are never fetched remotely unless
+ * `allowRemoteModels` is set: missing files throw EmbeddingModelMissingError.
+ * The quantized weights are used everywhere so ingestion and queries produce
+ * comparable vectors.
+ */
+export const createLocalEmbedder = (options: LocalEmbedderOptions = {}): Embedder => {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  const profile = MODEL_PROFILES[model];
+  const dimensions = options.dimensions ?? profile?.dimensions;
+  if (!dimensions) {
+    throw new Error(`Unknown embedding model ${model}; pass its dimensions`);
+  }
+
+  const pooling = profile?.pooling ?? 'mean';
+  const queryPrefix = options.queryPrefix ?? profile?.queryPrefix ?? '';
+  const documentPrefix = options.documentPrefix ?? profile?.documentPrefix ?? '';
+  const batchSize = options.batchSize ?? 16;
+
+  const allowRemoteModels = options.allowRemoteModels ?? false;
+  const modelPath = options.localModelPath ?? DEFAULT_MODEL_PATH;
+
+  let extractor: Promise<FeatureExtractor> | null = null;
+  const loadExtractor = async (): Promise<FeatureExtractor> => {
+    if (!allowRemoteModels) {
+      const missing = await missingModelFiles(model, modelPath);
+      if (missing.length > 0) throw new EmbeddingModelMissingError(model, missing, modelPath);
+    }
+    const { pipeline, env } = await import('@huggingface/transformers');
+    env.allowRemoteModels = allowRemoteModels;
+    env.localModelPath = modelPath;
+    console.log(`Loading embedding model ${model}`);
+    return (pipeline as unknown as LoadPipeline)('feature-extraction', model, { dtype: 'q8' });
+  };
+  const getExtractor = () => {
+    if (!extractor) {
+      extractor = loadExtractor().catch(error => {
+        extractor = null; // Let a later call retry
+        throw error;
+      });
+    }
+    return extractor;
+  };
+
+  const embed = async (texts: string[], prefix: string): Promise<number[][]> => {
+    const run = await getExtractor();
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize).map(text => prefix + text);
+      const output = await run(batch, { pooling, normalize: true });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+    assertDimensions(model, dimensions, vectors);
+    return vectors;
+  };
+
+  return {
+    model,
+    dimensions,
+    embedDocuments: texts => texts.length > 0 ? embed(texts, documentPrefix) : Promise.resolve([]),
+    embedQuery: async text => (await embed([text], queryPrefix))[0],
+  };
+};
+
+/**
+ * Test double: deterministic vectors folded from the text's bytes. They carry
+ * no meaning, so never use it for real retrieval.
+ */
+export const createMockEmbedder = (dimensions: number = 384): Embedder => {
+  const embed = (text: string): number[] => {
+    const data = new TextEncoder().encode(text.toLowerCase());
+    const embedding: number[] = new Array(dimensions).fill(0);
+    for (let i = 0; i < data.length; i++) {
+      const idx = i % embedding.length;
+      embedding[idx] = (embedding[idx] + (data[i] / 255.0)) % 1;
+    }
+    const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    return embedding.map(val => val / (norm || 1));
+  };
+
+  return {
+    model: `mock-${dimensions}`,
+    dimensions,
+    embedDocuments: async texts => texts.map(embed),
+    embedQuery: async text => embed(text),
+  };
+};
+
+let defaultEmbedder: Embedder | null = null;
+
+/**
+ * The embedder shared by ingestion and query-time retrieval, so stored
+ * vectors and query vectors always come from the same model
+ */
+export const getDefaultEmbedder = (): Embedder => {
+  if (!defaultEmbedder) defaultEmbedder = createLocalEmbedder();
+  return defaultEmbedder;
+};
+
+// Replaces the shared embedder, e.g. with createMockEmbedder() in tests; null goes back to the local model
+export const setDefaultEmbedder = (embedder: Embedder | null): void => {
+  defaultEmbedder = embedder;
+};
+
+const chunkId = () => `herbal-chunk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
 export async function embedHerbalChunks(
   chunks: HerbalChunk[],
   options?: EmbedHerbalOptions
 ): Promise<EmbeddedHerbalChunk[]> {
   const opts = {
-    model: 'BAAI/bge-large-en-v1.5', // Default model
-    batchSize: 10, // Process in batches to manage API limits
+    batchSize: 16,
     ...options
   };
+  const embedder = opts.embedder || (opts.model ? createLocalEmbedder({ model: opts.model }) : getDefaultEmbedder());
 
   const embeddedChunks: EmbeddedHerbalChunk[] = [];
   const batchSize = opts.batchSize;
 
-  // Process in batches to handle API rate limits
+  // Embed in batches so one failing batch does not lose the rest
   for (let i = 0; i < chunks.length; i += batchSize) {
     const batch = chunks.slice(i, i + batchSize);
-    
-    // Process each chunk in the batch
-    const batchResults = await Promise.all(
-      batch.map(async (chunk) => {
-        try {
-          // Generate embedding for the chunk content
-          const embedding = await generateEmbedding(chunk.content, opts.model);
-          
-          return {
-            chunk,
-            embedding,
-            id: `herbal-chunk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-          };
-        } catch (error) {
-          console.error(`Error embedding chunk for plant ${chunk.plant}:`, error);
-          // Return a chunk with an empty embedding in case of error
-          return {
-            chunk,
-            embedding: [],
-            id: `herbal-chunk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-          };
-        }
-      })
-    );
-    
-    embeddedChunks.push(...batchResults);
-  }
-
-  return embeddedChunks;
-}
 
-// This function handles the actual embedding generation
-// It can work with various embedding providers
-async function generateEmbedding(text: string, model?: string): Promise<number[]> {
-  // Use the specified model or default
-  const embeddingModel = model || 'BAAI/bge-large-en-v1.5';
-  
-  // For now, using a fallback approach since we don't have a specific embedding API
-  // In a real implementation, this would call an embedding API
-  try {
-    // Check if we're in a browser environment with a local embedding function
-    if (typeof window !== 'undefined' && window.generateEmbedding) {
-      return await window.generateEmbedding(text, embeddingModel);
-    } else {
-      // Fallback: use a mock embedding function or call an external API
-      // For demonstration, we'll return a mock embedding
-      return await getMockEmbedding(text);
+    try {
+      const embeddings = await embedder.embedDocuments(batch.map(chunk => chunk.content));
+      assertDimensions(embedder.model, embedder.dimensions, embeddings); // Plugged-in embedders are checked too
+      embeddedChunks.push(...batch.map((chunk, j) => ({ chunk, embedding: embeddings[j], id: chunkId(), model: embedder.model })));
+    } catch (error) {
+      // A missing model or one with the wrong output size would fail every batch
+      if (error instanceof EmbeddingDimensionError || error instanceof EmbeddingModelMissingError) throw error;
+      console.error(`Error embedding chunks ${i + 1}-${i + batch.length}:`, error);
+      // Keep the chunks with empty embeddings; retrieval skips them
+      embeddedChunks.push(...batch.map(chunk => ({ chunk, embedding: [], id: chunkId(), model: embedder.model })));
     }
-  } catch (error) {
-    console.warn(`Failed to generate embedding with ${embeddingModel}, trying fallback model...`);
-    // Try with a fallback model
-    return await getMockEmbedding(text);
-  }
-}
 
-// Mock embedding function for demonstration purposes
-// In a real implementation, this would call the actual embedding API
-async function getMockEmbedding(text: string): Promise<number[]> {
-  // In a real implementation, this would call an actual embedding API
-  // For now, we create a mock embedding based on text characteristics
-  
-  // Create a simple hash-based embedding for demonstration
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text.toLowerCase());
-  
-  // Create a 384-dimension embedding (common size for many embedding models)
-  const embedding: number[] = new Array(384).fill(0);
-  
-  // Fill the embedding with a pattern based on the input text
-  for (let i = 0; i < data.length; i++) {
-    const idx = i % embedding.length;
-    embedding[idx] = (embedding[idx] + (data[i] / 255.0)) % 1;
+    console.log(`Embedded ${Math.min(i + batchSize, chunks.length)}/${chunks.length} chunks with ${embedder.model}`);
   }
-  
-  // Normalize the embedding to unit length
-  const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  return embedding.map(val => val / (norm || 1));
+
+  return embeddedChunks;
 }
 
 // Alternative function to embed additional semantic information
@@ -107,12 +229,6 @@ export async function embedHerbalSemantics(
   chunks: HerbalChunk[],
   options?: EmbedHerbalOptions
 ): Promise<EmbeddedHerbalChunk[]> {
-  const opts = {
-    model: 'BAAI/bge-large-en-v1.5',
-    batchSize: 10,
-    ...options
-  };
-
   const semanticChunks: HerbalChunk[] = [];
   
   // Create additional semantic chunks for better retrieval
@@ -163,5 +279,5 @@ export async function embedHerbalSemantics(
     semanticChunks.push(chunk);
   }
   
-  return await embedHerbalChunks(semanticChunks, opts);
+  return await embedHerbalChunks(semanticChunks, options);
 }
\ No newline at end of file
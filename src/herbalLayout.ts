@@ -0,0 +1,281 @@
+import { LayoutCell, LayoutLine, PageLayout } from './herbalTypes';
+
+// The parts of a pdf.js TextItem the layout needs
+export interface PdfTextItem {
+  str: string;
+  transform: number[];  // [a, b, c, d, x, y]; the font size is the length of (c, d)
+  width: number;
+  height: number;
+  fontName: string;
+}
+
+export interface PageGeometry {
+  page: number;
+  view: number[];                      // pdf.js page.view: [x1, y1, x2, y2]
+  fontNames?: Record<string, string>;  // pdf.js font id -> real font name
+}
+
+const LINE_TOLERANCE = 0.5;         // Baselines closer than this many font sizes share a line
+const SPACE_GAP = 0.15;             // A gap wider than this many font sizes between items is a space
+const CELL_GAP = 1.2;               // A gap wider than this many font sizes separates table cells
+const GUTTER_REGION = [0.3, 0.7];   // Part of the page width a column gutter may lie in
+const MIN_GUTTER_WIDTH = 8;         // PDF units
+const MIN_COLUMN_ITEMS = 5;         // Each column needs at least this many items
+const HEADING_SIZE_RATIO = 1.15;    // Lines this much larger than body text are headings
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_WORDS_WITH_STOP = 6;
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  fontName: string;
+}
+
+const isBoldFont = (name: string) => /bold|black|heavy|semibold|demi/i.test(name);
+const isItalicFont = (name: string) => /italic|oblique/i.test(name);
+
+/**
+ * The x position of the gap between two columns: the widest band in the
+ * middle of the page that (almost) no text crosses. Null on single-column pages.
+ */
+function findGutter(items: PositionedItem[], pageWidth: number): number | null {
+  const coverage = new Array(Math.ceil(pageWidth)).fill(0);
+  items.forEach(item => {
+    for (let x = Math.max(0, Math.floor(item.x)); x < Math.min(coverage.length, Math.ceil(item.x + item.width)); x++) {
+      coverage[x]++;
+    }
+  });
+
+  // Titles and headings spanning both columns may cross the gutter
+  const allowed = Math.max(2, Math.floor(items.length * 0.05));
+  const from = Math.floor(pageWidth * GUTTER_REGION[0]);
+  const to = Math.ceil(pageWidth * GUTTER_REGION[1]);
+  let best: { start: number; width: number } | null = null;
+  let runStart = -1;
+
+  for (let x = from; x <= to; x++) {
+    const empty = x < to && coverage[x] <= allowed;
+    if (empty && runStart === -1) runStart = x;
+    if (!empty && runStart !== -1) {
+      if (!best || x - runStart > best.width) best = { start: runStart, width: x - runStart };
+      runStart = -1;
+    }
+  }
+
+  if (!best || best.width < MIN_GUTTER_WIDTH) return null;
+  const gutter = best.start + best.width / 2;
+  const left = items.filter(item => item.x + item.width <= gutter).length;
+  const right = items.filter(item => item.x >= gutter).length;
+  return left >= MIN_COLUMN_ITEMS && right >= MIN_COLUMN_ITEMS ? gutter : null;
+}
+
+/**
+ * Groups items into lines by baseline, top of the page first
+ */
+function groupLines(items: PositionedItem[]): PositionedItem[][] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedItem[][] = [];
+
+  sorted.forEach(item => {
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(current[0].y - item.y) <= LINE_TOLERANCE * Math.max(current[0].fontSize, item.fontSize)) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Joins a line's items left to right, adding spaces where the gap between
+ * items is wider than a fraction of the font size
+ */
+function joinItems(items: PositionedItem[]): string {
+  let text = '';
+  items.forEach((item, i) => {
+    const previous = items[i - 1];
+    if (previous) {
+      const gap = item.x - (previous.x + previous.width);
+      if (gap > SPACE_GAP * item.fontSize && !text.endsWith(' ') && !item.text.startsWith(' ')) text += ' ';
+    }
+    text += item.text;
+  });
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits a line at gaps too wide for a word space, as between table columns
+ */
+function splitCells(items: PositionedItem[]): LayoutCell[] {
+  const groups: PositionedItem[][] = [];
+  items.forEach((item, i) => {
+    const previous = items[i - 1];
+    if (previous && item.x - (previous.x + previous.width) <= CELL_GAP * item.fontSize) {
+      groups[groups.length - 1].push(item);
+    } else {
+      groups.push([item]);
+    }
+  });
+
+  return groups.map(group => {
+    const last = group[group.length - 1];
+    return { text: joinItems(group), x: group[0].x, width: last.x + last.width - group[0].x };
+  });
+}
+
+function toLayoutLine(items: PositionedItem[], column: number, fontNames: Record<string, string>): LayoutLine {
+  // The font covering most characters stands for the line
+  const dominant = items.reduce((best, item) => item.text.length > best.text.length ? item : best, items[0]);
+  const fontName = fontNames[dominant.fontName] || dominant.fontName;
+  const last = items[items.length - 1];
+
+  return {
+    text: joinItems(items),
+    cells: splitCells(items),
+    x: items[0].x,
+    y: dominant.y,
+    width: last.x + last.width - items[0].x,
+    fontSize: dominant.fontSize,
+    fontName,
+    bold: isBoldFont(fontName),
+    italic: isItalicFont(fontName),
+    column,
+    isHeading: false
+  };
+}
+
+// Most common font size weighted by characters, rounded to half points
+function bodyFontSize(items: PositionedItem[]): number {
+  const weights = new Map<number, number>();
+  items.forEach(item => {
+    const size = Math.round(item.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + item.text.length);
+  });
+  let best = 0, bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+/**
+ * Headings by typography: noticeably larger than body text, or set entirely
+ * in bold at body size. Levels rank the heading sizes, largest first.
+ */
+function tagHeadings(lines: LayoutLine[], bodySize: number): void {
+  lines.forEach(line => {
+    if (!line.text || line.text.length > MAX_HEADING_LENGTH || !/[A-Za-z]/.test(line.text)) return;
+    const larger = line.fontSize >= bodySize * HEADING_SIZE_RATIO;
+    // A bold sentence is emphasis, not a heading; a trailing author abbreviation ("Del.") is fine
+    const sentence = /[.;,]$/.test(line.text) && line.text.split(/\s+/).length > MAX_HEADING_WORDS_WITH_STOP;
+    const boldLabel = line.bold && line.fontSize >= bodySize * 0.95 && !sentence;
+    line.isHeading = larger || boldLabel;
+  });
+
+  const sizes = Array.from(new Set(lines.filter(line => line.isHeading).map(line => Math.round(line.fontSize * 2) / 2)))
+    .sort((a, b) => b - a);
+  lines.forEach(line => {
+    if (line.isHeading) line.headingLevel = sizes.indexOf(Math.round(line.fontSize * 2) / 2) + 1;
+  });
+}
+
+/**
+ * Rebuilds a page's lines in reading order from pdf.js text items. On
+ * two-column pages each column is read top to bottom before the next; lines
+ * spanning both columns (titles, full-width headings) close off the columns
+ * above them.
+ */
+export function buildPageLayout(rawItems: PdfTextItem[], { page, view, fontNames = {} }: PageGeometry): PageLayout {
+  const [x1, y1, x2, y2] = view;
+  const width = x2 - x1;
+  const height = y2 - y1;
+
+  const items: PositionedItem[] = rawItems
+    .filter(item => item.str.trim() !== '')
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4] - x1,
+      y: item.transform[5] - y1,
+      width: item.width,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+      fontName: item.fontName
+    }));
+
+  const gutter = findGutter(items, width);
+  const columnOf = (item: PositionedItem) => {
+    if (gutter === null) return 0;
+    if (item.x + item.width <= gutter) return 0;
+    return item.x >= gutter ? 1 : -1;
+  };
+
+  const linesIn = (column: number) =>
+    groupLines(items.filter(item => columnOf(item) === column)).map(line => toLayoutLine(line, column, fontNames));
+
+  const spanning = linesIn(-1);
+  const columns = [linesIn(0), linesIn(1)];
+  const lines: LayoutLine[] = [];
+
+  // Columns above each spanning line are read first, left column before right
+  spanning.forEach(span => {
+    columns.forEach((columnLines, i) => {
+      lines.push(...columnLines.filter(line => line.y > span.y));
+      columns[i] = columnLines.filter(line => line.y <= span.y);
+    });
+    lines.push(span);
+  });
+  columns.forEach(columnLines => lines.push(...columnLines));
+
+  const bodySize = bodyFontSize(items);
+  tagHeadings(lines, bodySize);
+
+  return {
+    page,
+    width,
+    height,
+    columns: gutter === null ? 1 : 2,
+    bodyFontSize: bodySize,
+    lines
+  };
+}
+
+/**
+ * Real font names, e.g. "ABCDEF+Times-Bold", so bold and italic can be told
+ * apart. pdf.js only holds the font objects once the page's operator list
+ * has been loaded; otherwise the generic family from the text styles is used.
+ */
+async function resolveFontNames(page: any, fontIds: string[], styles: Record<string, { fontFamily: string }>): Promise<Record<string, string>> {
+  try {
+    await page.getOperatorList();
+  } catch (error) {
+    console.warn('Could not load page fonts, headings will be detected by size only:', error);
+  }
+
+  const names: Record<string, string> = {};
+  fontIds.forEach(id => {
+    names[id] = styles[id]?.fontFamily || id;
+    try {
+      if (page.commonObjs.has(id)) names[id] = page.commonObjs.get(id).name || names[id];
+    } catch {
+      // Keep the generic family
+    }
+  });
+  return names;
+}
+
+/**
+ * Reads one pdf.js page into lines with positions, fonts, columns and headings
+ */
+export async function extractPageLayout(page: any, pageNumber: number): Promise<PageLayout> {
+  const content = await page.getTextContent();
+  const items = content.items.filter((item: any) => typeof item.str === 'string') as PdfTextItem[];
+  const fontNames = await resolveFontNames(page, Array.from(new Set(items.map(item => item.fontName))), content.styles);
+  return buildPageLayout(items, { page: pageNumber, view: page.view, fontNames });
+}
@@ -0,0 +1,260 @@
+import { HerbalPlantRecord, VernacularName, TLCIdentityTest, QualityStandard } from './herbalTypes';
+
+export type MonographField = Extract<keyof HerbalPlantRecord,
+  'description' | 'vernacularNames' | 'macroscopy' | 'microscopy' | 'identityTests' | 'qualityStandards' |
+  'pharmacologicalActions' | 'indications' | 'safetyData' | 'storage'>;
+
+// A monograph section found under a heading, with offsets into the record text
+export interface MonographSection {
+  field: MonographField;
+  heading: string;
+  lines: string[];  // Content lines as printed
+  text: string;     // Content joined into paragraphs
+  start: number;
+  end: number;
+}
+
+// WAHP and AHP monograph headings. Those without a field are only recognised
+// so the section before them ends there.
+const MONOGRAPH_HEADINGS: { field?: MonographField; pattern: string }[] = [
+  { field: 'vernacularNames', pattern: '(?:common|vernacular|local) names?' },
+  { field: 'description', pattern: 'description(?: of the plant)?|(?:botanical|plant) description' },
+  { field: 'macroscopy', pattern: 'macroscopy|macroscopic(?:al)? (?:characters|description|examination)' },
+  { field: 'microscopy', pattern: 'microscopy|microscopic(?:al)? (?:characters|description|examination)' },
+  { field: 'identityTests', pattern: 'thin[- ]layer chromatography|tlc|chromatographic fingerprint(?:ing)?|identity tests?' },
+  { field: 'qualityStandards', pattern: 'quality standards?|tests? for purity(?: and identity)?|purity tests?|physico-?chemical (?:constants|data|parameters|tests)|quantitative standards' },
+  { field: 'pharmacologicalActions', pattern: '(?:therapeutic )?actions' },
+  { field: 'indications', pattern: '(?:therapeutic )?indications' },
+  { field: 'safetyData', pattern: 'safety(?: data)?' },
+  { field: 'storage', pattern: 'storage(?: conditions)?' },
+  {
+    pattern: 'botanical name|family|synonyms?|herbarium specimens?|(?:habitat and )?geographical distribution|plant material of interest|' +
+      'other parts? used|definition of (?:the )?plant material(?: of interest)?|ethnomedical uses|traditional uses|' +
+      '(?:biological and )?pharmacological activities|clinical data|chemical constituents|powdered plant material|' +
+      'organoleptic(?: properties)?|precautions for use|adverse effects|contraindications|drug interactions|dosage forms?|dosage|references'
+  },
+];
+
+// A heading alone on its line, optionally numbered ("4.2 Microscopy") or with the content after a colon
+const HEADING_LINES = MONOGRAPH_HEADINGS.map(({ field, pattern }) => ({
+  field,
+  regex: new RegExp(`^\\s*(?:\\d+(?:\\.\\d+)*\\.?\\s+)?(?:${pattern})\\s*(?::\\s*(.*))?$`, 'i')
+}));
+
+export const isMonographHeading = (line: string): boolean => HEADING_LINES.some(({ regex }) => regex.test(line));
+
+/**
+ * Joins printed lines into paragraphs: blank lines separate paragraphs,
+ * wrapped lines are joined with a space (or directly after a hyphen)
+ */
+function joinLines(lines: string[]): string {
+  const paragraphs: string[] = [];
+  let current = '';
+  lines.forEach(raw => {
+    const line = raw.trim();
+    if (!line) {
+      if (current) paragraphs.push(current);
+      current = '';
+    } else {
+      current = !current ? line : current.endsWith('-') ? current + line : `${current} ${line}`;
+    }
+  });
+  if (current) paragraphs.push(current);
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Splits a plant record into its monograph sections. Each section runs from
+ * its heading to the next recognised heading, so multi-paragraph sections
+ * are kept whole.
+ */
+export function splitMonographSections(text: string): MonographSection[] {
+  const sections: MonographSection[] = [];
+  let current: { field?: MonographField; heading: string; lines: string[]; start: number } | null = null;
+  let offset = 0;
+
+  const close = (end: number) => {
+    if (current?.field) {
+      const joined = joinLines(current.lines);
+      if (joined) sections.push({ field: current.field, heading: current.heading, lines: current.lines, text: joined, start: current.start, end });
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = HEADING_LINES.map(({ field, regex }) => ({ field, match: line.match(regex) })).find(({ match }) => match);
+    if (heading?.match) {
+      close(offset);
+      const inline = heading.match[1];
+      current = {
+        field: heading.field,
+        heading: line.slice(0, inline ? line.lastIndexOf(inline) : line.length).replace(/:\s*$/, '').trim(),
+        lines: inline ? [inline] : [],
+        start: inline ? offset + line.lastIndexOf(inline) : offset + line.length + 1
+      };
+    } else if (current) {
+      current.lines.push(line);
+    }
+    offset += line.length + 1;
+  }
+  close(text.length);
+
+  return sections;
+}
+
+// Countries the WAHP and AHP list names under
+const COUNTRIES = new Set([
+  'benin', 'burkina faso', 'cameroon', 'cape verde', 'cabo verde', "côte d'ivoire", "cote d'ivoire", 'ivory coast',
+  'gambia', 'the gambia', 'ghana', 'guinea', 'guinea-bissau', 'guinea bissau', 'liberia', 'mali', 'niger', 'nigeria',
+  'senegal', 'sierra leone', 'togo', 'chad', 'kenya', 'tanzania', 'uganda', 'ethiopia', 'madagascar', 'south africa'
+]);
+
+// Languages listed on their own, outside any country
+const LANGUAGE_LABELS = new Set(['english', 'french', 'portuguese', 'arabic', 'latin']);
+
+// "Nigeria:", "Nigeria (Yoruba):" or "English:" at the start of an entry
+const LABEL_PATTERN = /^(\p{Lu}[\p{L}'’ -]*?)\s*(?:\(([^)]+)\))?\s*:\s*(.*)$/u;
+
+const isCountry = (label: string) => COUNTRIES.has(label.trim().toLowerCase());
+
+const splitNames = (names: string): string[] =>
+  names.split(',').map(name => name.trim().replace(/\.$/, '')).filter(Boolean);
+
+/**
+ * Parses a "Common names" section into names labelled with their country
+ * and language. Understands the WAHP layout ("Nigeria: Yoruba – Ewuro;
+ * Igbo – Onugbu") as well as "Nigeria (Yoruba): ewuro" and "ewuro (Yoruba)".
+ */
+export function parseVernacularNames(lines: string[]): VernacularName[] {
+  // Wrapped lines continue the entry above; a new "Label:", or any line under a bare country, starts the next one
+  const entries: string[] = [];
+  lines.map(line => line.trim()).filter(Boolean).forEach(line => {
+    const previous = entries[entries.length - 1];
+    if (previous === undefined || isCountry(previous) || LABEL_PATTERN.test(line) || isCountry(line)) entries.push(line);
+    else entries[entries.length - 1] += ` ${line}`;
+  });
+
+  const names: VernacularName[] = [];
+  let country: string | undefined;
+  entries.forEach(entry => {
+    let entryLanguage: string | undefined;
+    let rest = entry;
+
+    // A country on its own line heads the names below it
+    if (isCountry(entry)) {
+      country = entry;
+      return;
+    }
+
+    // Other labels are languages of the country above them ("Nigeria" then "Yoruba: ewuro")
+    const label = entry.match(LABEL_PATTERN);
+    if (label) {
+      const labelText = label[1].trim();
+      if (isCountry(labelText)) {
+        country = labelText;
+      } else {
+        if (LANGUAGE_LABELS.has(labelText.toLowerCase())) country = undefined;
+        entryLanguage = labelText;
+      }
+      entryLanguage = label[2]?.trim() || entryLanguage;
+      rest = label[3];
+    }
+
+    rest.split(';').map(part => part.trim()).filter(Boolean).forEach(part => {
+      const languageFirst = part.match(/^(\p{Lu}[\p{L}'’ ]*?)\s*(?:\s[–—-]\s|[–—:])\s*(.+)$/u);
+      if (languageFirst) {
+        splitNames(languageFirst[2]).forEach(name => names.push({ name, country, language: languageFirst[1] }));
+        return;
+      }
+      splitNames(part).forEach(item => {
+        const languageAfter = item.match(/^(.+?)\s*\(([^)]+)\)$/);
+        names.push(languageAfter
+          ? { name: languageAfter[1].trim(), country, language: languageAfter[2].trim() }
+          : { name: item, country, language: entryLanguage });
+      });
+    });
+  });
+
+  return names;
+}
+
+/**
+ * Pulls the mobile phase, detection and Rf values out of a TLC identity test
+ */
+export function parseTLCTest(text: string): TLCIdentityTest {
+  const test: TLCIdentityTest = { description: text };
+
+  const mobilePhase = text.match(/(?:mobile phase|solvent system|developing solvent|eluent)\s*[:\-–]?\s*(.+?)(?:\.\s|\n|$)/i);
+  if (mobilePhase) test.mobilePhase = mobilePhase[1].trim();
+
+  const detection = text.match(/(?:detection|spray reagent|visuali[sz]ation)\s*[:\-–]?\s*(.+?)(?:\.\s|\n|$)/i);
+  if (detection) test.detection = detection[1].trim();
+
+  const rfStart = text.search(/\bR[fF]\b/);
+  if (rfStart !== -1) {
+    const rfValues = Array.from(text.slice(rfStart).matchAll(/(?<![\d.])(0?\.\d{1,3}|1\.0{1,3})(?!\d|\.\d)/g), match => Number(match[1]));
+    if (rfValues.length > 0) test.rfValues = rfValues;
+  }
+
+  return test;
+}
+
+// Quality parameters the pharmacopoeias specify, at the start of a line
+const QUALITY_PARAMETER = new RegExp('^(' + [
+  'moisture(?: content)?', 'water content', 'loss on drying',
+  'total ash', 'acid[- ]insoluble ash', 'water[- ]soluble ash', 'sulph?ated ash', 'sulfated ash',
+  '(?:water|alcohol|ethanol|methanol|hexane|petroleum ether|ether)[- ]soluble extractives?(?: values?)?(?:\\s*\\([^)]*\\))?',
+  'extractive values?', 'foreign (?:organic )?matter', 'swelling index', 'foaming index', 'bitterness value', 'ph'
+].join('|') + ')(?![a-z])', 'i');
+
+export const isQualityParameter = (text: string): boolean => QUALITY_PARAMETER.test(text.trim());
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+/**
+ * Parses specifications such as "Total ash: not more than 8.5%" or
+ * "Water-soluble extractive 12.0 - 15.5 %", one per line or per
+ * semicolon-separated part. Lines without a number are skipped.
+ */
+export function parseQualityStandards(lines: string[]): QualityStandard[] {
+  const standards: QualityStandard[] = [];
+
+  lines.flatMap(line => line.split(';')).forEach(part => {
+    const segment = part.trim().replace(/^[•*·-]\s*/, '');
+    const parameter = segment.match(QUALITY_PARAMETER);
+    if (!parameter) return;
+
+    const spec = segment.slice(parameter[0].length).replace(/^[\s:=–—-]+/, '').trim().replace(/\.$/, '');
+    if (!/\d/.test(spec)) return;
+
+    const standard: QualityStandard = { parameter: parameter[1].trim(), text: spec };
+    const range = spec.match(new RegExp(`${NUMBER}\\s*(?:-|–|to)\\s*${NUMBER}`));
+    const first = spec.match(new RegExp(NUMBER));
+
+    if (range) {
+      standard.min = Number(range[1]);
+      standard.max = Number(range[2]);
+    } else if (first && /not more than|nmt|≤|<|maximum|\bmax\b|at most|not to exceed|does not exceed/i.test(spec)) {
+      standard.max = Number(first[1]);
+    } else if (first && /not less than|nlt|≥|>|minimum|\bmin\b|at least/i.test(spec)) {
+      standard.min = Number(first[1]);
+    } else if (first) {
+      standard.value = Number(first[1]);
+    }
+
+    const unit = spec.match(/\d\s*(%\s*(?:w\/w|w\/v|v\/v)?|mg\/g|cfu\/g|g|ml)/i);
+    if (unit) standard.unit = unit[1].trim();
+
+    standards.push(standard);
+  });
+
+  return standards;
+}
+
+/**
+ * Short lists ("Antimalarial, antipyretic; laxative") become items; prose
+ * is kept as one item so sentences are not cut at their commas
+ */
+export function parseListSection(text: string): string[] {
+  if (/[.!?]\s+[A-Z]/.test(text)) return [text];
+  return text.split(/[,;]|\n+/).map(item => item.trim().replace(/\.$/, '')).filter(Boolean);
+}
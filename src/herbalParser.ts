@@ -1,12 +1,20 @@
-import pdfjsLib from 'pdfjs-dist';
-import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.entry';
-import { ParsedHerbalDocument, HerbalPlantRecord, ParseHerbalOptions } from './herbalTypes';
-
-// Set the worker for PDF.js
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { ParsedHerbalDocument, HerbalPlantRecord, ParseHerbalOptions, PageOffset, PageSpan, PageLayout, HerbalTable } from './herbalTypes';
+import { extractPageLayout } from './herbalLayout';
+import { detectTables } from './herbalTables';
+import { splitMonographSections, isMonographHeading, parseVernacularNames, parseTLCTest, parseQualityStandards, parseListSection } from './herbalMonograph';
+
+// Set the worker for PDF.js; Node loads it itself
+if (typeof window !== 'undefined') {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/legacy/build/pdf.worker.mjs', import.meta.url).toString();
+}
 
+/**
+ * Parses a pharmacopoeia PDF, fetched from a URL or passed as bytes (as
+ * ingestion does with files read from disk)
+ */
 export async function parseHerbalPDF(
-  filePath: string,
+  file: string | Uint8Array,
   options?: ParseHerbalOptions
 ): Promise<ParsedHerbalDocument> {
   const opts = {
@@ -18,35 +26,50 @@ export async function parseHerbalPDF(
 
   try {
     // Load the PDF file
-    const response = await fetch(filePath);
-    const uint8Array = new Uint8Array(await response.arrayBuffer());
-    
-    const pdf = await pdfjsLib.getDocument(uint8Array).promise;
+    const data = typeof file === 'string' ? new Uint8Array(await (await fetch(file)).arrayBuffer()) : file;
+
+    const pdf = await pdfjsLib.getDocument({ data }).promise;
     const pageCount = pdf.numPages;
     
     let fullText = '';
     const pageTexts: string[] = [];
+    const pageOffsets: PageOffset[] = [];
+    const layout: PageLayout[] = [];
+    const headingOffsets = new Set<number>();
+    const tables: PositionedTable[] = [];
 
     // Extract text from each page
     for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
       const page = await pdf.getPage(pageNum);
-      const pageTextContent = await page.getTextContent();
-      
-      // Join the items to form the page text
-      const pageText = pageTextContent.items
-        .map((item: any) => item.str)
-        .join('');
-      
+      const pageLayout = await extractPageLayout(page, pageNum);
+
+      // One line of text per layout line, in reading order
+      let pageText = '';
+      const lineOffsets: number[] = [];
+      pageLayout.lines.forEach((line, i) => {
+        if (i > 0) pageText += '\n';
+        lineOffsets.push(fullText.length + pageText.length);
+        if (line.isHeading) headingOffsets.add(fullText.length + pageText.length);
+        pageText += line.text;
+      });
+
+      if (opts.extractTables) {
+        detectTables(pageLayout).forEach(({ table, firstLine }) => tables.push({ table, offset: lineOffsets[firstLine] }));
+      }
+
+      layout.push(pageLayout);
       pageTexts.push(pageText);
+      pageOffsets.push({ page: pageNum, start: fullText.length, end: fullText.length + pageText.length });
       fullText += pageText + ' \n';
     }
 
     // Parse the herbal document
-    const parsedDocument = parseHerbalDocument(fullText, opts);
+    const parsedDocument = parseHerbalDocument(fullText, opts, { pageOffsets, headingOffsets, tables });
+    parsedDocument.layout = layout;
     parsedDocument.metadata = {
       ...parsedDocument.metadata,
       pageCount,
-      source: filePath,
+      source: typeof file === 'string' ? file : undefined,
       extractionDate: new Date().toISOString()
     };
 
@@ -57,15 +80,67 @@ export async function parseHerbalPDF(
   }
 }
 
-function parseHerbalDocument(text: string, options: ParseHerbalOptions): ParsedHerbalDocument {
+// A plant section and where it starts in the document text
+interface TextSection {
+  text: string;
+  start: number;
+}
+
+// A table and the offset of its first line in the document text
+interface PositionedTable {
+  table: HerbalTable;
+  offset: number;
+}
+
+// What a PDF's layout adds to its text; all absent when parsing plain text
+interface DocumentLayout {
+  pageOffsets?: PageOffset[];
+  headingOffsets?: Set<number>;  // Offsets of lines set as headings
+  tables?: PositionedTable[];
+}
+
+/**
+ * The page holding the character at `offset`. The separator after a page
+ * counts as part of it.
+ */
+function pageAtOffset(pageOffsets: PageOffset[], offset: number): number | undefined {
+  let page: number | undefined;
+  for (const pageOffset of pageOffsets) {
+    if (pageOffset.start > offset) break;
+    page = pageOffset.page;
+  }
+  return page;
+}
+
+/**
+ * Pages covered by the text between `start` and `end` (exclusive)
+ */
+function pageSpanOf(pageOffsets: PageOffset[], start: number, end: number): PageSpan | undefined {
+  const first = pageAtOffset(pageOffsets, start);
+  const last = pageAtOffset(pageOffsets, Math.max(start, end - 1));
+  return first !== undefined && last !== undefined ? { start: first, end: last } : undefined;
+}
+
+/**
+ * Without heading offsets from a PDF layout, plant sections are found by
+ * guessing from line length. Tables go to the record whose text holds them.
+ */
+function parseHerbalDocument(
+  text: string,
+  options: ParseHerbalOptions,
+  { pageOffsets = [], headingOffsets, tables = [] }: DocumentLayout = {}
+): ParsedHerbalDocument {
   const plants: HerbalPlantRecord[] = [];
   const metadata: Record<string, any> = {};
 
   // Enhanced parsing based on domain knowledge of herbal/pharmacopoeia documents
-  const sections = splitByPlantSections(text, options);
+  const sections = splitByPlantSections(text, options, headingOffsets);
 
-  sections.forEach((section, index) => {
-    const plantRecord = extractPlantInformation(section, index);
+  sections.forEach((section) => {
+    const sectionTables = tables
+      .filter(({ offset }) => offset >= section.start && offset < section.start + section.text.length)
+      .map(({ table }) => table);
+    const plantRecord = extractPlantInformation(section, pageOffsets, sectionTables);
     if (plantRecord && plantRecord.botanicalName) {
       plants.push(plantRecord);
     }
@@ -75,11 +150,12 @@ function parseHerbalDocument(text: string, options: ParseHerbalOptions): ParsedH
     plants,
     rawText: text,
     metadata,
-    pageCount: undefined // Will be set after PDF loading
+    pageCount: undefined, // Will be set after PDF loading
+    pageOffsets: pageOffsets.length > 0 ? pageOffsets : undefined
   };
 }
 
-function splitByPlantSections(text: string, options: ParseHerbalOptions): string[] {
+function splitByPlantSections(text: string, options: ParseHerbalOptions, headingOffsets?: Set<number>): TextSection[] {
   // Regular expressions to identify plant section breaks
   const plantSectionRegexes = [
     // Matches botanical names (Genus species) at the start of lines
@@ -90,31 +166,44 @@ function splitByPlantSections(text: string, options: ParseHerbalOptions): string
     /(?:^|\n)(?:Family|Fam): [A-Z][a-z]+/g
   ];
 
-  // Try to identify plant sections based on botanical nomenclature
+  // Try to identify plant sections based on botanical nomenclature.
+  // Sections keep their exact text so offsets within them map back to pages.
   const lines = text.split('\n');
-  const sections: string[] = [];
-  let currentSection = '';
-  
+  const sections: TextSection[] = [];
+  let currentLines: string[] = [];
+  let currentStart = 0;
+  let offset = 0;
+
+  const closeSection = () => {
+    const sectionText = currentLines.join('\n');
+    if (sectionText.trim() !== '') {
+      sections.push({ text: sectionText, start: currentStart });
+    }
+  };
+
   for (const line of lines) {
     // Check if this line starts a new plant section
-    if (isBotanicalNameLine(line)) {
-      if (currentSection.trim() !== '') {
-        sections.push(currentSection);
-      }
-      currentSection = line;
+    if (isBotanicalNameLine(line, headingOffsets ? headingOffsets.has(offset) : undefined)) {
+      closeSection();
+      currentLines = [line];
+      currentStart = offset;
     } else {
-      currentSection += '\n' + line;
+      currentLines.push(line);
     }
+    offset += line.length + 1; // The newline split() removed
   }
-  
-  if (currentSection.trim() !== '') {
-    sections.push(currentSection);
-  }
+
+  closeSection();
 
   return sections;
 }
 
-function isBotanicalNameLine(line: string): boolean {
+/**
+ * `isHeading` is known when the text comes from a PDF layout: only headings
+ * start a section, and the heading must be the name itself, optionally
+ * followed by its authority ("Khaya senegalensis (Desr.) A. Juss.").
+ */
+function isBotanicalNameLine(line: string, isHeading?: boolean): boolean {
   // Check if the line contains a potential botanical name
   const trimmedLine = line.trim();
   
@@ -123,8 +212,16 @@ function isBotanicalNameLine(line: string): boolean {
   
   // Common prefixes that indicate a plant name section
   const prefixes = ['Family:', 'Fam:', 'Species:', 'Plant:', 'Botanical:', 'Herb:'];
+
+  // "Tests for Purity and Identity" reads like a binomial
+  if (isMonographHeading(trimmedLine)) return false;
+
+  if (isHeading !== undefined) {
+    const headingNameRegex = /^[A-Z][a-z]+\s+[a-z]{3,}(?:\s+(?:subsp\.|var\.)\s+[a-z]+)?(?=\s*$|\s+[A-Z(])/;
+    return isHeading && (headingNameRegex.test(trimmedLine) || prefixes.some(prefix => trimmedLine.startsWith(prefix)));
+  }
   
-  // Check if line starts with botanical name pattern
+  // Without typography, fall back to guessing: a short line starting with a binomial
   if (binomialRegex.test(trimmedLine)) {
     // Additional validation: ensure it's not just a regular sentence
     const words = trimmedLine.split(/\s+/);
@@ -137,24 +234,42 @@ function isBotanicalNameLine(line: string): boolean {
   return prefixes.some(prefix => trimmedLine.startsWith(prefix));
 }
 
-function extractPlantInformation(section: string, index: number): HerbalPlantRecord | null {
+function extractPlantInformation(
+  { text: section, start }: TextSection,
+  pageOffsets: PageOffset[],
+  tables: HerbalTable[] = []
+): HerbalPlantRecord | null {
+  const fieldPages: Partial<Record<keyof HerbalPlantRecord, PageSpan>> = {};
+  const recordSpan = pageSpanOf(pageOffsets, start, start + section.trimEnd().length);
+
   const record: HerbalPlantRecord = {
     botanicalName: '',
     metadata: {
-      pages: [index], // Placeholder - actual page numbers would need more sophisticated tracking
+      pages: recordSpan
+        ? Array.from({ length: recordSpan.end - recordSpan.start + 1 }, (_, i) => recordSpan.start + i)
+        : undefined,
+      pageSpan: recordSpan,
+      fieldPages,
       sections: ['unknown'],
       confidence: 0.8 // Default confidence
     }
   };
 
+  // Records the pages a field's text came from, widening across repeated matches
+  const notePagesAt = (field: keyof HerbalPlantRecord, from: number, to: number) => {
+    const span = pageSpanOf(pageOffsets, start + from, start + to);
+    if (!span) return;
+    const known = fieldPages[field];
+    fieldPages[field] = known ? { start: Math.min(known.start, span.start), end: Math.max(known.end, span.end) } : span;
+  };
+  const notePages = (field: keyof HerbalPlantRecord, match: RegExpMatchArray) =>
+    notePagesAt(field, match.index ?? 0, (match.index ?? 0) + match[0].length);
+
   // Extract botanical name (usually the first significant line)
-  const lines = section.split('\n');
-  for (const line of lines) {
-    const botanicalMatch = line.match(/^([A-Z][a-z]+\s+[a-z]+(?:\s+[a-z]+)?)/);
-    if (botanicalMatch) {
-      record.botanicalName = botanicalMatch[1].trim();
-      break;
-    }
+  const botanicalMatch = section.match(/^([A-Z][a-z]+\s+[a-z]+(?:\s+[a-z]+)?)/m);
+  if (botanicalMatch) {
+    record.botanicalName = botanicalMatch[1].trim();
+    notePages('botanicalName', botanicalMatch);
   }
 
   if (!record.botanicalName) {
@@ -164,89 +279,142 @@ function extractPlantInformation(section: string, index: number): HerbalPlantRec
   // Extract plant family
   const familyMatch = section.match(/(?:Family|Fam|Familia):\s*([A-Z][a-z]+)/i);
   if (familyMatch) {
+    notePages('plantFamily', familyMatch);
     record.plantFamily = familyMatch[1];
   }
 
   // Extract local/ethnobotanical names
   const localNamesMatch = section.match(/(?:Local names?|Common names?|Names?):\s*([^\n.]+)/i);
   if (localNamesMatch) {
+    notePages('localNames', localNamesMatch);
     record.localNames = parseNamesList(localNamesMatch[1]);
   }
 
   // Extract synonyms
   const synonymsMatch = section.match(/(?:Synonyms?|Also known as):\s*([^\n.]+)/i);
   if (synonymsMatch) {
+    notePages('synonyms', synonymsMatch);
     record.synonyms = parseNamesList(synonymsMatch[1]);
   }
 
   // Extract plant parts used
   const partsMatch = section.match(/(?:Parts used|Plant parts?):\s*([^\n.]+)/i);
   if (partsMatch) {
+    notePages('plantPartsUsed', partsMatch);
     record.plantPartsUsed = parseNamesList(partsMatch[1]);
   }
 
-  // Extract phytochemical constituents
-  const phytochemicalsMatch = section.match(/(?:Phytochemical|Chemical|Active compounds?):\s*([^\n.]+)/gi);
-  if (phytochemicalsMatch) {
-    // We need a more sophisticated approach to get all matches
-    const allPhytoMatches = section.match(/(?:Phytochemical|Chemical|Active compounds?):\s*([^\n.]+)/gi);
-    if (allPhytoMatches) {
-      record.phytochemicalConstituents = [];
-      for (const match of allPhytoMatches) {
-        const constituents = match.replace(/(?:Phytochemical|Chemical|Active compounds?):\s*/i, '').trim();
-        record.phytochemicalConstituents.push(...parseNamesList(constituents));
-      }
+  // Extract phytochemical constituents (every matching line)
+  const phytochemicalMatches = Array.from(section.matchAll(/(?:Phytochemical|Chemical|Active compounds?):\s*([^\n.]+)/gi));
+  if (phytochemicalMatches.length > 0) {
+    record.phytochemicalConstituents = [];
+    for (const match of phytochemicalMatches) {
+      record.phytochemicalConstituents.push(...parseNamesList(match[1].trim()));
+      notePages('phytochemicalConstituents', match);
     }
   }
 
   // Extract traditional uses
   const usesMatch = section.match(/(?:Traditional uses?|Uses?|Medical uses?):\s*([^\n.]+)/i);
   if (usesMatch) {
+    notePages('traditionalUses', usesMatch);
     record.traditionalUses = [usesMatch[1].trim()];
   }
 
   // Extract preparation methods
   const prepMatch = section.match(/(?:Preparation|Method|How to use):\s*([^\n.]+)/i);
   if (prepMatch) {
+    notePages('preparationMethods', prepMatch);
     record.preparationMethods = prepMatch[1].trim();
   }
 
   // Extract dosage
   const dosageMatch = section.match(/(?:Dosage|Dose|Amount):\s*([^\n.]+)/i);
   if (dosageMatch) {
+    notePages('dosageAndAdministration', dosageMatch);
     record.dosageAndAdministration = dosageMatch[1].trim();
   }
 
   // Extract toxicology information
   const toxMatch = section.match(/(?:Toxicity|Toxic|Side effects?|Safety):\s*([^\n.]+)/i);
   if (toxMatch) {
+    notePages('toxicology', toxMatch);
     record.toxicology = toxMatch[1].trim();
   }
 
   // Extract contraindications
   const contraMatch = section.match(/(?:Contraindications?|Avoid if|Not for):\s*([^\n.]+)/i);
   if (contraMatch) {
+    notePages('contraindications', contraMatch);
     record.contraindications = parseNamesList(contraMatch[1]);
   }
 
   // Extract drug interactions
   const interactionMatch = section.match(/(?:Interactions?|With drugs?|Combines with):\s*([^\n.]+)/i);
   if (interactionMatch) {
+    notePages('drugInteractions', interactionMatch);
     record.drugInteractions = [interactionMatch[1].trim()];
   }
 
   // Extract geographical distribution
   const geoMatch = section.match(/(?:Distribution|Native to|Found in|Geographic):\s*([^\n.]+)/i);
   if (geoMatch) {
+    notePages('geographicalDistribution', geoMatch);
     record.geographicalDistribution = geoMatch[1].trim();
   }
 
   // Extract conservation status
   const conservationMatch = section.match(/(?:Conservation|Status|Threatened):\s*([^\n.]+)/i);
   if (conservationMatch) {
+    notePages('conservationStatus', conservationMatch);
     record.conservationStatus = conservationMatch[1].trim();
   }
 
+  // Monograph sections, each taken whole from its heading to the next
+  const monographSections = splitMonographSections(section);
+  monographSections.forEach(({ field, lines, text, start: from, end: to }) => {
+    notePagesAt(field, from, to);
+    switch (field) {
+      case 'vernacularNames':
+        record.vernacularNames = [...(record.vernacularNames || []), ...parseVernacularNames(lines)];
+        break;
+      case 'identityTests':
+        record.identityTests = [...(record.identityTests || []), parseTLCTest(text)];
+        break;
+      case 'qualityStandards':
+        record.qualityStandards = [...(record.qualityStandards || []), ...parseQualityStandards(lines)];
+        break;
+      case 'pharmacologicalActions':
+      case 'indications':
+        record[field] = [...(record[field] || []), ...parseListSection(text)];
+        break;
+      default:
+        record[field] = record[field] ? `${record[field]}\n\n${text}` : text;
+    }
+  });
+
+  if (monographSections.length > 0) {
+    record.metadata!.sections = Array.from(new Set(monographSections.map(({ field }) => field)));
+  }
+
+  // Quality specifications printed outside a section of their own
+  if (!record.qualityStandards) {
+    const standards = parseQualityStandards(section.split('\n'));
+    if (standards.length > 0) record.qualityStandards = standards;
+  }
+
+  if (tables.length > 0) {
+    record.tables = tables;
+    fieldPages.tables = { start: Math.min(...tables.map(({ page }) => page)), end: Math.max(...tables.map(({ page }) => page)) };
+  }
+
+  // Plain name list for consumers that ignore the country and language labels;
+  // the whole section is more reliable than the one-line match above
+  if (record.vernacularNames) {
+    record.localNames = Array.from(new Set(record.vernacularNames.map(({ name }) => name)));
+    fieldPages.localNames = fieldPages.vernacularNames;
+  }
+
   return record;
 }
 
@@ -3,6 +3,7 @@ import {
   HerbalRetrievedChunk, 
   RetrieveHerbalOptions 
 } from './herbalTypes';
+import { getDefaultEmbedder } from './herbalEmbedder';
 
 // Mock Pinecone-like client for demonstration
 class MockVectorStore {
@@ -24,8 +25,15 @@ class MockVectorStore {
   async query(vector: number[], topK: number, filters?: any): Promise<Array<{ id: string; score: number }>> {
     // Simple cosine similarity search for demonstration
     const results: Array<{ id: string; score: number }> = [];
+    let skipped = 0;
     
     this.vectors.forEach((item, id) => {
+      // Vectors from another model (or a failed embedding) cannot be compared
+      if (item.embedding.length !== vector.length) {
+        skipped++;
+        return;
+      }
+
       if (filters) {
         // Basic filter checking
         if (filters.plant && item.chunk.chunk.plant !== filters.plant) {
@@ -40,6 +48,10 @@ class MockVectorStore {
       results.push({ id, score: similarity });
     });
     
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} stored vectors whose dimension differs from the query's ${vector.length}; re-embed them`);
+    }
+    
     // Sort by score (descending) and return topK
     return results
       .sort((a, b) => b.score - a.score)
@@ -84,8 +96,8 @@ export async function retrieveHerbalKnowledge(
 }
 
 async function vectorSemanticSearch(query: string, options: RetrieveHerbalOptions): Promise<HerbalRetrievedChunk[]> {
-  // Generate embedding for the query
-  const queryEmbedding = await generateQueryEmbedding(query);
+  // Generate embedding for the query with the model the chunks were embedded with
+  const queryEmbedding = await getDefaultEmbedder().embedQuery(query);
   
   // Query the vector store
   const vectorResults = await vectorStore.query(
@@ -223,26 +235,6 @@ function calculateContentRelevance(query: string, content: string): number {
   return matches / queryWords.length;
 }
 
-// Mock function to generate query embeddings
-async function generateQueryEmbedding(query: string): Promise<number[]> {
-  // In a real implementation, this would call an embedding API
-  // For now, using a mock embedding function similar to the one in embedder
-  const encoder = new TextEncoder();
-  const data = encoder.encode(query.toLowerCase());
-  
-  // Create a 384-dimension embedding
-  const embedding: number[] = new Array(384).fill(0);
-  
-  for (let i = 0; i < data.length; i++) {
-    const idx = i % embedding.length;
-    embedding[idx] = (embedding[idx] + (data[i] / 255.0)) % 1;
-  }
-  
-  // Normalize the embedding
-  const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  return embedding.map(val => val / (norm || 1));
-}
-
 // Helper function to calculate cosine similarity
 function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) {
@@ -0,0 +1,155 @@
+import { HerbalTable, LayoutCell, LayoutLine, PageLayout } from './herbalTypes';
+import { isQualityParameter } from './herbalMonograph';
+
+// A table found on a page, with the layout lines it was built from
+export interface DetectedTable {
+  table: HerbalTable;
+  firstLine: number;  // Index into PageLayout.lines, the caption's when there is one
+  lastLine: number;
+}
+
+const MIN_BODY_ROWS = 2;  // Without a caption, fewer rows are too easily two stray lines
+
+interface Column {
+  left: number;
+  right: number;
+}
+
+const overlaps = (cell: LayoutCell, column: Column) => cell.x <= column.right && cell.x + cell.width >= column.left;
+
+/**
+ * Whether a line has at least two cells lined up under the cells of the run
+ * above it (overlapping, so centred headers and right-aligned numbers count)
+ */
+function alignsWith(line: LayoutLine, run: LayoutLine[]): boolean {
+  const columns = run.flatMap(runLine => runLine.cells.map(cell => ({ left: cell.x, right: cell.x + cell.width })));
+  return line.cells.filter(cell => columns.some(column => overlaps(cell, column))).length >= 2;
+}
+
+/**
+ * Whether a single-cell line is wrapped text of a cell above it: within one
+ * column, a later one or the first when it starts in lower case. Text
+ * running across columns is the paragraph after the table.
+ */
+function continuesCell(line: LayoutLine, run: LayoutLine[]): boolean {
+  if (line.cells.length !== 1 || line.isHeading) return false;
+  const [cell] = line.cells;
+  const columns = findColumns(run);
+  const under = columns.filter(column => overlaps(cell, column));
+  return under.length === 1 && (under[0] !== columns[0] || /^[a-z(]/.test(cell.text));
+}
+
+/**
+ * Column extents from the body rows: overlapping cells merge into one column
+ */
+function findColumns(lines: LayoutLine[]): Column[] {
+  const columns: Column[] = [];
+  lines.flatMap(line => line.cells).sort((a, b) => a.x - b.x).forEach(cell => {
+    const column = columns.find(candidate => overlaps(cell, candidate));
+    if (column) {
+      column.left = Math.min(column.left, cell.x);
+      column.right = Math.max(column.right, cell.x + cell.width);
+    } else {
+      columns.push({ left: cell.x, right: cell.x + cell.width });
+    }
+  });
+  return columns.sort((a, b) => a.left - b.left);
+}
+
+// The column a cell overlaps most, or the nearest one
+function columnIndex(cell: LayoutCell, columns: Column[]): number {
+  let best = 0, bestScore = -Infinity;
+  columns.forEach((column, i) => {
+    const overlap = Math.min(cell.x + cell.width, column.right) - Math.max(cell.x, column.left);
+    if (overlap > bestScore) {
+      best = i;
+      bestScore = overlap;
+    }
+  });
+  return best;
+}
+
+const toRow = (line: LayoutLine, columns: Column[]): string[] => {
+  const row = columns.map(() => '');
+  line.cells.forEach(cell => {
+    const i = columnIndex(cell, columns);
+    row[i] = row[i] ? `${row[i]} ${cell.text}` : cell.text;
+  });
+  return row;
+};
+
+const tableKind = (headers: string[], rows: string[][]): HerbalTable['kind'] => {
+  const text = [...headers, ...rows.flat()].join(' ');
+  if (/\bR[fF]\b|chromatogra|\bTLC\b/.test(text)) return 'tlc';
+  if (rows.some(row => isQualityParameter(row[0])) || headers.some(header => /parameter|specification|limit/i.test(header))) return 'quality';
+  if (/\bdos(?:e|es|age)\b|mg\/kg|\bdaily\b|times a day/i.test(text)) return 'dosage';
+  return 'other';
+};
+
+/**
+ * Builds a table from a run of aligned lines. The first line is the header
+ * when it is bold or has no numbers; a line filling a single column other
+ * than the first, or starting in lower case, continues the row above.
+ */
+function buildTable(run: LayoutLine[], page: number, caption?: string): HerbalTable | null {
+  const [first, ...rest] = run;
+  const hasHeader = rest.length > 0 && (first.bold || !/\d/.test(first.text));
+  const bodyLines = hasHeader ? rest : run;
+  const columns = findColumns(bodyLines);
+  if (columns.length < 2) return null;
+
+  const rows: string[][] = [];
+  bodyLines.forEach(line => {
+    const row = toRow(line, columns);
+    const filled = row.map((cell, i) => cell ? i : -1).filter(i => i !== -1);
+    const previous = rows[rows.length - 1];
+    const continues = previous && filled.length === 1 && (filled[0] > 0 || /^[a-z(]/.test(row[0]));
+
+    if (continues) {
+      previous[filled[0]] = previous[filled[0]] ? `${previous[filled[0]]} ${row[filled[0]]}` : row[filled[0]];
+    } else {
+      rows.push(row);
+    }
+  });
+
+  if (rows.length < (caption ? 1 : MIN_BODY_ROWS)) return null;
+
+  const headers = hasHeader ? toRow(first, columns) : [];
+  return { page, caption, kind: tableKind(headers, rows), headers, rows };
+}
+
+/**
+ * Finds tables on a page: runs of consecutive lines, in one column of the
+ * page, split into two or more cells that line up with each other. A line
+ * just above starting "Table" or set as a heading becomes the caption.
+ */
+export function detectTables(layout: PageLayout): DetectedTable[] {
+  const detected: DetectedTable[] = [];
+  const { lines } = layout;
+  let runStart = -1;
+
+  const close = (end: number) => {
+    if (runStart === -1) return;
+    const run = lines.slice(runStart, end);
+    const above = lines[runStart - 1];
+    const caption = above && above.column === run[0].column && (/^table\b/i.test(above.text) || above.isHeading) ? above.text : undefined;
+    const table = buildTable(run, layout.page, caption);
+    if (table) detected.push({ table, firstLine: caption ? runStart - 1 : runStart, lastLine: end - 1 });
+    runStart = -1;
+  };
+
+  lines.forEach((line, i) => {
+    const run = runStart === -1 ? [] : lines.slice(runStart, i);
+    const sameColumn = run.length === 0 || line.column === run[0].column;
+
+    if (run.length > 0 && sameColumn && line.cells.length >= 2 && alignsWith(line, run)) return;
+
+    if (run.length > 0 && sameColumn && continuesCell(line, run)) return;
+
+    close(i);
+    if (line.cells.length >= 2) runStart = i;
+  });
+  close(lines.length);
+
+  return detected;
+}
@@ -1,3 +1,82 @@
+// First and last page (1-based) that a record, field or chunk comes from
+export interface PageSpan {
+  start: number;
+  end: number;
+}
+
+// Where one page's text sits in ParsedHerbalDocument.rawText
+export interface PageOffset {
+  page: number;
+  start: number;  // Offset of the page's first character
+  end: number;    // Offset just past its last character
+}
+
+// A run of text on a line set apart from its neighbours by a wide gap, as in a table row
+export interface LayoutCell {
+  text: string;
+  x: number;
+  width: number;
+}
+
+// One line of a page rebuilt from pdf.js text items, in reading order
+export interface LayoutLine {
+  text: string;
+  cells: LayoutCell[];  // A single cell for ordinary text
+  x: number;           // Left edge, PDF units from the page's left
+  y: number;           // Baseline, PDF units from the page's bottom
+  width: number;
+  fontSize: number;
+  fontName: string;    // Resolved font name when pdf.js exposes it, e.g. "Times-Bold"
+  bold: boolean;
+  italic: boolean;
+  column: number;      // 0 or 1 on two-column pages; -1 for lines spanning both
+  isHeading: boolean;
+  headingLevel?: number;  // 1 for the largest heading type on the page
+}
+
+export interface PageLayout {
+  page: number;
+  width: number;
+  height: number;
+  columns: number;
+  bodyFontSize: number;  // Most common font size, by characters
+  lines: LayoutLine[];
+}
+
+// A vernacular name with the country and language labels the monograph gives it
+export interface VernacularName {
+  name: string;
+  country?: string;   // e.g. "Nigeria"; absent for names listed only by language
+  language?: string;  // e.g. "Yoruba", "English"
+}
+
+// A thin-layer chromatography identity test
+export interface TLCIdentityTest {
+  description: string;    // The test as printed: sample preparation, plates, solvents and expected spots
+  mobilePhase?: string;   // e.g. "chloroform: methanol (9:1)"
+  detection?: string;     // Spray reagent or light used to show the spots
+  rfValues?: number[];
+}
+
+// A quality-control specification, e.g. "Total ash: not more than 8.5%"
+export interface QualityStandard {
+  parameter: string;  // As printed: "Total ash", "Moisture content", "Water-soluble extractive"
+  text: string;       // The specification as printed
+  value?: number;     // A single reported value
+  min?: number;       // "not less than"
+  max?: number;       // "not more than"
+  unit?: string;
+}
+
+// A table rebuilt from text positions, e.g. quality parameters or TLC Rf values
+export interface HerbalTable {
+  page: number;
+  caption?: string;   // "Table 2: Physico-chemical parameters", when printed above the table
+  kind: 'quality' | 'tlc' | 'dosage' | 'other';
+  headers: string[];
+  rows: string[][];   // One cell per header; empty where the row has no value
+}
+
 export interface HerbalPlantRecord {
   botanicalName: string;
   plantFamily?: string;
@@ -6,7 +85,7 @@ export interface HerbalPlantRecord {
   plantPartsUsed?: string[];
   phytochemicalConstituents?: string[];
   traditionalUses?: string[];
-  pharmacologicalActions?: string[];
+  pharmacologicalActions?: string[];  // Includes the monograph's "Therapeutic Actions"
   preparationMethods?: string;
   dosageAndAdministration?: string;
   toxicology?: string;
@@ -17,8 +96,21 @@ export interface HerbalPlantRecord {
   geographicalDistribution?: string;
   cultivation?: string;
   references?: string;
+  // Monograph sections of the WAHP/AHP, each extracted whole from its heading to the next
+  description?: string;
+  vernacularNames?: VernacularName[];
+  macroscopy?: string;
+  microscopy?: string;
+  identityTests?: TLCIdentityTest[];
+  qualityStandards?: QualityStandard[];
+  indications?: string[];
+  safetyData?: string;
+  storage?: string;
+  tables?: HerbalTable[];
   metadata?: {
-    pages?: number[];
+    pages?: number[];      // Every page the record spans
+    pageSpan?: PageSpan;
+    fieldPages?: Partial<Record<keyof HerbalPlantRecord, PageSpan>>;  // Where each extracted field was found
     sections?: string[];
     confidence?: number;
   };
@@ -29,13 +121,16 @@ export interface ParsedHerbalDocument {
   rawText: string;
   metadata: Record<string, any>;
   pageCount?: number;
+  pageOffsets?: PageOffset[];  // Absent when parsed from plain text
+  layout?: PageLayout[];       // Absent when parsed from plain text
 }
 
 export interface HerbalChunk {
   content: string;
   plant: string;
   section: string;
-  page?: number;
+  page?: number;         // First page of the chunk's source text
+  pageSpan?: PageSpan;
   plantIndex?: number;
   metadata?: Record<string, any>;
 }
@@ -44,6 +139,19 @@ export interface EmbeddedHerbalChunk {
   chunk: HerbalChunk;
   embedding: number[];
   id: string;
+  model?: string;  // Embedder that produced the vector; vectors from different models do not compare
+}
+
+/**
+ * Turns text into vectors. Retrieval models embed questions and passages
+ * differently (bge prefixes queries with an instruction), so callers say
+ * which they have.
+ */
+export interface Embedder {
+  model: string;
+  dimensions: number;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
 }
 
 export interface HerbalRetrievedChunk {
@@ -67,7 +175,8 @@ export interface ChunkHerbalOptions {
 }
 
 export interface EmbedHerbalOptions {
-  model?: string;
+  embedder?: Embedder;  // Defaults to the shared local model (getDefaultEmbedder)
+  model?: string;       // A different local model, when no embedder is given
   batchSize?: number;
 }
 
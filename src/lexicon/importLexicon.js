@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Imports curated plant names from a CSV or JSON file into nigerianPlantLexicon.json.
+//
+// Usage: npm run lexicon:import -- <file.csv|file.json> [--replace]
+//
+// CSV columns (header row required, order free):
+//   scientificName, commonName, yoruba, igbo, hausa, edo, efik, fulfulde, urhobo, pidgin,
+//   synonyms (separated by "|"), isNative (true/false), notes
+// JSON: an array of entries, or an object with an "entries" array, using the same
+// fields ("names" may be nested as in the lexicon itself).
+//
+// Rows are merged by scientific name (existing names are kept unless the import
+// supplies a value); --replace discards the current entries first. Every import
+// bumps the lexicon version, which invalidates cached LLM fallbacks in the app.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const LEXICON_PATH = path.join(__dirname, 'nigerianPlantLexicon.json');
+const NAME_LANGUAGES = ['yoruba', 'igbo', 'hausa', 'edo', 'efik', 'fulfulde', 'urhobo', 'pidgin'];
+
+function normalizeScientificName(name) {
+  return name.trim().toLowerCase().split(/\s+/).slice(0, 2).join(' ');
+}
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell.trim()));
+  if (nonEmpty.length === 0) return [];
+
+  const header = nonEmpty[0].map(cell => cell.trim());
+  return nonEmpty.slice(1).map(cells =>
+    Object.fromEntries(header.map((column, i) => [column, (cells[i] || '').trim()]))
+  );
+}
+
+function parseBoolean(value) {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return undefined;
+}
+
+// Turns a CSV row or JSON object into a partial lexicon entry, collecting problems in `errors`
+function toEntry(raw, label, errors) {
+  const scientificName = String(raw.scientificName || '').trim().replace(/\s+/g, ' ');
+  if (!/^[A-Z][a-z-]+ [a-z-]+/.test(scientificName)) {
+    errors.push(`${label}: "${scientificName}" is not a valid scientific name (expected "Genus species")`);
+    return null;
+  }
+
+  const names = {};
+  NAME_LANGUAGES.forEach(language => {
+    const value = raw.names?.[language] ?? raw[language];
+    if (typeof value === 'string' && value.trim()) names[language] = value.trim();
+  });
+
+  const synonyms = Array.isArray(raw.synonyms)
+    ? raw.synonyms
+    : String(raw.synonyms || '').split('|');
+
+  const isNative = parseBoolean(raw.isNative);
+  if (raw.isNative !== undefined && raw.isNative !== '' && isNative === undefined) {
+    errors.push(`${label}: isNative must be true or false`);
+  }
+
+  return {
+    scientificName,
+    commonName: String(raw.commonName || '').trim() || undefined,
+    names,
+    synonyms: synonyms.map(s => s.trim()).filter(Boolean),
+    isNative,
+    notes: String(raw.notes || '').trim() || undefined
+  };
+}
+
+function mergeEntry(existing, incoming) {
+  const synonyms = Array.from(new Set([...(existing?.synonyms || []), ...incoming.synonyms]));
+  const entry = {
+    scientificName: incoming.scientificName,
+    commonName: incoming.commonName || existing?.commonName || incoming.scientificName,
+    names: { ...(existing?.names || {}), ...incoming.names }
+  };
+  if (synonyms.length > 0) entry.synonyms = synonyms;
+  entry.isNative = incoming.isNative ?? existing?.isNative ?? false;
+  const notes = incoming.notes || existing?.notes;
+  if (notes) entry.notes = notes;
+  entry.verified = true;
+  entry.source = 'curated';
+  return entry;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const replace = args.includes('--replace');
+  const inputPath = args.find(arg => !arg.startsWith('--'));
+
+  if (!inputPath) {
+    console.error('Usage: npm run lexicon:import -- <file.csv|file.json> [--replace]');
+    process.exit(1);
+  }
+
+  const text = fs.readFileSync(inputPath, 'utf8');
+  let rawEntries;
+  if (inputPath.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    rawEntries = Array.isArray(parsed) ? parsed : parsed.entries;
+    if (!Array.isArray(rawEntries)) {
+      console.error('JSON input must be an array of entries or an object with an "entries" array');
+      process.exit(1);
+    }
+  } else {
+    rawEntries = parseCsv(text.replace(/^\uFEFF/, ''));
+  }
+
+  const errors = [];
+  const incoming = rawEntries
+    .map((raw, i) => toEntry(raw, `Entry ${i + 1}`, errors))
+    .filter(Boolean);
+
+  if (errors.length > 0) {
+    console.error(`Import aborted, ${errors.length} problem(s) found:`);
+    errors.forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+
+  const lexicon = JSON.parse(fs.readFileSync(LEXICON_PATH, 'utf8'));
+  const entries = new Map(
+    (replace ? [] : lexicon.entries).map(entry => [normalizeScientificName(entry.scientificName), entry])
+  );
+
+  let added = 0;
+  let updated = 0;
+  incoming.forEach(entry => {
+    const key = normalizeScientificName(entry.scientificName);
+    const existing = entries.get(key);
+    if (existing) updated++; else added++;
+    entries.set(key, mergeEntry(existing, entry));
+  });
+
+  const updatedLexicon = {
+    version: lexicon.version + 1,
+    updatedAt: new Date().toISOString().slice(0, 10),
+    entries: Array.from(entries.values()).sort((a, b) => a.scientificName.localeCompare(b.scientificName))
+  };
+
+  fs.writeFileSync(LEXICON_PATH, JSON.stringify(updatedLexicon, null, 2) + '\n');
+  console.log(`Lexicon v${updatedLexicon.version}: ${added} added, ${updated} updated, ${updatedLexicon.entries.length} total`);
+}
+
+main();
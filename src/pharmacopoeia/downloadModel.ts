@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { createLocalEmbedder, missingModelFiles, DEFAULT_EMBEDDING_MODEL, DEFAULT_MODEL_PATH, MODEL_FILES } from '../herbalEmbedder';
+
+// Downloads the embedding model used for pharmacopoeia retrieval and article
+// reranking into models/ (git-ignored), then loads it once to check it works.
+//
+// Usage: npm run models:download [-- <model id>] [--force]
+//
+// Defaults to Xenova/bge-small-en-v1.5. Files already present are kept unless
+// --force is given. HF_MODEL_REVISION pins a hub revision (default: main).
+// Large files are checked against the hub's size and SHA-256 and JSON files
+// are parsed; any failed or incomplete download exits non-zero and leaves no
+// partial file behind.
+
+const HUB_URL = 'https://huggingface.co';
+
+const sha256 = (data: Uint8Array): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Downloads one model file to a temporary path and moves it into place once
+ * its size, hash (for files stored in LFS) and, for JSON, its syntax check out
+ */
+async function downloadFile(model: string, revision: string, file: string): Promise<void> {
+  const url = `${HUB_URL}/${model}/resolve/${revision}/${file}`;
+
+  // The hub answers LFS files with a redirect carrying their SHA-256 and size
+  const head = await fetch(url, { method: 'HEAD', redirect: 'manual' });
+  if (head.status >= 400) throw new Error(`${url} returned ${head.status}`);
+  const expectedHash = head.headers.get('x-linked-etag')?.replace(/"/g, '');
+  const expectedSize = Number(head.headers.get('x-linked-size')) || null;
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  if (expectedSize !== null && data.length !== expectedSize) {
+    throw new Error(`${file}: received ${data.length} bytes, expected ${expectedSize}`);
+  }
+  if (expectedHash && sha256(data) !== expectedHash) {
+    throw new Error(`${file}: SHA-256 ${sha256(data)} does not match the hub's ${expectedHash}`);
+  }
+  if (file.endsWith('.json')) JSON.parse(new TextDecoder().decode(data));
+
+  const target = `${DEFAULT_MODEL_PATH}${model}/${file}`;
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(`${target}.part`, data);
+  await rename(`${target}.part`, target);
+  console.log(`Downloaded ${file} (${(data.length / 1e6).toFixed(1)} MB)${expectedHash ? ', SHA-256 verified' : ''}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const model = args.find(arg => !arg.startsWith('--')) || DEFAULT_EMBEDDING_MODEL;
+  const revision = process.env.HF_MODEL_REVISION || 'main';
+
+  try {
+    const files = force ? MODEL_FILES : await missingModelFiles(model);
+    if (files.length === 0) console.log(`${model} is already in ${DEFAULT_MODEL_PATH}`);
+    for (const file of files) {
+      await downloadFile(model, revision, file);
+    }
+
+    // Loading and embedding once proves the files belong together
+    const embedder = createLocalEmbedder({ model });
+    const [vector] = await embedder.embedDocuments(['Vernonia amygdalina leaf extract']);
+    console.log(`${model} loads and produces ${vector.length}-dimensional vectors`);
+  } catch (error) {
+    console.error(`Could not download ${model}:`, error);
+    process.exit(1);
+  }
+}
+
+main();
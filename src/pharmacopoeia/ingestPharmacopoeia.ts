@@ -1,149 +1,71 @@
-// Note: For browser environments, we would need to handle file reading differently
-// This module is intended for Node.js environments
-import * as pdfjsLib from 'pdfjs-dist';
-import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.entry';
+// Builds herbal_vectors.json from the pharmacopoeia PDFs: layout-aware
+// parsing, monograph chunking and the shared embedder. Node only; run it
+// with `npm run pharmacopoeia:ingest`.
+import { readFile, writeFile, rename } from 'fs/promises';
+import { parseHerbalPDF } from '../herbalParser';
 import { chunkHerbalDocument } from '../herbalChunker';
 import { embedHerbalChunks } from '../herbalEmbedder';
-import { ParsedHerbalDocument } from '../herbalTypes';
+import { Embedder } from '../herbalTypes';
+import { HerbalChunkWithMetadata, HERBAL_VECTORS_PATH } from './localRetriever';
 
-// Set the worker for PDF.js
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+type PharmacopoeiaSource = HerbalChunkWithMetadata['source'];
 
-interface HerbalChunkWithMetadata {
-  id: string;
-  text: string;
-  embedding: number[];
-  source: "AHP" | "WAP";
-  page: number;
-}
+// The PDFs expected in the project root
+export const PHARMACOPOEIA_FILES: Record<PharmacopoeiaSource, string> = {
+  AHP: 'African Pharmacopoeia.pdf',
+  WAP: 'west-african-herbal-pharmacopoeiaok.pdf',
+};
 
-export async function ingestPharmacopoeiaPdfs(): Promise<void> {
-  try {
-    // Process African Herbal Pharmacopoeia (AHP)
-    const ahpPath = join(process.cwd(), 'African Pharmacopoeia.pdf');
-    const ahpChunks = await processPdf(ahpPath, 'AHP');
-    
-    // Process West African Herbal Pharmacopoeia (WAP)
-    const wapPath = join(process.cwd(), 'west-african-herbal-pharmacopoeiaok.pdf');
-    const wapChunks = await processPdf(wapPath, 'WAP');
-    
-    // Combine all chunks
-    const allChunks = [...ahpChunks, ...wapChunks];
-    
-    // Save to JSON file
-    const outputPath = join(process.cwd(), 'src', 'pharmacopoeia', 'herbal_vectors.json');
-    // Note: Node.js file system operations would be needed here in a real environment
-    // For now, we'll return the data which can be saved by the caller
-    
-    console.log(`Ingested ${allChunks.length} chunks from pharmacopoeia PDFs`);
-    return allChunks;
-  } catch (error) {
-    console.error('Error ingesting pharmacopoeia PDFs:', error);
-    throw error;
-  }
-}
+/**
+ * Parses, chunks and embeds one pharmacopoeia. Chunks whose batch failed to
+ * embed are kept with an empty vector; retrieval embeds them on first use.
+ */
+export async function processHerbalPdf(
+  filePath: string,
+  source: PharmacopoeiaSource,
+  embedder?: Embedder
+): Promise<HerbalChunkWithMetadata[]> {
+  console.log(`Processing ${source} from ${filePath}`);
+  const parsed = await parseHerbalPDF(new Uint8Array(await readFile(filePath)));
+  console.log(`Parsed ${parsed.plants.length} plant records from ${parsed.pageCount ?? parsed.metadata.pageCount} pages`);
 
-async function processPdf(filePath: string, source: "AHP" | "WAP"): Promise<HerbalChunkWithMetadata[]> {
-  try {
-    // For this implementation, I'll create a mock since we can't read the actual PDF files
-    // In a real environment, we would load and process the PDF
-    
-    console.log(`Processing ${source} from ${filePath}`);
-    
-    // Mock processing - in real scenario this would:
-    // 1. Load the PDF file
-    // 2. Extract text content
-    // 3. Split into appropriate chunks
-    // 4. Generate embeddings for each chunk
-    
-    // For demonstration, I'll return empty chunks, but in a real scenario:
-    const mockChunks: HerbalChunkWithMetadata[] = [];
-    
-    // This is where the actual PDF processing would happen
-    // const fileBuffer = readFileSync(filePath);
-    // const pdf = await pdfjsLib.getDocument({ data: fileBuffer }).promise;
-    // Process each page and create chunks
-    
-    return mockChunks;
-  } catch (error) {
-    console.error(`Error processing ${source} PDF:`, error);
-    throw error;
-  }
+  const chunks = chunkHerbalDocument(parsed);
+  const embedded = await embedHerbalChunks(chunks, { embedder });
+
+  return embedded.map(({ chunk, embedding, model }, i) => ({
+    id: `${source}_${String(i + 1).padStart(4, '0')}`,
+    text: chunk.content,
+    embedding,
+    source,
+    page: chunk.page ?? chunk.pageSpan?.start ?? 1,
+    model,
+  }));
 }
 
-// Enhanced function with actual PDF processing
-export async function processHerbalPdf(filePath: string, source: "AHP" | "WAP"): Promise<HerbalChunkWithMetadata[]> {
-  try {
-    // In a real Node.js environment, we'd do:
-    // const dataBuffer = readFileSync(filePath);
-    // const pdf = await pdfjsLib.getDocument({ data: dataBuffer }).promise;
-    
-    // For this implementation, I'll simulate the process
-    console.log(`Processing herbal PDF: ${filePath} from source: ${source}`);
-    
-    // This would be the actual implementation:
-    /*
-    const pdf = await pdfjsLib.getDocument(filePath).promise;
-    const totalPages = pdf.numPages;
-    
-    let fullText = '';
-    for (let i = 1; i <= totalPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += `\n[PAGE ${i}]\n${pageText}`;
-    }
-    
-    // Parse the herbal document
-    // const parsedDoc: ParsedHerbalDocument = parseHerbalDocument(fullText);
-    
-    // Chunk the document
-    // const chunks = chunkHerbalDocument(parsedDoc);
-    
-    // Embed the chunks
-    // const embeddedChunks = await embedHerbalChunks(chunks);
-    
-    // Format for storage
-    // const formattedChunks: HerbalChunkWithMetadata[] = embeddedChunks.map((ec, idx) => ({
-    //   id: `${source}_chunk_${idx}_${Date.now()}`,
-    //   text: ec.chunk.content,
-    //   embedding: ec.embedding,
-    //   source: ec.chunk.plant ? (ec.chunk.plant.includes('African') ? 'AHP' : source) as ("AHP" | "WAP") : source,
-    //   page: ec.chunk.page || 1
-    // }));
-    */
-    
-    // For demonstration, return mock data
-    const mockChunks: HerbalChunkWithMetadata[] = [
-      {
-        id: `${source}_mock_chunk_1`,
-        text: `Example herbal data from ${source}`,
-        embedding: Array(384).fill(0.1), // Mock embedding
-        source,
-        page: 1
-      }
-    ];
-    
-    return mockChunks;
-  } catch (error) {
-    console.error(`Error processing ${source} PDF:`, error);
-    throw error;
+/**
+ * Ingests both pharmacopoeias from `directory`. A missing PDF is an error
+ * rather than an empty source, so a half-built index is never written.
+ */
+export async function ingestPharmacopoeiaPdfs(
+  directory: string = process.cwd(),
+  embedder?: Embedder
+): Promise<HerbalChunkWithMetadata[]> {
+  const allChunks: HerbalChunkWithMetadata[] = [];
+  for (const [source, file] of Object.entries(PHARMACOPOEIA_FILES) as [PharmacopoeiaSource, string][]) {
+    const chunks = await processHerbalPdf(`${directory}/${file}`, source, embedder);
+    console.log(`Ingested ${chunks.length} chunks from ${source}`);
+    allChunks.push(...chunks);
   }
+  return allChunks;
 }
 
-// Function to save the processed chunks to JSON
-export async function saveHerbalVectors(chunks: HerbalChunkWithMetadata[]): Promise<void> {
-  try {
-    // In a real Node.js environment:
-    // const fs = require('fs');
-    // const path = require('path');
-    // const outputPath = path.join(__dirname, 'herbal_vectors.json');
-    // fs.writeFileSync(outputPath, JSON.stringify(chunks, null, 2));
-    
-    // For this demonstration:
-    console.log(`Saving ${chunks.length} herbal vectors to JSON`);
-  } catch (error) {
-    console.error('Error saving herbal vectors:', error);
-    throw error;
-  }
-}
\ No newline at end of file
+// Writes the chunks for localRetriever, replacing the old file only once the new one is complete
+export async function saveHerbalVectors(
+  chunks: HerbalChunkWithMetadata[],
+  outputPath: string = HERBAL_VECTORS_PATH
+): Promise<void> {
+  const tempPath = `${outputPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(chunks, null, 2));
+  await rename(tempPath, outputPath);
+  console.log(`Saved ${chunks.length} herbal vectors to ${outputPath}`);
+}
@@ -1,256 +1,40 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+// TypeScript modules: run this script with tsx (npm run pharmacopoeia:ingest)
+import { ingestPharmacopoeiaPdfs, saveHerbalVectors, PHARMACOPOEIA_FILES } from './ingestPharmacopoeia';
+
+// Rebuilds herbal_vectors.json from the African and West African herbal
+// pharmacopoeia PDFs.
+//
+// Usage: npm run pharmacopoeia:ingest [-- <directory holding the PDFs>]
+//
+// The PDFs are looked up in the project root unless a directory is given (see
+// PHARMACOPOEIA_FILES for their names). Passages are embedded with the shared
+// model, so download it first (npm run models:download). Any missing PDF or
+// model file stops the run before herbal_vectors.json is touched.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
 
-// Set up the worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@2.12.313/build/pdf.worker.min.js`;
-
-async function extractPdfText(filePath) {
-  try {
-    // Read the PDF file
-    const dataBuffer = fs.readFileSync(filePath);
-    
-    // Load the PDF
-    const pdf = await pdfjsLib.getDocument({ data: dataBuffer }).promise;
-    const pageCount = pdf.numPages;
-    
-    let fullText = '';
-    
-    // Extract text from each page
-    for (let i = 1; i <= pageCount; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      
-      // Join the items to form the page text
-      const pageText = textContent.items.map(item => item.str).join(' ');
-      fullText += ` [PAGE ${i}] ${pageText} `;
-    }
-    
-    return fullText;
-  } catch (error) {
-    console.error(`Error extracting text from ${filePath}:`, error);
-    throw error;
-  }
-}
-
-function splitIntoChunks(text, maxChunkSize = 400) {
-  const sentences = text.split(/(?<=[.!?])\s+/);
-  const chunks = [];
-  let currentChunk = '';
-  
-  for (const sentence of sentences) {
-    if ((currentChunk + sentence).length > maxChunkSize) {
-      if (currentChunk.trim().length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = sentence + ' ';
-      } else {
-        // If a single sentence is longer than maxChunkSize, break it
-        if (sentence.length > maxChunkSize) {
-          const sentenceChunks = breakLongSentence(sentence, maxChunkSize);
-          chunks.push(...sentenceChunks);
-        }
-      }
-    } else {
-      currentChunk += sentence + ' ';
-    }
-  }
-  
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
-}
-
-function breakLongSentence(sentence, maxChunkSize) {
-  const chunks = [];
-  const words = sentence.split(/\s+/);
-  let currentChunk = '';
-  
-  for (const word of words) {
-    if ((currentChunk + word).length > maxChunkSize) {
-      if (currentChunk.trim().length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = word + ' ';
-      } else {
-        // If a single word is longer than maxChunkSize, force break it
-        if (word.length > maxChunkSize) {
-          for (let i = 0; i < word.length; i += maxChunkSize) {
-            chunks.push(word.substring(i, i + maxChunkSize));
-          }
-        }
-      }
-    } else {
-      currentChunk += word + ' ';
-    }
-  }
-  
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
-}
-
-// This is a simplified embedding function - in production, you would use a proper embedding API
-function createMockEmbedding(text) {
-  // Create a simple hash-based embedding for demonstration
-  let hash = 0;
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  // Normalize the hash and create a 128-dimension embedding
-  const embedding = new Array(128).fill(0);
-  for (let i = 0; i < embedding.length; i++) {
-    embedding[i] = Math.abs(Math.sin(hash + i)) % 1;
-  }
-  
-  return embedding;
-}
-
-async function processPdf(pdfPath, source) {
-  console.log(`Processing ${source} from ${pdfPath}...`);
-  
-  const text = await extractPdfText(pdfPath);
-  
-  // Identify plant entries (this is a simple approach - could be made more sophisticated)
-  const plantEntries = findPlantEntries(text);
-  
-  const chunks = [];
-  let idCounter = 1;
-  
-  for (const entry of plantEntries) {
-    // Split each plant entry into chunks
-    const entryChunks = splitIntoChunks(entry.text);
-    
-    for (let i = 0; i < entryChunks.length; i++) {
-      const chunk = {
-        id: `${source}_${idCounter++}`,
-        text: entryChunks[i],
-        embedding: createMockEmbedding(entryChunks[i]),
-        source: source,
-        page: entry.page
-      };
-      chunks.push(chunk);
-    }
-  }
-  
-  console.log(`Extracted ${chunks.length} chunks from ${source}`);
-  return chunks;
-}
+async function main() {
+  const directory = path.resolve(process.argv[2] || PROJECT_ROOT);
 
-function findPlantEntries(text) {
-  // This is a simple pattern to identify plant entries in the text
-  // In a real implementation, this would be more sophisticated
-  const entries = [];
-  
-  // Split by paragraphs and identify those that likely contain plant information
-  const paragraphs = text.split(/\n\s*\n/);
-  
-  for (const paragraph of paragraphs) {
-    // Look for patterns that indicate plant entries
-    if (hasPlantIndicators(paragraph)) {
-      // Find the page number this paragraph is from
-      const pageMatch = paragraph.match(/\[PAGE (\d+)\]/);
-      const page = pageMatch ? parseInt(pageMatch[1]) : 1;
-      
-      entries.push({
-        text: paragraph.replace(/\[PAGE \d+\]/g, '').trim(),
-        page: page
-      });
-    }
+  const missing = Object.values(PHARMACOPOEIA_FILES).filter(file => !fs.existsSync(path.join(directory, file)));
+  if (missing.length > 0) {
+    console.error(`File not found in ${directory}: ${missing.join(', ')}`);
+    process.exit(1);
   }
-  
-  return entries;
-}
 
-function hasPlantIndicators(text) {
-  // Look for common indicators of plant descriptions
-  const indicators = [
-    // Scientific name patterns (Genus species)
-    /[A-Z][a-z]+\s+[a-z]+/,
-    // Common plant family names
-    /aceae|aceas|acear|idae|anae/i,
-    // Keywords related to plants
-    /leaf|leaves|bark|root|stem|flower|fruit|seed|traditional|medicinal|ethnobotanical|phytochemical|alkaloid|flavonoid|terpenoid|saponin|tannin/i
-  ];
-  
-  return indicators.some(pattern => pattern.test(text));
-}
-
-async function main() {
   try {
-    console.log('Starting PDF ingestion process...');
-
-    // Get the current directory
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = path.dirname(__filename);
-    const currentDir = path.resolve(__dirname, '..', '..');
-
-    console.log('Current directory:', currentDir);
-
-    // Define the PDF paths
-    const ahpPdfPath = path.join(currentDir, 'African Pharmacopoeia.pdf');
-    const wapPdfPath = path.join(currentDir, 'west-african-herbal-pharmacopoeiaok.pdf');
-
-    console.log('Looking for AHP PDF at:', ahpPdfPath);
-    console.log('Looking for WAP PDF at:', wapPdfPath);
-
-    // Check if PDF files exist
-    if (!fs.existsSync(ahpPdfPath)) {
-      console.error(`File not found: ${ahpPdfPath}`);
-      return;
-    } else {
-      console.log('AHP PDF found');
-    }
-
-    if (!fs.existsSync(wapPdfPath)) {
-      console.error(`File not found: ${wapPdfPath}`);
-      return;
-    } else {
-      console.log('WAP PDF found');
-    }
-
-    // Process both PDFs
-    console.log('Processing AHP PDF...');
-    const ahpChunks = await processPdf(ahpPdfPath, 'AHP');
-    console.log('Processing WAP PDF...');
-    const wapChunks = await processPdf(wapPdfPath, 'WAP');
-
-    // Combine all chunks
-    const allChunks = [...ahpChunks, ...wapChunks];
-
-    // Save to JSON file
-    const outputDir = path.join(currentDir, 'src', 'pharmacopoeia');
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
-
-    const outputPath = path.join(outputDir, 'herbal_vectors.json');
-    fs.writeFileSync(outputPath, JSON.stringify(allChunks, null, 2));
-
-    console.log(`Successfully processed ${allChunks.length} chunks and saved to ${outputPath}`);
-    console.log('AHP chunks:', ahpChunks.length);
-    console.log('WAP chunks:', wapChunks.length);
-
+    const chunks = await ingestPharmacopoeiaPdfs(directory);
+    await saveHerbalVectors(chunks);
+    const counts = Object.keys(PHARMACOPOEIA_FILES).map(source => `${source}: ${chunks.filter(chunk => chunk.source === source).length}`);
+    console.log(`Ingested ${chunks.length} chunks (${counts.join(', ')})`);
   } catch (error) {
     console.error('Error in ingestion process:', error);
-    console.error('Stack trace:', error.stack);
+    process.exit(1);
   }
 }
 
-// Run the script if this file is executed directly
-if (import.meta.url === `file://${process.argv[1]}` || import.meta.url === process.argv[1]) {
-  main();
-}
-
-export {
-  extractPdfText,
-  splitIntoChunks,
-  processPdf,
-  findPlantEntries
-};
\ No newline at end of file
+main();
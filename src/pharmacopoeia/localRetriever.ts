@@ -1,60 +1,24 @@
-import { join } from 'path';
+import { readFile } from 'fs/promises';
 
-interface HerbalChunkWithMetadata {
+export interface HerbalChunkWithMetadata {
   id: string;
   text: string;
   embedding: number[];
   source: "AHP" | "WAP";
   page: number;
+  model?: string;  // Embedder that produced `embedding`
 }
 
+// Written by `npm run pharmacopoeia:ingest`
+export const HERBAL_VECTORS_PATH = `${process.cwd()}/src/pharmacopoeia/herbal_vectors.json`;
+
 // In-memory storage for herbal vectors
 let herbalVectors: HerbalChunkWithMetadata[] = [];
 
-// Load herbal vectors from JSON file when module is imported
+// Load herbal vectors from the JSON file written by ingestion
 async function loadHerbalVectors(): Promise<void> {
   try {
-    // In a real Node.js environment, we'd load the JSON file:
-    // const fs = require('fs');
-    // const filePath = join(__dirname, 'herbal_vectors.json');
-    // const data = fs.readFileSync(filePath, 'utf-8');
-    // herbalVectors = JSON.parse(data);
-    
-    // For this demonstration, we'll initialize with mock data
-    // This would normally be populated by the ingestion process
-    // Load from the JSON file (in a real Node.js environment)
-    // For this example, using sample data from the JSON file
-    herbalVectors = [
-      {
-        id: "AHP_001",
-        text: "Moringa oleifera (Moringaceae) - commonly known as drumstick tree. Traditional uses: leaves used for malnutrition, bark for diarrhea, roots for joint pains. Plant parts used: leaves, bark, roots, seeds. Preparation: decoction of leaves for nutritional supplement, powder from dried leaves. Dosage: 1-2 teaspoons of leaf powder daily. Toxicity: high doses of roots may be toxic. Traditional healers use the leaves for treating anemia and malnutrition due to high iron and vitamin content.",
-        embedding: Array(384).fill(0.1),
-        source: "AHP",
-        page: 24
-      },
-      {
-        id: "AHP_002",
-        text: "Vernonia amygdalina (Asteraceae) - commonly known as bitter leaf. Traditional uses: used for stomach disorders, fever, and as blood tonic. Plant parts used: leaves, roots. Preparation: leaf extract as bitter tonic, decoction for stomach ailments. Dosage: 2-3 tablespoons of leaf extract twice daily. Side effects: excessive consumption may cause stomach irritation. Widely used in folk medicine for treating malaria, diabetes, and gastrointestinal disorders.",
-        embedding: Array(384).fill(0.2),
-        source: "AHP",
-        page: 45
-      },
-      {
-        id: "WAP_001",
-        text: "Khaya senegalensis (Meliaceae) - commonly known as African mahogany or dry bark. Traditional uses: bark used for malaria, fever, and stomach problems. Plant parts used: bark, leaves. Preparation: decoction of bark for malaria treatment. Contraindications: not for pregnant women. Used by traditional healers for treating fever and as anthelmintic. Bark contains limonoids responsible for antimalarial activity.",
-        embedding: Array(384).fill(0.3),
-        source: "WAP",
-        page: 78
-      },
-      {
-        id: "WAP_002",
-        text: "Lannea microcarpa (Anacardiaceae) - commonly known as small-fruited lannea. Traditional uses: used for dysentery, diarrhea, and as astringent. Plant parts used: bark, leaves. Preparation: bark decoction for diarrhea. Traditional healers combine with other plants for treating stomach disorders. Contains tannins which provide astringent properties for treating diarrhea.",
-        embedding: Array(384).fill(0.4),
-        source: "WAP",
-        page: 102
-      }
-    ];
-    
+    herbalVectors = JSON.parse(await readFile(HERBAL_VECTORS_PATH, 'utf-8'));
     console.log(`Loaded ${herbalVectors.length} herbal vectors from JSON`);
   } catch (error) {
     console.error('Error loading herbal vectors:', error);
@@ -63,11 +27,42 @@ async function loadHerbalVectors(): Promise<void> {
   }
 }
 
-// Initialize a promise to track loading state
-const loadingPromise = loadHerbalVectors();
+// Loaded on the first retrieval; the embedder and its runtime are only imported then too
+let loadingPromise: Promise<void> | null = null;
+let embeddingPromise: Promise<void> | null = null;
+
+const loadEmbedderModule = () => import('../herbalEmbedder');
+
+/**
+ * Embeds the passages without a vector from the current model: vectors
+ * stored by an older model or left empty by a failed batch. Uses the same
+ * embedder as ingestion so stored and query vectors compare.
+ */
+async function embedStaleVectors(): Promise<void> {
+  const embedder = (await loadEmbedderModule()).getDefaultEmbedder();
+  const stale = herbalVectors.filter(chunk => chunk.model !== embedder.model || chunk.embedding.length !== embedder.dimensions);
+  if (stale.length === 0) return;
+
+  const embeddings = await embedder.embedDocuments(stale.map(chunk => chunk.text));
+  stale.forEach((chunk, i) => {
+    chunk.embedding = embeddings[i];
+    chunk.model = embedder.model;
+  });
+  console.log(`Embedded ${stale.length} herbal passages with ${embedder.model}`);
+}
+
+// Fallback when the model is present but fails to run: rank by words shared with the query
+function rankByTermOverlap(query: string, topK: number): HerbalChunkWithMetadata[] {
+  const terms = new Set(query.toLowerCase().split(/\W+/).filter(term => term.length > 2));
+  return herbalVectors
+    .map(chunk => ({ chunk, score: chunk.text.toLowerCase().split(/\W+/).filter(word => terms.has(word)).length }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(item => item.chunk);
+}
 
 export async function retrieveHerbalChunks(query: string, topK: number = 5): Promise<HerbalChunkWithMetadata[]> {
-  // Wait for the loading to complete
+  if (!loadingPromise) loadingPromise = loadHerbalVectors();
   await loadingPromise;
 
   if (herbalVectors.length === 0) {
@@ -76,10 +71,25 @@ export async function retrieveHerbalChunks(query: string, topK: number = 5): Pro
   }
 
   // Generate embedding for the query
-  const queryEmbedding = await generateQueryEmbedding(query);
+  const { getDefaultEmbedder, EmbeddingModelMissingError, reportEmbeddingModelMissing } = await loadEmbedderModule();
+  let queryEmbedding: number[];
+  try {
+    if (!embeddingPromise) {
+      embeddingPromise = embedStaleVectors().catch(error => {
+        embeddingPromise = null; // Retry on the next question
+        throw error;
+      });
+    }
+    await embeddingPromise;
+    queryEmbedding = await getDefaultEmbedder().embedQuery(query);
+  } catch (error) {
+    if (error instanceof EmbeddingModelMissingError) reportEmbeddingModelMissing(error);
+    else console.error('Embedding model failed, ranking herbal passages by shared words:', error);
+    return rankByTermOverlap(query, topK);
+  }
 
   // Compute cosine similarity between query and all stored chunks
-  const similarities = herbalVectors.map(chunk => {
+  const similarities = herbalVectors.filter(chunk => chunk.embedding.length === queryEmbedding.length).map(chunk => {
     const similarity = cosineSimilarity(queryEmbedding, chunk.embedding);
     return {
       chunk,
@@ -95,26 +105,6 @@ export async function retrieveHerbalChunks(query: string, topK: number = 5): Pro
     .map(item => item.chunk);
 }
 
-// Mock function to generate query embeddings (in a real implementation, this would call the same embedding service used for storage)
-async function generateQueryEmbedding(query: string): Promise<number[]> {
-  // In a real implementation, this would call the same embedding API used during ingestion
-  // For this demonstration, creating a mock embedding
-  const encoder = new TextEncoder();
-  const data = encoder.encode(query.toLowerCase());
-  
-  // Create a 384-dimension embedding
-  const embedding: number[] = new Array(384).fill(0);
-  
-  for (let i = 0; i < data.length; i++) {
-    const idx = i % embedding.length;
-    embedding[idx] = (embedding[idx] + (data[i] / 255.0)) % 1;
-  }
-  
-  // Normalize the embedding
-  const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  return embedding.map(val => val / (norm || 1));
-}
-
 // Function to calculate cosine similarity
 function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) {
@@ -140,7 +130,9 @@ function cosineSimilarity(vecA: number[], vecB: number[]): number {
 
 // Function to update (reload) the herbal vectors if needed
 export async function updateHerbalVectors(): Promise<void> {
-  await loadHerbalVectors();
+  loadingPromise = loadHerbalVectors();
+  await loadingPromise;
+  embeddingPromise = null;
 }
 
 // Function to get current count of herbal vectors
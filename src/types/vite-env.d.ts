@@ -1,7 +1,6 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_GROQ_API_KEY: string;
     // add other env variables as needed
 }
 
@@ -0,0 +1,121 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST } from '../api/answer';
+import { ANSWER_CONTEXT_HEADER, parseAnswerRequest, setAnswerProvider } from '../api/_lib/answer';
+import { createProviderChain } from '../services/llm/registry';
+import { setDefaultEmbedder, createMockEmbedder, createLocalEmbedder } from '../src/herbalEmbedder';
+import { validateStructuredAnswer } from '../services/structuredAnswer';
+import { AnswerContext, PubMedArticle } from '../types';
+
+const article = (pmid: string, title: string, abstract: string): PubMedArticle => ({
+  pmid, title, abstract, authors: ['Adeyemi A'], journal: 'J Ethnopharmacol', pubDate: '2021',
+});
+
+const ARTICLES = [
+  article('11111111', 'Antiplasmodial activity of Vernonia amygdalina leaf extract', 'Bitter leaf extract reduced parasitaemia in mice infected with Plasmodium berghei.'),
+  article('22222222', 'Hypoglycaemic effect of Vernonia amygdalina in diabetic rats', 'Aqueous extract lowered fasting blood glucose.'),
+];
+
+const postAnswer = (body: unknown) => POST(new Request('http://localhost/api/answer', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+}));
+
+const answerContext = (response: Response): AnswerContext =>
+  JSON.parse(decodeURIComponent(response.headers.get(ANSWER_CONTEXT_HEADER)!));
+
+// The handler runs the real pipeline offline: mock model, mock embedder
+describe('POST /api/answer on the mock provider', () => {
+  // Injected rather than read from process.env, so other test files see the real settings
+  before(() => {
+    setAnswerProvider(createProviderChain(name => (name === 'LLM_PROVIDERS' ? 'mock' : undefined)));
+    setDefaultEmbedder(createMockEmbedder());
+  });
+  after(() => {
+    setAnswerProvider(null);
+    setDefaultEmbedder(null);
+  });
+
+  it('streams a markdown answer citing the articles it reports in X-Answer-Context', async () => {
+    const response = await postAnswer({ query: 'Does bitter leaf treat malaria?', articles: ARTICLES, nigerianNames: [] });
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type')!, /^text\/plain/);
+    const context = answerContext(response);
+    assert.deepEqual([...context.contextPmids].sort(), ['11111111', '22222222']);
+    assert.ok(context.herbalPages.length > 0);
+
+    const text = await response.text();
+    assert.match(text, /mock answer/);
+    assert.match(text, /\[PMID:(11111111|22222222)\]/);
+  });
+
+  it('returns a structured answer that validates when format is "json"', async () => {
+    const response = await postAnswer({ query: 'Does bitter leaf treat malaria?', articles: ARTICLES, nigerianNames: [], format: 'json' });
+
+    assert.equal(response.status, 200);
+    const answer = await response.json();
+    assert.deepEqual(validateStructuredAnswer(answer).errors, []);
+    assert.ok(answerContext(response).contextPmids.includes(answer.claims[0].citations[0].replace('PMID:', '')));
+  });
+
+  it('still answers, ranking by words, when the embedding weights are missing', async () => {
+    setDefaultEmbedder(createLocalEmbedder({ localModelPath: '/nonexistent/models/' }));
+    try {
+      const response = await postAnswer({ query: 'Does bitter leaf treat malaria?', articles: ARTICLES, nigerianNames: [] });
+      assert.equal(response.status, 200);
+      assert.deepEqual([...answerContext(response).contextPmids].sort(), ['11111111', '22222222']);
+      assert.match(await response.text(), /mock answer/);
+    } finally {
+      setDefaultEmbedder(createMockEmbedder());
+    }
+  });
+
+  it('rejects malformed requests with 400', async () => {
+    const response = await postAnswer({ query: '', articles: ARTICLES });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error, 'query is required');
+  });
+
+  it('answers a malformed item with 400 and no internal error', async () => {
+    const response = await postAnswer({ query: 'Does bitter leaf treat malaria?', articles: [null] });
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'articles[0] must have string pmid, title and abstract' });
+  });
+});
+
+describe('parseAnswerRequest', () => {
+  const names = (nigerianNames: unknown[]) =>
+    parseAnswerRequest({ query: 'bitter leaf', articles: [], nigerianNames }).request!.nigerianNames!;
+
+  it('names the first malformed item', () => {
+    const query = 'Does bitter leaf treat malaria?';
+    const cases: [unknown, RegExp][] = [
+      [{ query, articles: [{ ...ARTICLES[0], abstract: undefined }] }, /^articles\[0\]/],
+      [{ query, articles: ARTICLES, history: [null] }, /^history\[0\]/],
+      [{ query, articles: ARTICLES, history: [{ role: 'user' }] }, /^history\[0\]/],
+      [{ query, articles: ARTICLES, history: [{ role: 'model', text: 'ok' }, { role: 'system', text: 'hi' }] }, /^history\[1\]/],
+      [{ query, articles: ARTICLES, nigerianNames: [null] }, /^nigerianNames\[0\]/],
+      [{ query, articles: ARTICLES, nigerianNames: [{ scientificName: 'X y' }] }, /^nigerianNames\[0\]/],
+    ];
+    for (const [body, error] of cases) {
+      const { request, error: message } = parseAnswerRequest(body);
+      assert.equal(request, undefined, JSON.stringify(body));
+      assert.match(message!, error);
+    }
+  });
+
+  it('does not trust the verified flag sent by the client', () => {
+    const [entry] = names([{ scientificName: 'Madeup plantus', names: { yoruba: 'ewé' }, verified: true, source: 'curated' }]);
+    assert.equal(entry.verified, false);
+    assert.equal(entry.source, 'llm');
+    assert.deepEqual(entry.names, { yoruba: 'ewé' });
+  });
+
+  it('takes names of curated plants from the server lexicon', () => {
+    const [entry] = names([{ scientificName: 'Vernonia amygdalina', names: { yoruba: 'wrong' }, verified: false }]);
+    assert.equal(entry.verified, true);
+    assert.equal(entry.names.yoruba, 'ewúro');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPageLayout } from '../src/herbalLayout';
+import { PAGE, textItem } from './support/pdfTextItems';
+
+const LEFT = ['Leaves are alternate and simple,', 'petiolate, with a serrate margin', 'and a pointed apex; the upper', 'surface is dark green and the', 'lower surface paler and hairy.'];
+const RIGHT = ['The decoction of the leaves is', 'taken for fever and malaria, and', 'the chewed stem is used to clean', 'the teeth. The bitter taste', 'comes from sesquiterpene lactones.'];
+
+describe('buildPageLayout', () => {
+  it('reads a two-column page one column at a time, after the title spanning both', () => {
+    // pdf.js returns the items row by row across the page, as printed
+    const items = [textItem('VERNONIA AMYGDALINA – BITTER LEAF MONOGRAPH, LEAF AND STEM', 60, 780, { size: 14 })];
+    LEFT.forEach((text, i) => {
+      items.push(textItem(text, 60, 740 - i * 14), textItem(RIGHT[i], 320, 740 - i * 14));
+    });
+
+    const layout = buildPageLayout(items, PAGE);
+
+    assert.equal(layout.columns, 2);
+    assert.deepEqual(layout.lines.map(line => line.text), ['VERNONIA AMYGDALINA – BITTER LEAF MONOGRAPH, LEAF AND STEM', ...LEFT, ...RIGHT]);
+    assert.deepEqual(layout.lines.map(line => line.column), [-1, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1]);
+  });
+
+  it('keeps a single-column page in one column, with spaces between close items', () => {
+    const layout = buildPageLayout([
+      textItem('Bitter', 60, 700), textItem('leaf', 92, 700), textItem('is eaten as a vegetable soup.', 60, 686),
+    ], PAGE);
+
+    assert.equal(layout.columns, 1);
+    assert.deepEqual(layout.lines.map(line => line.text), ['Bitter leaf', 'is eaten as a vegetable soup.']);
+  });
+
+  it('tags larger lines and bold labels at body size as headings, but not bold sentences', () => {
+    const layout = buildPageLayout([
+      textItem('Vernonia amygdalina Del.', 60, 760, { size: 14, font: 'Times-Bold' }),
+      textItem('Description', 60, 730, { font: 'ABCDEF+Times-Bold' }),
+      textItem('A shrub or small tree up to 10 m tall with grey bark.', 60, 716),
+      textItem('Do not use this preparation during the first trimester.', 60, 702, { font: 'Times-Bold' }),
+      textItem('Leaves are elliptic and finely hairy beneath.', 60, 688),
+    ], PAGE);
+
+    const headings = layout.lines.filter(line => line.isHeading);
+    assert.deepEqual(headings.map(line => [line.text, line.headingLevel]), [['Vernonia amygdalina Del.', 1], ['Description', 2]]);
+    assert.equal(layout.bodyFontSize, 10);
+    assert.equal(layout.lines[1].bold, true);
+  });
+
+  it('resolves bold from the real font name pdf.js reports for a font id', () => {
+    const layout = buildPageLayout([
+      textItem('Storage', 60, 730, { font: 'g_d0_f2' }),
+      textItem('Store in a cool dry place, protected from light.', 60, 716, { font: 'g_d0_f1' }),
+    ], { ...PAGE, fontNames: { g_d0_f1: 'Times-Roman', g_d0_f2: 'Times-Bold' } });
+
+    assert.equal(layout.lines[0].fontName, 'Times-Bold');
+    assert.equal(layout.lines[0].isHeading, true);
+    assert.equal(layout.lines[1].isHeading, false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  splitMonographSections, parseVernacularNames, parseTLCTest, parseQualityStandards, parseListSection, isMonographHeading
+} from '../src/herbalMonograph';
+
+const MONOGRAPH = [
+  'Vernonia amygdalina Del.',
+  'Family',
+  'Asteraceae',
+  'Common Names',
+  'Nigeria: Yoruba – Ewuro; Igbo – Onugbu',
+  'Ghana: Twi – Awonwono',
+  'Description of the plant',
+  'A shrub or small tree up to 10 m tall.',
+  '',
+  'The bark is grey and rough, the leaves elliptic and petiolate, with a',
+  'finely serrate margin.',
+  '4.2 Microscopy',
+  'Upper epidermis with straight-walled cells; glandular trichomes.',
+  'Quality standards: Total ash: not more than 8.5%',
+  'Storage',
+  'Store in a cool, dry place.',
+].join('\n');
+
+describe('splitMonographSections', () => {
+  it('runs each section from its heading to the next, keeping paragraphs and inline content', () => {
+    const sections = splitMonographSections(MONOGRAPH);
+
+    assert.deepEqual(sections.map(section => section.field), ['vernacularNames', 'description', 'microscopy', 'qualityStandards', 'storage']);
+    const description = sections[1];
+    assert.equal(description.heading, 'Description of the plant');
+    assert.equal(description.text, 'A shrub or small tree up to 10 m tall.\n\nThe bark is grey and rough, the leaves elliptic and petiolate, with a finely serrate margin.');
+    assert.equal(MONOGRAPH.slice(description.start, description.end).trim(), description.lines.join('\n').trim());
+    assert.equal(sections[2].heading, '4.2 Microscopy');
+    assert.deepEqual(sections[3].lines, ['Total ash: not more than 8.5%']);
+  });
+
+  it('ends a section at headings that have no field of their own', () => {
+    const sections = splitMonographSections('Storage\nStore in a cool place.\nReferences\nAdeyemi, 2019.');
+    assert.deepEqual(sections.map(section => section.text), ['Store in a cool place.']);
+    assert.ok(isMonographHeading('References'));
+    assert.ok(!isMonographHeading('The references below were consulted.'));
+  });
+});
+
+describe('parseVernacularNames', () => {
+  it('labels names with the country and language of the WAHP layout', () => {
+    const names = parseVernacularNames(['Nigeria: Yoruba – Ewuro; Igbo – Onugbu,', 'Oriwo', 'English: bitter leaf']);
+    assert.deepEqual(names, [
+      { name: 'Ewuro', country: 'Nigeria', language: 'Yoruba' },
+      { name: 'Onugbu', country: 'Nigeria', language: 'Igbo' },
+      { name: 'Oriwo', country: 'Nigeria', language: 'Igbo' },
+      { name: 'bitter leaf', country: undefined, language: 'English' },
+    ]);
+  });
+
+  it('reads a country on its own line and languages given in brackets', () => {
+    assert.deepEqual(parseVernacularNames(['Nigeria', 'ewuro (Yoruba), onugbu (Igbo)']), [
+      { name: 'ewuro', country: 'Nigeria', language: 'Yoruba' },
+      { name: 'onugbu', country: 'Nigeria', language: 'Igbo' },
+    ]);
+  });
+});
+
+describe('parseQualityStandards', () => {
+  it('reads limits, ranges and units', () => {
+    const standards = parseQualityStandards([
+      'Total ash: not more than 8.5%',
+      'Water-soluble extractive 12.0 - 15.5 %; Moisture content not less than 5.0%',
+      'Foreign matter: absent',
+    ]);
+
+    assert.deepEqual(standards, [
+      { parameter: 'Total ash', text: 'not more than 8.5%', max: 8.5, unit: '%' },
+      { parameter: 'Water-soluble extractive', text: '12.0 - 15.5 %', min: 12, max: 15.5, unit: '%' },
+      { parameter: 'Moisture content', text: 'not less than 5.0%', min: 5, unit: '%' },
+    ]);
+  });
+});
+
+describe('parseTLCTest', () => {
+  it('pulls out the mobile phase, detection and Rf values', () => {
+    const test = parseTLCTest('Mobile phase: chloroform: methanol (9:1). Detection: anisaldehyde-sulphuric acid. Spots at Rf 0.35, 0.52 and 0.78.');
+    assert.equal(test.mobilePhase, 'chloroform: methanol (9:1)');
+    assert.equal(test.detection, 'anisaldehyde-sulphuric acid');
+    assert.deepEqual(test.rfValues, [0.35, 0.52, 0.78]);
+  });
+});
+
+describe('parseListSection', () => {
+  it('splits short lists but keeps prose whole', () => {
+    assert.deepEqual(parseListSection('Antimalarial, antipyretic; laxative.'), ['Antimalarial', 'antipyretic', 'laxative']);
+    const prose = 'Used for fever. Also taken as a tonic, in small doses.';
+    assert.deepEqual(parseListSection(prose), [prose]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPageLayout } from '../src/herbalLayout';
+import { detectTables } from '../src/herbalTables';
+import { chunkHerbalDocument } from '../src/herbalChunker';
+import { PAGE, textItem } from './support/pdfTextItems';
+
+const BOLD = { font: 'Times-Bold' };
+
+// A WAHP-style quality standards table whose first limit wraps onto a second
+// line. The full-width paragraphs keep the page from reading as two columns.
+const QUALITY_PAGE = [
+  textItem('Vernonia amygdalina Del.', 60, 780, { size: 14, font: 'Times-Bold' }),
+  textItem('The dried leaf should meet the following standards when tested by the methods of the', 60, 764),
+  textItem('pharmacopoeia. Samples are taken from at least three bags of each batch received.', 60, 750),
+  textItem('Table 1: Quality standards', 60, 736),
+  textItem('Parameter', 60, 722, BOLD), textItem('Limit', 260, 722, BOLD),
+  textItem('Total ash', 60, 707), textItem('not more than 8.5%', 260, 707),
+  textItem('(on the dried leaf)', 260, 693),
+  textItem('Acid-insoluble ash', 60, 679), textItem('not more than 1.2%', 260, 679),
+  textItem('Water-soluble extractive', 60, 665), textItem('not less than 12.0%', 260, 665),
+  textItem('The leaf complies with the limits above when it is stored dry and protected from light,', 60, 645),
+  textItem('and it should be re-tested after two years of storage or whenever it shows mould.', 60, 631),
+];
+
+describe('detectTables', () => {
+  it('builds the rows of a quality table, joining a wrapped cell to its row', () => {
+    const layout = buildPageLayout(QUALITY_PAGE, PAGE);
+    assert.equal(layout.columns, 1);
+    const detected = detectTables(layout);
+
+    assert.equal(detected.length, 1);
+    const [{ table, firstLine, lastLine }] = detected;
+    assert.equal(table.caption, 'Table 1: Quality standards');
+    assert.equal(table.kind, 'quality');
+    assert.deepEqual(table.headers, ['Parameter', 'Limit']);
+    assert.deepEqual(table.rows, [
+      ['Total ash', 'not more than 8.5% (on the dried leaf)'],
+      ['Acid-insoluble ash', 'not more than 1.2%'],
+      ['Water-soluble extractive', 'not less than 12.0%'],
+    ]);
+    // From the caption to the last row; the paragraph after the table is not part of it
+    assert.deepEqual([layout.lines[firstLine].text, layout.lines[lastLine].text], ['Table 1: Quality standards', 'Water-soluble extractive not less than 12.0%']);
+  });
+
+  it('ignores a page of ordinary paragraphs', () => {
+    const layout = buildPageLayout([
+      textItem('The leaves are eaten as a vegetable and taken', 60, 707),
+      textItem('as a decoction for fever.', 60, 693),
+    ], PAGE);
+    assert.deepEqual(detectTables(layout), []);
+  });
+});
+
+describe('chunkHerbalDocument tables', () => {
+  it('writes one chunk per row with the headers repeated', () => {
+    const [{ table }] = detectTables(buildPageLayout(QUALITY_PAGE, PAGE));
+    const chunks = chunkHerbalDocument({
+      plants: [{ botanicalName: 'Vernonia amygdalina', plantPartsUsed: ['leaf'], tables: [table] }],
+      rawText: '',
+      metadata: {},
+    });
+
+    const rows = chunks.filter(chunk => chunk.metadata?.sectionType === 'table');
+    assert.deepEqual(rows.map(chunk => chunk.section), ['table-1-row-1', 'table-1-row-2', 'table-1-row-3']);
+    assert.equal(rows[0].content, [
+      'Vernonia amygdalina – Table 1: Quality standards',
+      'Plant Parts Used: leaf',
+      'Parameter: Total ash',
+      'Limit: not more than 8.5% (on the dried leaf)',
+    ].join('\n'));
+    rows.forEach(chunk => {
+      assert.match(chunk.content, /\nParameter: .+\nLimit: /);
+      assert.equal(chunk.page, 1);
+      assert.equal(chunk.metadata!.tableKind, 'quality');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { replayLiteratureFixtures } from './support/literatureFixtures';
+import { searchEuropePmc } from '../api/_lib/europePmc';
+import { searchAjol } from '../api/_lib/ajol';
+import { mergeLiteratureResults } from '../services/literatureSources';
+import { PubMedArticle } from '../types';
+
+describe('literature source adapters on the sample responses', () => {
+  let replay: ReturnType<typeof replayLiteratureFixtures>;
+  before(() => { replay = replayLiteratureFixtures(); });
+  after(() => replay.restore());
+
+  it('normalizes Europe PMC results, with EPMC IDs for records without a PMID', async () => {
+    const { data, cache } = await searchEuropePmc('"Vernonia amygdalina"');
+
+    assert.equal(cache, 'MISS');
+    assert.deepEqual(data.map(article => article.pmid), ['30000001', 'EPMC:AGR-IND600000001', 'EPMC:PPR-PPR600001']);
+
+    const [medline, agricola] = data;
+    assert.equal(medline.source, 'europepmc');
+    assert.equal(medline.title, 'Antiplasmodial activity of Vernonia amygdalina leaf extract in mice infected with Plasmodium berghei.');
+    assert.match(medline.abstract, /^\*\*Background\*\*: Bitter leaf \(Vernonia amygdalina\)/);
+    assert.deepEqual(medline.authors, ['Adeyemi OA', 'Okafor CN', 'Bello MS']);
+    assert.deepEqual(medline.authorDetails![0].affiliations, ['Department of Pharmacology, University of Ibadan, Nigeria.']);
+    assert.equal(medline.pubDate, 'Jun 2019');
+    assert.equal(medline.pmcid, 'PMC6000001');
+    assert.deepEqual(medline.meshHeadings![1], { descriptor: 'Antimalarials', isMajorTopic: true, qualifiers: [{ name: 'pharmacology', isMajorTopic: true }] });
+    assert.equal(agricola.url, 'https://europepmc.org/article/AGR/IND600000001');
+    assert.equal(agricola.pubDate, 'Mar 2017');
+  });
+
+  it('serves a repeated Europe PMC search from the cache', async () => {
+    const requestCount = replay.requests.length;
+    const { cache } = await searchEuropePmc('"Vernonia amygdalina"');
+    assert.equal(cache, 'HIT');
+    assert.equal(replay.requests.length, requestCount);
+  });
+
+  it('reads AJOL search hits and article meta tags into articles', async () => {
+    const { data } = await searchAjol('Vernonia amygdalina');
+
+    assert.deepEqual(data.map(article => article.pmid), ['AJOL:700001', 'AJOL:700002']);
+    const [article] = data;
+    assert.equal(article.source, 'ajol');
+    assert.equal(article.title, 'Hepatoprotective effect of Vernonia amygdalina in carbon tetrachloride-induced liver damage');
+    assert.match(article.abstract, /after CCl4 challenge/);
+    assert.deepEqual(article.authors, ['A.B. Ibrahim', 'E.O. Nwosu']);
+    assert.equal(article.pages, '41-47');
+    assert.equal(article.pubDate, 'Nov 2021');
+    assert.equal(article.doi, '10.0000/njnpm.v25i1.7');
+    assert.deepEqual(article.keywords, ['Vernonia amygdalina', 'hepatoprotection', 'Wistar rats']);
+    assert.ok(replay.requests.includes('https://www.ajol.info/index.php/njnpm/article/view/700001'));
+  });
+});
+
+const pubmedArticle = (fields: Partial<PubMedArticle>): PubMedArticle => ({
+  pmid: '30000001', title: 'Untitled', abstract: 'No abstract available.', authors: [], journal: 'J', pubDate: '2019', ...fields,
+});
+
+describe('mergeLiteratureResults', () => {
+  it('collapses records sharing a DOI, whatever its case, keeping the earlier source', () => {
+    const pubmed = pubmedArticle({ title: 'Antiplasmodial activity of bitter leaf', doi: '10.0000/SAMPLE.2019.001' });
+    const europePmc = pubmedArticle({ pmid: 'EPMC:AGR-1', source: 'europepmc', title: 'Different title entirely here', doi: '10.0000/sample.2019.001' });
+
+    const merged = mergeLiteratureResults([[pubmed], [europePmc]]);
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0].pmid, '30000001');
+  });
+
+  it('collapses records whose titles differ only in case and punctuation', () => {
+    const europePmc = pubmedArticle({ pmid: 'EPMC:PPR-1', source: 'europepmc', title: 'Acute toxicity of Vernonia amygdalina leaf extract in rats.' });
+    const ajol = pubmedArticle({
+      pmid: 'AJOL:700009', source: 'ajol', title: 'ACUTE TOXICITY OF VERNONIA AMYGDALINA LEAF EXTRACT IN RATS',
+      doi: '10.0000/ajol.9', abstract: 'No deaths at 5000 mg/kg.', keywords: ['toxicity'],
+    });
+
+    const merged = mergeLiteratureResults([[europePmc], [ajol]]);
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0].pmid, 'EPMC:PPR-1');
+    // The kept record borrows what it lacked from the duplicate
+    assert.equal(merged[0].doi, '10.0000/ajol.9');
+    assert.equal(merged[0].abstract, 'No deaths at 5000 mg/kg.');
+    assert.deepEqual(merged[0].keywords, ['toxicity']);
+  });
+
+  it('keeps short titles apart, since they collide too easily', () => {
+    const merged = mergeLiteratureResults([
+      [pubmedArticle({ pmid: '1', title: 'Editorial' })],
+      [pubmedArticle({ pmid: 'AJOL:2', source: 'ajol', title: 'Editorial' })],
+    ]);
+    assert.equal(merged.length, 2);
+  });
+
+  it('merges the fixture results without collapsing distinct works', async () => {
+    const replay = replayLiteratureFixtures();
+    try {
+      const [europePmc, ajol] = await Promise.all([searchEuropePmc('bitter leaf'), searchAjol('bitter leaf')]);
+      const duplicate = pubmedArticle({ title: 'Antiplasmodial activity of Vernonia amygdalina leaf extract in mice infected with Plasmodium berghei' });
+      const merged = mergeLiteratureResults([[duplicate], europePmc.data, ajol.data]);
+      assert.equal(merged.length, europePmc.data.length + ajol.data.length);
+      assert.equal(merged[0].doi, '10.0000/sample.2019.001');
+    } finally {
+      replay.restore();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFailoverChain, LLMProviderError } from '../services/llm/provider';
+import { LLMProvider } from '../types';
+
+type Outcome = string | LLMProviderError;
+
+/**
+ * A provider that plays back one outcome per call: the answer text, or an
+ * error to throw. `streamFailure` throws after the first streamed word.
+ */
+const fakeProvider = (id: string, outcomes: Outcome[], streamFailure?: LLMProviderError) => {
+  const calls: string[] = [];
+  const next = () => {
+    const outcome = outcomes[Math.min(calls.length, outcomes.length - 1)];
+    calls.push('call');
+    if (outcome instanceof LLMProviderError) throw outcome;
+    return outcome;
+  };
+  const provider: LLMProvider = {
+    id,
+    label: id,
+    complete: async () => next(),
+    stream: async function* () {
+      const words = next().split(' ');
+      yield words[0];
+      if (streamFailure) throw streamFailure;
+      for (const word of words.slice(1)) yield ` ${word}`;
+    },
+    countTokens: text => text.length,
+  };
+  return { provider, calls };
+};
+
+const status = (provider: string, code: number) => new LLMProviderError(`HTTP ${code}`, provider, code);
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+const FAST = { baseDelayMs: 0 };
+
+describe('createFailoverChain', () => {
+  it('retries 429 and 5xx on the same provider before answering', async () => {
+    const groq = fakeProvider('groq', [status('groq', 429), status('groq', 503), 'groq answer']);
+    const gemini = fakeProvider('gemini', ['gemini answer']);
+    const chain = createFailoverChain([groq.provider, gemini.provider], { maxRetries: 2, ...FAST });
+
+    assert.equal(await chain.complete([]), 'groq answer');
+    assert.equal(groq.calls.length, 3);
+    assert.equal(gemini.calls.length, 0);
+  });
+
+  it('fails over once retries on 429/5xx are used up', async () => {
+    const groq = fakeProvider('groq', [status('groq', 429)]);
+    const gemini = fakeProvider('gemini', ['gemini answer']);
+    const chain = createFailoverChain([groq.provider, gemini.provider], { maxRetries: 2, ...FAST });
+
+    assert.equal(await chain.complete([]), 'gemini answer');
+    assert.equal(groq.calls.length, 3);
+  });
+
+  it('fails over at once on errors that are not worth retrying', async () => {
+    const groq = fakeProvider('groq', [status('groq', 401)]);
+    const gemini = fakeProvider('gemini', ['gemini answer']);
+    const chain = createFailoverChain([groq.provider, gemini.provider], FAST);
+
+    assert.equal(await collect(chain.stream([])), 'gemini answer');
+    assert.equal(groq.calls.length, 1);
+  });
+
+  it('fails over a stream that errors before its first chunk', async () => {
+    const groq = fakeProvider('groq', [status('groq', 500)]);
+    const gemini = fakeProvider('gemini', ['streamed from gemini']);
+    const chain = createFailoverChain([groq.provider, gemini.provider], { maxRetries: 0, ...FAST });
+
+    assert.equal(await collect(chain.stream([])), 'streamed from gemini');
+  });
+
+  it('does not fail over a stream after its first chunk', async () => {
+    const groq = fakeProvider('groq', ['partial groq answer'], status('groq', 503));
+    const gemini = fakeProvider('gemini', ['gemini answer']);
+    const chain = createFailoverChain([groq.provider, gemini.provider], FAST);
+
+    const received: string[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of chain.stream([])) received.push(chunk);
+    }, { status: 503 });
+    assert.deepEqual(received, ['partial']);
+    assert.equal(groq.calls.length, 1);
+    assert.equal(gemini.calls.length, 0);
+  });
+
+  it('reports every provider when all of them fail', async () => {
+    const groq = fakeProvider('groq', [status('groq', 502)]);
+    const gemini = fakeProvider('gemini', [status('gemini', 400)]);
+    const chain = createFailoverChain([groq.provider, gemini.provider], { maxRetries: 1, ...FAST });
+
+    await assert.rejects(chain.complete([]), /All LLM providers failed\. groq: HTTP 502; gemini: HTTP 400/);
+  });
+});
@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import axios, { AxiosAdapter } from 'axios';
+
+const FIXTURES_DIR = `${process.cwd()}/tests/fixtures/literature`;
+
+// Request URL -> fixture file; anything else fails, so tests never reach the network
+const fixtureFor = (url: string): string | null => {
+  if (url.startsWith('https://www.ebi.ac.uk/europepmc/webservices/rest/search')) return 'europepmc-search.json';
+  if (url.startsWith('https://www.ajol.info/index.php/index/search/search')) return 'ajol-search.html';
+  const article = url.match(/^https:\/\/www\.ajol\.info\/index\.php\/[^/]+\/article\/view\/(\d+)$/);
+  return article ? `ajol-article-${article[1]}.html` : null;
+};
+
+/**
+ * Serves the Europe PMC and AJOL fixtures through axios's adapter, so the
+ * production adapters run unchanged. Returns the URLs requested and a
+ * function restoring the real adapter.
+ */
+export const replayLiteratureFixtures = (): { requests: string[]; restore: () => void } => {
+  const original = axios.defaults.adapter;
+  const requests: string[] = [];
+
+  const adapter: AxiosAdapter = async config => {
+    const url = config.url!;
+    requests.push(url);
+    const file = fixtureFor(url);
+    if (!file) throw new Error(`No literature fixture for ${url}`);
+    return { data: readFileSync(`${FIXTURES_DIR}/${file}`, 'utf8'), status: 200, statusText: 'OK', headers: {}, config };
+  };
+  axios.defaults.adapter = adapter;
+
+  return { requests, restore: () => { axios.defaults.adapter = original; } };
+};
@@ -0,0 +1,17 @@
+import { PdfTextItem, PageGeometry } from '../../src/herbalLayout';
+
+// An A4-sized page, in PDF units
+export const PAGE: PageGeometry = { page: 1, view: [0, 0, 595, 842] };
+
+/**
+ * A pdf.js text item at (x, y) in a `size`-point font. Widths are
+ * approximated at half the font size per character, close enough to
+ * Times for the layout's gap thresholds.
+ */
+export const textItem = (str: string, x: number, y: number, { size = 10, font = 'Times-Roman' } = {}): PdfTextItem => ({
+  str,
+  transform: [size, 0, 0, size, x, y],
+  width: str.length * size * 0.5,
+  height: size,
+  fontName: font,
+});
@@ -1,24 +1,234 @@
+// Bibliographic databases the app can search; PubMed is the default
+export type LiteratureSourceId = 'pubmed' | 'europepmc' | 'ajol';
+
 export interface PubMedArticle {
-  pmid: string;
+  pmid: string;  // PubMed ID, or a source-prefixed ID such as "AJOL:123456" for records outside PubMed
+  source?: LiteratureSourceId;  // Where the record came from; PubMed when absent
+  url?: string;  // Landing page for records outside PubMed
   title: string;
   abstract: string;
   authors: string[];
   journal: string;
+  journalAbbreviation?: string;  // ISO abbreviation, e.g. "J Ethnopharmacol"
+  volume?: string;
+  issue?: string;
+  pages?: string;  // e.g. "112-9" (MEDLINE style) or "112-119"
   pubDate: string;
   doi?: string;
+  pmcid?: string;  // PubMed Central ID, e.g. "PMC1234567", when a free full text exists
+  publicationTypes?: string[];  // e.g. "Randomized Controlled Trial", "Review"
+  meshHeadings?: MeshHeading[];
+  keywords?: string[];  // Author-supplied keywords
+  authorDetails?: ArticleAuthor[];  // Full author list; `authors` holds the short display names
+  language?: string;  // ISO 639-2 code, e.g. "eng"
+  abstractSections?: AbstractSection[];  // Structured abstracts split by label
+  searchTier?: SearchTierId;  // Most specific search tier that returned the article
+  fullTextPassages?: FullTextPassage[];  // PMC open-access excerpts placed in the LLM context
+  corrections?: ArticleCorrection[];  // Retraction notices, errata and expressions of concern about this article
+  isRetracted?: boolean;  // A retraction notice exists or the record is typed "Retracted Publication"
   imageUrl?: string;  // Optional URL for image associated with the article
   imageAlt?: string;  // Alternative text for the image
   imageCaption?: string;  // Caption for the image
 }
 
+export type CorrectionKind = 'retraction' | 'erratum' | 'expression-of-concern';
+
+// A notice published about an article (PubMed CommentsCorrections "...In" entries)
+export interface ArticleCorrection {
+  kind: CorrectionKind;
+  source: string;  // Citation of the notice, e.g. "J Ethnopharmacol. 2021 Mar 1;267:113512"
+  noticePmid?: string;
+}
+
+export type StudyDesign =
+  | 'meta-analysis' | 'systematic-review' | 'randomized-trial' | 'clinical-trial'
+  | 'observational' | 'cohort' | 'case-control' | 'cross-sectional' | 'case-report'
+  | 'ethnobotanical-survey' | 'animal' | 'in-vitro' | 'phytochemical' | 'narrative-review' | 'other';
+
+// GRADE-style certainty of evidence
+export type EvidenceLevel = 'high' | 'moderate' | 'low' | 'very-low';
+
+export interface EvidenceGrade {
+  design: StudyDesign;
+  designLabel: string;
+  level: EvidenceLevel;
+  basis: 'publication-type' | 'mesh' | 'abstract' | 'none';  // Which metadata decided the design
+}
+
+// Search tiers, from most to least specific: Nigeria + medical context, Nigeria only, West Africa
+export type SearchTierId = 'strict' | 'national' | 'regional';
+
+export interface SearchTierOutcome {
+  tier: SearchTierId;
+  count: number;  // IDs returned by this tier, before deduplication
+}
+
+export type PublicationTypeFilter =
+  | 'review' | 'systematic-review' | 'meta-analysis' | 'clinical-trial' | 'randomized-trial' | 'observational';
+
+export type SpeciesFilter = 'humans' | 'animals';
+
+export type SearchSort = 'relevance' | 'date';
+
+// PubMed search filters, sent to the API routes as query parameters
+export interface SearchFilters {
+  yearFrom?: number;  // Publication year range, inclusive
+  yearTo?: number;
+  publicationTypes?: PublicationTypeFilter[];  // Any of these types
+  species?: SpeciesFilter;  // 'animals' excludes studies that also cover humans
+  freeFullTextOnly?: boolean;
+  language?: string;  // PubMed language name, e.g. "english"
+  retmax?: number;  // Results per search tier
+  sort?: SearchSort;
+}
+
+export interface SearchOptions {
+  mergeTiers?: boolean;  // Run every tier and union the results instead of stopping at the first hit
+  filters?: SearchFilters;
+  sources?: LiteratureSourceId[];  // Databases to search; PubMed only when absent
+}
+
+export interface TieredSearchResult {
+  ids: string[];
+  tierByPmid: Record<string, SearchTierId>;
+  tiers: SearchTierOutcome[];  // Only the tiers that were actually searched
+  merged: boolean;
+}
+
+// Tiered search with the articles fetched through /api/pubmed-articles
+export interface PubMedSearchResult extends TieredSearchResult {
+  articles: PubMedArticle[];
+}
+
+export interface LiteratureSearchResult {
+  articles: PubMedArticle[];
+  tiers?: SearchTierOutcome[];  // Only PubMed searches in tiers
+}
+
+// A searchable bibliographic database; each adapter normalizes its records to PubMedArticle
+export interface LiteratureSource {
+  id: LiteratureSourceId;
+  label: string;
+  search: (query: string, options: SearchOptions, onProgress?: (msg: string) => void) => Promise<LiteratureSearchResult>;
+}
+
+// ---------- LLM providers ----------
+
+export type LLMProviderId = 'groq' | 'gemini' | 'local' | 'mock';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;  // Ask for a single JSON object (the provider's JSON mode)
+  signal?: AbortSignal;
+}
+
+// A chat model behind one API; see services/llm/ for the implementations and the failover chain
+export interface LLMProvider {
+  id: string;  // An LLMProviderId, or e.g. "groq>gemini" for a failover chain
+  label: string;
+  complete: (messages: LLMMessage[], options?: LLMRequestOptions) => Promise<string>;
+  stream: (messages: LLMMessage[], options?: LLMRequestOptions) => AsyncGenerator<string>;
+  countTokens: (text: string) => number;
+}
+
+// Pharmacopoeia passage /api/answer placed in the context, by page for citation checks
+export interface PharmacopoeiaPage {
+  id: string;
+  source: 'AHP' | 'WAP';
+  page: number;
+}
+
+// Body of POST /api/answer: everything the server needs to build the prompt
+export interface AnswerRequest {
+  query: string;
+  articles: PubMedArticle[];
+  history: ChatMessage[];
+  nigerianNames?: PlantLexiconEntry[];  // Resolved in the browser, where LLM suggestions are cached; the server marks all but its curated names unverified
+  format: 'markdown' | 'json';
+  intent?: QueryIntent;  // Selects the prompt template; therapeutic use when omitted
+  includeRetracted?: boolean;  // Let retracted articles into the context
+}
+
+// What /api/answer placed in the model's context, returned in the X-Answer-Context header
+export interface AnswerContext {
+  contextPmids: string[];    // Articles that fit the server's context budget, in rank order
+  omittedPmids: string[];    // Left out for lack of budget
+  retractedPmids: string[];  // Retracted articles held back
+  estimatedTokens: number;
+  herbalPages: PharmacopoeiaPage[];  // Pharmacopoeia passages retrieved on the server
+}
+
+// Merged result of every enabled literature source, deduplicated by DOI/title
+export interface CombinedSearchResult {
+  articles: PubMedArticle[];
+  tiers: SearchTierOutcome[];
+  sourceCounts: Partial<Record<LiteratureSourceId, number>>;  // Articles each source returned, before deduplication
+}
+
+// Sections of a PMC open-access article kept for the RAG context
+export type FullTextSectionKind = 'methods' | 'results' | 'discussion';
+
+export interface FullTextSection {
+  kind: FullTextSectionKind;
+  title: string;  // Heading as written, e.g. "Materials and Methods"
+  paragraphs: string[];  // Paragraphs and flattened tables, in order
+}
+
+// Response of /api/pmc-fulltext
+export interface PmcFullText {
+  pmcid: string;
+  sections: FullTextSection[];
+}
+
+export interface FullTextPassage {
+  section: FullTextSectionKind;
+  heading: string;
+  text: string;
+}
+
+export interface MeshHeading {
+  descriptor: string;
+  isMajorTopic: boolean;
+  qualifiers: { name: string; isMajorTopic: boolean }[];
+}
+
+export interface ArticleAuthor {
+  lastName?: string;
+  foreName?: string;
+  initials?: string;
+  collectiveName?: string;  // Group authors such as consortia
+  affiliations: string[];
+}
+
+export interface AbstractSection {
+  label?: string;  // e.g. "BACKGROUND", "METHODS"
+  nlmCategory?: string;  // NLM's normalized label: BACKGROUND, OBJECTIVE, METHODS, RESULTS, CONCLUSIONS
+  text: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
   isError?: boolean;
+  isStreaming?: boolean; // Text is still arriving from the model
+  structured?: StructuredAnswer; // Set when the answer was generated in structured mode
+  citationReport?: CitationReport; // Set once the answer's citations have been verified
+  searchedFor?: string; // How a question that triggered a search was rewritten, e.g. "Vernonia amygdalina (ewuro)"
+  contextPmids?: string[]; // Articles that fit the context budget and were shown to the model
+  intent?: QueryIntent; // How a question was classified
 }
 
+// How the latest answer used a retrieved article
+export type ArticleUsage = 'cited' | 'in-context' | 'unused';
+
 export enum AppMode {
   LANDING = 'LANDING',
   SEARCHING = 'SEARCHING',
@@ -60,6 +270,52 @@ export interface NigerianPlantData {
   confidenceScore: number; // 0-100
 }
 
+// Curated lexicon of Nigerian plant names, keyed by scientific name
+export interface PlantLexiconEntry {
+  scientificName: string;
+  commonName: string;
+  names: NigerianPlantData['names'];
+  synonyms?: string[]; // Other scientific names the plant is published under
+  isNative: boolean;
+  notes?: string;
+  verified: boolean; // false for names suggested by the LLM fallback
+  source: 'curated' | 'llm';
+}
+
+export interface PlantLexicon {
+  version: number; // Bumped on every import so stale fallback caches are dropped
+  updatedAt: string;
+  entries: PlantLexiconEntry[];
+}
+
+// A vernacular plant name recognized in a user query
+export interface ResolvedPlantName {
+  localName: string; // As typed by the user, e.g. "ewúro"
+  language: keyof NigerianPlantData['names'];
+  scientificName: string;
+  synonyms: string[];
+}
+
+export interface QueryUnderstanding {
+  originalQuery: string;
+  plants: ResolvedPlantName[];
+  keywords: string; // Remaining subject words once stop words and plant names are removed
+}
+
+// What a question asks for; decides which pipeline and prompt answer it
+export type QueryIntent =
+  | 'name-lookup'          // "What is the Yoruba name for jute leaf?"
+  | 'therapeutic-use'      // "Is bitter leaf good for malaria?"
+  | 'safety'               // "Is moringa safe in pregnancy?"
+  | 'preparation'          // "How do I prepare scent leaf tea?"
+  | 'comparison'           // "Neem vs bitter leaf for malaria"
+  | 'condition-to-plants'; // "Which plants treat diabetes?"
+
+export interface IntentClassification {
+  intent: QueryIntent;
+  cues: string[];  // Phrases that decided it, e.g. ["yoruba name"]
+}
+
 export interface UserProfile {
   age: number;
   location: string;
@@ -71,4 +327,58 @@ export interface SearchContext {
   query: string;
   timestamp: Date;
   articleCount: number;
-}
\ No newline at end of file
+}
+// Structured answer mode: a typed alternative to the free-form markdown answer
+export type AnswerMode = 'markdown' | 'structured';
+
+// Citations are "PMID:12345", "AHP:Page24" or "WAP:Page102"
+export interface StructuredPlant {
+  scientificName: string;
+  commonName: string;
+  localNames: NigerianPlantData['names'];
+  isNative: boolean | null;
+}
+
+export interface StructuredClaim {
+  plant: string; // Scientific name of the plant the claim is about
+  claim: string;
+  citations: string[];
+}
+
+export interface StructuredSafetyItem {
+  category: 'toxicity' | 'dosage' | 'contraindication' | 'side_effect' | 'interaction';
+  plant?: string;
+  detail: string;
+  citations: string[];
+}
+
+export interface StructuredPreparation {
+  plant?: string;
+  method: string;
+  plantPart?: string;
+  citations: string[];
+}
+
+export interface StructuredAnswer {
+  summary: string;
+  plants: StructuredPlant[];
+  claims: StructuredClaim[];
+  safety: StructuredSafetyItem[];
+  preparations: StructuredPreparation[];
+  researchQuality: string;
+}
+
+// Citation integrity: every citation in an answer checked against the context it was generated from
+export interface CitationCheck {
+  citation: string; // Normalized, e.g. "PMID:12345", "AJOL:98765" or "AHP:Page24"
+  type: 'PMID' | 'EPMC' | 'AJOL' | 'AHP' | 'WAP';
+  status: 'verified' | 'fabricated';
+  reason?: string; // Why a citation could not be verified
+  occurrences: number;
+}
+
+export interface CitationReport {
+  checks: CitationCheck[];
+  verifiedCount: number;
+  fabricatedCount: number;
+}